@@ -0,0 +1,44 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { callbackUrl, exchangeCode } from "@/lib/auth/oidc";
+import type { LoginState } from "@/lib/auth/session";
+import { LOGIN_COOKIE, SESSION_COOKIE, cookieOptions, safeNext, sign, verify } from "@/lib/auth/session";
+
+export const dynamic = "force-dynamic";
+
+function failed(url: URL, error: string, next = "/") {
+  const login = new URL("/login", url);
+  login.searchParams.set("error", error);
+  login.searchParams.set("next", next);
+  const res = NextResponse.redirect(login);
+  res.cookies.delete(LOGIN_COOKIE);
+  return res;
+}
+
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  const login = await verify<LoginState>(req.cookies.get(LOGIN_COOKIE)?.value);
+  const code = url.searchParams.get("code");
+
+  if (!login || login.expiresAt < Date.now() || url.searchParams.get("state") !== login.state) {
+    return failed(url, "expired");
+  }
+  if (url.searchParams.get("error") || !code) return failed(url, "denied", login.next);
+
+  try {
+    const session = await exchangeCode({
+      code,
+      redirectUri: callbackUrl(req),
+      verifier: login.verifier,
+      nonce: login.nonce,
+    });
+    const res = NextResponse.redirect(new URL(safeNext(login.next), url));
+    const maxAge = Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000));
+    res.cookies.set(SESSION_COOKIE, await sign(session), cookieOptions(maxAge));
+    res.cookies.delete(LOGIN_COOKIE);
+    return res;
+  } catch (err) {
+    console.error("Sign-in callback failed", err);
+    return failed(url, "unavailable", login.next);
+  }
+}
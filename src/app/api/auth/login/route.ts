@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authorizationUrl, callbackUrl } from "@/lib/auth/oidc";
+import type { LoginState } from "@/lib/auth/session";
+import { AUTH_ENABLED, LOGIN_COOKIE, cookieOptions, randomToken, safeNext, sign } from "@/lib/auth/session";
+
+export const dynamic = "force-dynamic";
+
+// Time allowed to complete the sign-in at the IdP
+const LOGIN_TTL_SECONDS = 600;
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const next = safeNext(url.searchParams.get("next"));
+  if (!AUTH_ENABLED) return NextResponse.redirect(new URL(next, url));
+
+  const login: LoginState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    verifier: randomToken(48),
+    next,
+    expiresAt: Date.now() + LOGIN_TTL_SECONDS * 1000,
+  };
+  try {
+    const target = await authorizationUrl({ redirectUri: callbackUrl(req), ...login });
+    const res = NextResponse.redirect(target);
+    res.cookies.set(LOGIN_COOKIE, await sign(login), cookieOptions(LOGIN_TTL_SECONDS));
+    return res;
+  } catch (err) {
+    console.error("Sign-in failed", err);
+    const login = new URL("/login", url);
+    login.searchParams.set("error", "unavailable");
+    login.searchParams.set("next", next);
+    return NextResponse.redirect(login);
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/session";
+
+export const dynamic = "force-dynamic";
+
+// POST only, so a link or image on another site cannot sign the clinician out
+export function POST(req: Request) {
+  const res = NextResponse.redirect(new URL("/login?signedOut=1", req.url), 303);
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
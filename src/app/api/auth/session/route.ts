@@ -0,0 +1,15 @@
+import type { NextRequest } from "next/server";
+import { AUTH_ENABLED, SESSION_COOKIE, readSession } from "@/lib/auth/session";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The signed-in clinician and the bearer token for direct backend calls.
+ * `enabled: false` tells the client that sign-in is not configured.
+ */
+export async function GET(req: NextRequest) {
+  const headers = { "Cache-Control": "no-store" };
+  if (!AUTH_ENABLED) return Response.json({ enabled: false, session: null }, { headers });
+  const session = await readSession(req.cookies.get(SESSION_COOKIE)?.value);
+  return Response.json({ enabled: true, session }, { headers });
+}
@@ -0,0 +1,38 @@
+import { CdsAuthError, verifyCdsClient } from "@/lib/auth/cds";
+import type { HookRequest } from "@/lib/cds";
+import { CDS_SERVICES, CORS_HEADERS, buildCards, latestAnalysisFor, ordersToCheck } from "@/lib/cds";
+
+export const dynamic = "force-dynamic";
+
+const json = (body: unknown, status = 200) => Response.json(body, { status, headers: CORS_HEADERS });
+
+export async function POST(req: Request, { params }: { params: { service: string } }) {
+  const service = CDS_SERVICES.find((s) => s.id === params.service);
+  if (!service) return json({ error: "Unknown CDS service" }, 404);
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(req.url).origin;
+  try {
+    await verifyCdsClient(req.headers.get("authorization"), `${appUrl}/api/cds-services/${service.id}`);
+  } catch (err) {
+    if (!(err instanceof CdsAuthError)) throw err;
+    return json({ error: err.message }, 401);
+  }
+
+  const body = (await req.json().catch(() => null)) as HookRequest | null;
+  if (!body || body.hook !== service.hook) return json({ error: `Expected a ${service.hook} request` }, 400);
+
+  const patientId = body.context?.patientId;
+  if (!patientId) return json({ cards: [] });
+
+  try {
+    const analysis = await latestAnalysisFor(patientId);
+    if (!analysis) return json({ cards: [] });
+    return json({ cards: buildCards(analysis, ordersToCheck(body), appUrl) });
+  } catch (err) {
+    return json({ error: err instanceof Error ? err.message : "Analysis lookup failed" }, 502);
+  }
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
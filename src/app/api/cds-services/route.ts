@@ -0,0 +1,11 @@
+import { CDS_SERVICES, CORS_HEADERS } from "@/lib/cds";
+
+export const dynamic = "force-dynamic";
+
+export function GET() {
+  return Response.json({ services: CDS_SERVICES }, { headers: CORS_HEADERS });
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
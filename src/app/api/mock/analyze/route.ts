@@ -0,0 +1,11 @@
+import { detail, mockRoute, readUpload, runAnalysis, vcfParseError } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+export const POST = mockRoute(async (req) => {
+  const upload = await readUpload(req);
+  if (upload instanceof Response) return upload;
+  const parseError = vcfParseError(req, upload.vcf);
+  if (parseError) return detail(parseError, 400);
+  return Response.json(runAnalysis(upload.vcf, upload.drugs));
+});
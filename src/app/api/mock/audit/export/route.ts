@@ -0,0 +1,25 @@
+import { toCsv } from "@/lib/csv";
+import type { AuditEntry } from "@/lib/mock/server";
+import { mockRoute, mockState } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+const COLUMNS: (keyof AuditEntry)[] = [
+  "timestamp",
+  "audit_id",
+  "analysis_id",
+  "patient_id",
+  "action",
+  "drugs",
+  "vcf_hash",
+];
+
+export const GET = mockRoute(() => {
+  const rows = mockState().audit.map((e) => COLUMNS.map((c) => e[c]));
+  return new Response(toCsv([COLUMNS, ...rows]), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="audit_export.csv"',
+    },
+  });
+});
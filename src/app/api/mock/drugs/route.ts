@@ -0,0 +1,6 @@
+import { SUPPORTED_DRUGS } from "@/lib/mock/fixtures";
+import { mockRoute } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+export const GET = mockRoute(() => Response.json({ drugs: SUPPORTED_DRUGS }));
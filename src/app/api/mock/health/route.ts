@@ -0,0 +1,5 @@
+import { mockRoute } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+export const GET = mockRoute(() => Response.json({ status: "ok", mock: true }));
@@ -0,0 +1,34 @@
+import type { AnalysisJob } from "@/lib/api";
+import { detail, jobStatus, mockError, mockRoute, mockState } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+const TICK_MS = 500;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Sends a `job` event with the job's status every tick until it completes or fails. */
+export const GET = mockRoute((req, { params }: { params: { id: string } }) => {
+  if (mockError(req, "no-jobs") || mockError(req, "no-job-events")) return detail("Not Found", 404);
+  const job = mockState().jobs.get(params.id);
+  if (!job) return detail("Job not found", 404);
+
+  const encoder = new TextEncoder();
+  const send = (status: AnalysisJob) => encoder.encode(`event: job\ndata: ${JSON.stringify(status)}\n\n`);
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      while (!cancelled) {
+        const status = jobStatus(job);
+        controller.enqueue(send(status));
+        if (status.status === "completed" || status.status === "failed") break;
+        await sleep(TICK_MS);
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" } });
+});
@@ -0,0 +1,10 @@
+import { detail, jobStatus, mockError, mockRoute, mockState } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+export const GET = mockRoute((req, { params }: { params: { id: string } }) => {
+  if (mockError(req, "no-jobs")) return detail("Not Found", 404);
+  const job = mockState().jobs.get(params.id);
+  if (!job) return detail("Job not found", 404);
+  return Response.json(jobStatus(job));
+});
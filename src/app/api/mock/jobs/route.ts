@@ -0,0 +1,12 @@
+import { createJob, detail, jobStatus, mockError, mockRoute, readUpload, vcfParseError } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+// Parse errors surface later as a failed job, the way a queued backend would report them
+export const POST = mockRoute(async (req) => {
+  if (mockError(req, "no-jobs")) return detail("Not Found", 404);
+  const upload = await readUpload(req);
+  if (upload instanceof Response) return upload;
+  const job = createJob(upload.vcf, upload.drugs, vcfParseError(req, upload.vcf) ?? undefined);
+  return Response.json(jobStatus(job), { status: 202 });
+});
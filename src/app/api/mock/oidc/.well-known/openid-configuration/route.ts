@@ -0,0 +1,5 @@
+import { discoveryDocument, oidcRoute } from "@/lib/mock/oidc";
+
+export const dynamic = "force-dynamic";
+
+export const GET = oidcRoute((req: Request) => Response.json(discoveryDocument(req)));
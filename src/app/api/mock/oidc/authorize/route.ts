@@ -0,0 +1,7 @@
+import { authorize, authorizePage, oidcRoute } from "@/lib/mock/oidc";
+
+export const dynamic = "force-dynamic";
+
+export const GET = oidcRoute((req: Request) => authorizePage(new URL(req.url).searchParams));
+
+export const POST = oidcRoute(async (req: Request) => authorize(await req.formData()));
@@ -0,0 +1,5 @@
+import { oidcRoute, token } from "@/lib/mock/oidc";
+
+export const dynamic = "force-dynamic";
+
+export const POST = oidcRoute(async (req: Request) => token(req, await req.formData()));
@@ -0,0 +1,5 @@
+import { oidcRoute, userinfo } from "@/lib/mock/oidc";
+
+export const dynamic = "force-dynamic";
+
+export const GET = oidcRoute((req: Request) => userinfo(req));
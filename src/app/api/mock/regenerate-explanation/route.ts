@@ -0,0 +1,61 @@
+import type { LLMExplanation } from "@/lib/api";
+import { isDrugResult } from "@/lib/api";
+import { regenerateExplanation } from "@/lib/mock/engine";
+import { detail, mockError, mockRoute, mockState, recordAudit } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Sends the explanation word by word as server-sent events; `fail` stops halfway with an error event. */
+function streamExplanation(explanation: LLMExplanation, fail: boolean): Response {
+  const delayMs = Number(process.env.MOCK_STREAM_DELAY_MS ?? 40);
+  const encoder = new TextEncoder();
+  const send = (event: string, data: unknown) => encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const fields = ["summary", "mechanism", "citation"] as const;
+      for (const field of fields) {
+        const words = explanation[field].split(/(?<=\s)/);
+        for (let i = 0; i < words.length; i++) {
+          if (fail && field === "mechanism" && i === Math.floor(words.length / 2)) {
+            controller.enqueue(send("error", { detail: "Explanation model stopped responding" }));
+            controller.close();
+            return;
+          }
+          controller.enqueue(send("delta", { field, text: words[i] }));
+          await sleep(delayMs);
+        }
+      }
+      controller.enqueue(send("done", { llm_explanation: explanation }));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" } });
+}
+
+export const POST = mockRoute(async (req) => {
+  const form = await req.formData();
+  const analysisId = String(form.get("analysis_id") ?? "");
+  const drug = String(form.get("drug") ?? "").toUpperCase();
+  const state = mockState();
+  const analysis = state.analyses.get(analysisId);
+  if (!analysis || mockError(req, "not-found")) return detail("Analysis not found", 404);
+
+  const result = analysis.results.find((r) => r.drug.toUpperCase() === drug);
+  if (!result || !isDrugResult(result)) return detail(`No explanation available for ${drug}`, 400);
+
+  const key = `${analysisId}:${drug}`;
+  const attempt = (state.regenerations.get(key) ?? 0) + 1;
+  state.regenerations.set(key, attempt);
+  const llm_explanation = regenerateExplanation(result, attempt);
+  const fail = mockError(req, "stream");
+  if (!fail) {
+    result.llm_explanation = llm_explanation;
+    recordAudit(analysis, "regenerate_explanation");
+  }
+  if (!req.headers.get("accept")?.includes("text/event-stream")) {
+    return fail ? detail("Explanation model stopped responding", 502) : Response.json({ llm_explanation });
+  }
+  return streamExplanation(llm_explanation, fail);
+});
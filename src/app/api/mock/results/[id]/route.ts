@@ -0,0 +1,10 @@
+import { detail, mockError, mockRoute, mockState, recordAudit } from "@/lib/mock/server";
+
+export const dynamic = "force-dynamic";
+
+export const GET = mockRoute((req, { params }: { params: { id: string } }) => {
+  const analysis = mockState().analyses.get(params.id);
+  if (!analysis || mockError(req, "not-found")) return detail("Analysis not found", 404);
+  recordAudit(analysis, "view");
+  return Response.json(analysis);
+});
@@ -0,0 +1,331 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Download,
+  FileText,
+  RefreshCw,
+  ScrollText,
+  X,
+} from "lucide-react";
+import DeidentifiedWatermark from "@/components/DeidentifiedWatermark";
+import DeidentifyToggle from "@/components/DeidentifyToggle";
+import { analyzeErrorMessage } from "@/lib/api";
+import type { AuditFilters, AuditRecord, AuditSortKey } from "@/lib/audit";
+import { auditCsv, filterAudit, getAuditLog, sortAudit } from "@/lib/audit";
+import { deidentifyRecord } from "@/lib/deidentify";
+import { useDeidentify } from "@/lib/deidentify/react";
+import { downloadBlob } from "@/lib/download";
+import { listHistory } from "@/lib/history";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/react";
+
+const PAGE_SIZE = 25;
+
+const COLUMNS: { key: AuditSortKey | "drugs"; label: MessageKey }[] = [
+  { key: "timestamp", label: "audit.column.timestamp" },
+  { key: "action", label: "audit.column.action" },
+  { key: "patient_id", label: "audit.column.patient_id" },
+  { key: "analysis_id", label: "audit.column.analysis_id" },
+  { key: "drugs", label: "audit.column.drugs" },
+  { key: "audit_id", label: "audit.column.audit_id" },
+];
+
+export default function AuditPage({
+  searchParams,
+}: {
+  searchParams: { audit_id?: string; analysis_id?: string; patient?: string };
+}) {
+  const router = useRouter();
+  const { t, formatDate, formatNumber } = useI18n();
+  const { enabled: deidentified } = useDeidentify();
+  const [records, setRecords] = useState<AuditRecord[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Analyses that can still be opened; the backend has no side-effect-free existence check,
+  // so this is what is kept in local history
+  const [known, setKnown] = useState<Set<string>>(new Set());
+  // Links carry the IDs as displayed where they were followed, i.e. pseudonyms while de-identified
+  const [filters, setFilters] = useState<AuditFilters>({
+    auditId: searchParams.audit_id,
+    analysisId: searchParams.analysis_id,
+    patient: searchParams.patient,
+  });
+  const [sortKey, setSortKey] = useState<AuditSortKey>("timestamp");
+  const [descending, setDescending] = useState(true);
+  const [page, setPage] = useState(0);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      setRecords(await getAuditLog());
+    } catch (err) {
+      setLoadError(analyzeErrorMessage(err, t));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+    listHistory()
+      .then((entries) => setKnown(new Set(entries.map((e) => e.analysis.analysis_id))))
+      .catch(() => {});
+  }, [load]);
+
+  const alias = useCallback((r: AuditRecord) => (deidentified ? deidentifyRecord(r) : r), [deidentified]);
+
+  const allDrugs = useMemo(() => Array.from(new Set((records ?? []).flatMap((r) => r.drugs))).sort(), [records]);
+  const allActions = useMemo(() => Array.from(new Set((records ?? []).map((r) => r.action))).sort(), [records]);
+
+  const filtered = useMemo(
+    () => sortAudit(filterAudit(records ?? [], filters, alias), sortKey, descending, alias),
+    [records, filters, alias, sortKey, descending]
+  );
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const setFilter = (patch: Partial<AuditFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const toggleSort = (key: AuditSortKey) => {
+    if (key === sortKey) setDescending((d) => !d);
+    else {
+      setSortKey(key);
+      setDescending(key === "timestamp");
+    }
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([auditCsv(filtered.map(alias))], { type: "text/csv" });
+    const suffix = deidentified ? "-deidentified" : "";
+    downloadBlob(blob, `PharmaGuard-Audit-${new Date().toISOString().slice(0, 10)}${suffix}.csv`);
+  };
+
+  const selectClass = "px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700";
+  const inputClass = "px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 outline-none";
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {deidentified && <DeidentifiedWatermark />}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-sky-600 flex items-center justify-center">
+            <ScrollText className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">{t("audit.title")}</h1>
+            <p className="text-sm text-slate-500">{t("audit.subtitle")}</p>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <DeidentifyToggle className="mr-2 text-slate-600" />
+            <button
+              onClick={load}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+              {t("audit.refresh")}
+            </button>
+            <button
+              onClick={exportCsv}
+              disabled={filtered.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {t("audit.exportCsv")}
+            </button>
+            <button
+              onClick={() => router.push("/")}
+              className="flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
+            >
+              <FileText className="w-4 h-4" />
+              {t("common.newAnalysis")}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-8 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-slate-500">
+            {t("audit.from")}
+            <input
+              type="date"
+              value={filters.from ?? ""}
+              max={filters.to}
+              onChange={(e) => setFilter({ from: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-500">
+            {t("audit.to")}
+            <input
+              type="date"
+              value={filters.to ?? ""}
+              min={filters.from}
+              onChange={(e) => setFilter({ to: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </label>
+          <input
+            value={filters.patient ?? ""}
+            onChange={(e) => setFilter({ patient: e.target.value || undefined })}
+            placeholder={t("audit.patientId")}
+            className={`${inputClass} w-36`}
+          />
+          <input
+            value={filters.analysisId ?? ""}
+            onChange={(e) => setFilter({ analysisId: e.target.value || undefined })}
+            placeholder={t("audit.analysisId")}
+            className={`${inputClass} w-44`}
+          />
+          <select
+            value={filters.drug ?? ""}
+            onChange={(e) => setFilter({ drug: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">{t("audit.anyDrug")}</option>
+            {allDrugs.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+          <select
+            value={filters.action ?? ""}
+            onChange={(e) => setFilter({ action: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">{t("audit.anyAction")}</option>
+            {allActions.map((a) => (
+              <option key={a} value={a}>{a}</option>
+            ))}
+          </select>
+          {filters.auditId && (
+            <span className="flex items-center gap-1 px-3 py-1 bg-sky-50 border border-sky-200 rounded-full text-sm text-sky-800">
+              {t("audit.auditId", { id: filters.auditId })}
+              <button onClick={() => setFilter({ auditId: undefined })} title={t("audit.showAllAuditIds")} className="hover:text-sky-950">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          )}
+        </div>
+
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+        {records === null && !loadError ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-sky-600 border-t-transparent" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="py-12 text-center text-slate-500">
+            {records?.length ? t("audit.noMatches") : t("audit.empty")}
+          </p>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-slate-500">
+                  <tr>
+                    {COLUMNS.map(({ key, label }) => (
+                      <th key={key} className="px-4 py-3 font-medium whitespace-nowrap">
+                        {key === "drugs" ? (
+                          t(label)
+                        ) : (
+                          <button onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-slate-700">
+                            {t(label)}
+                            {sortKey === key &&
+                              (descending ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />)}
+                          </button>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((record, i) => {
+                    const shown = alias(record);
+                    return (
+                      <tr
+                        key={`${record.audit_id}-${record.timestamp}-${i}`}
+                        className="border-t border-slate-100 hover:bg-slate-50"
+                      >
+                        <td className="px-4 py-3 text-slate-600 whitespace-nowrap">
+                          {formatDate(record.timestamp)}
+                        </td>
+                        <td className="px-4 py-3 text-slate-600">{record.action}</td>
+                        <td className="px-4 py-3">
+                          <button
+                            onClick={() => setFilter({ patient: shown.patient_id })}
+                            title={t("audit.showPatient")}
+                            className="text-slate-900 hover:underline"
+                          >
+                            {shown.patient_id}
+                          </button>
+                        </td>
+                        <td className="px-4 py-3 font-mono text-xs">
+                          {known.has(record.analysis_id) ? (
+                            <Link href={`/results/${record.analysis_id}`} className="text-sky-700 hover:underline">
+                              {shown.analysis_id}
+                            </Link>
+                          ) : (
+                            <span className="text-slate-500" title={t("audit.notInHistory")}>
+                              {shown.analysis_id}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-slate-600">{record.drugs.join(", ")}</td>
+                        <td className="px-4 py-3 font-mono text-xs text-slate-500">{shown.audit_id}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-slate-500">
+              <span>
+                {t("audit.range", {
+                  from: formatNumber(currentPage * PAGE_SIZE + 1),
+                  to: formatNumber(Math.min((currentPage + 1) * PAGE_SIZE, filtered.length)),
+                  total: formatNumber(filtered.length),
+                })}
+                {records &&
+                  filtered.length !== records.length &&
+                  ` ${t("audit.filteredFrom", { total: formatNumber(records.length) })}`}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                  className="p-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                  title={t("audit.previousPage")}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span>{t("audit.page", { page: formatNumber(currentPage + 1), count: formatNumber(pageCount) })}</span>
+                <button
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= pageCount - 1}
+                  className="p-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                  title={t("audit.nextPage")}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Download, FileText, FolderOpen, Layers, RotateCcw, Search, Trash2, Upload, X } from "lucide-react";
+import DeidentifiedWatermark from "@/components/DeidentifiedWatermark";
+import DeidentifyToggle from "@/components/DeidentifyToggle";
+import DrugPicker from "@/components/DrugPicker";
+import type { BackendStatus } from "@/lib/api";
+import { MAX_UPLOAD_SIZE, analyzeErrorMessage, analyzeVcf, isAbortError, warmUpBackend } from "@/lib/api";
+import type { BatchJob, JobStatus } from "@/lib/batch";
+import {
+  BATCH_CONCURRENCY,
+  TaskQueue,
+  cohortCsv,
+  cohortDrugs,
+  cohortRows,
+  filesFromDataTransfer,
+  isVcfFile,
+} from "@/lib/batch";
+import { useDeidentify } from "@/lib/deidentify/react";
+import { downloadBlob } from "@/lib/download";
+import { useDrugCatalog } from "@/lib/drugs";
+import { formatSize } from "@/lib/format";
+import { saveAnalysis } from "@/lib/history";
+import { useI18n } from "@/lib/i18n/react";
+import { RISK_COLORS, RISK_LABELS } from "@/lib/risk";
+import { filterVcf } from "@/lib/vcf";
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "text-slate-500",
+  preparing: "text-sky-700",
+  analyzing: "text-sky-700",
+  done: "text-emerald-700",
+  failed: "text-red-600",
+  cancelled: "text-slate-400",
+};
+
+const isRunning = (status: JobStatus) => status === "queued" || status === "preparing" || status === "analyzing";
+
+export default function BatchPage() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const catalog = useDrugCatalog();
+  const [drugs, setDrugs] = useState<string[]>(["Codeine"]);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+  const [backendStatus, setBackendStatus] = useState<BackendStatus | null>(null);
+  const [query, setQuery] = useState("");
+  const [risk, setRisk] = useState("");
+  const [drug, setDrug] = useState("");
+  const queueRef = useRef(new TaskQueue(BATCH_CONCURRENCY));
+  const controllers = useRef(new Map<string, AbortController>());
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const queue = queueRef.current;
+    const running = controllers.current;
+    warmUpBackend({ signal: controller.signal }).catch(() => {});
+    folderRef.current?.setAttribute("webkitdirectory", "");
+    return () => {
+      controller.abort();
+      queue.clear();
+      running.forEach((c) => c.abort());
+    };
+  }, []);
+
+  const update = (id: string, patch: Partial<BatchJob>) =>
+    setJobs((prev) => prev.map((j) => (j.id === id ? { ...j, ...patch } : j)));
+
+  const addFiles = (files: File[]) => {
+    const vcfs = files.filter(isVcfFile);
+    setJobs((prev) => [
+      ...prev,
+      ...vcfs.map((file) => ({ id: crypto.randomUUID(), file, status: "queued" as const, progress: 0 })),
+    ]);
+  };
+
+  const runJob = async (job: BatchJob, drugList: string, signal: AbortSignal) => {
+    update(job.id, { status: "preparing", progress: 0, error: undefined });
+    let finished: Partial<BatchJob>;
+    try {
+      let lastPercent = 0;
+      const prepared = await filterVcf(job.file, {
+        signal,
+        onProgress: (bytes) => {
+          const percent = Math.floor((bytes / (job.file.size || 1)) * 50);
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            update(job.id, { progress: percent / 100 });
+          }
+        },
+      });
+      if (prepared.report.errors.length > 0) throw new Error(prepared.report.errors[0]);
+      if (prepared.file.size > MAX_UPLOAD_SIZE) {
+        throw new Error(t("upload.tooLarge", { size: formatSize(prepared.file.size) }));
+      }
+      update(job.id, { status: "analyzing", progress: 0.5 });
+      const parsed = await analyzeVcf(prepared.file, drugList, { signal });
+      await saveAnalysis(parsed, "analyzed").catch(() => {});
+      finished = { status: "done", progress: 1, analysis: parsed.analysis };
+    } catch (err) {
+      finished = isAbortError(err) ? { status: "cancelled" } : { status: "failed", error: analyzeErrorMessage(err, t) };
+    }
+    // Release the controller first so the final render no longer counts the job as running
+    controllers.current.delete(job.id);
+    update(job.id, finished);
+  };
+
+  const enqueue = (targets: BatchJob[]) => {
+    const drugList = drugs.map((d) => d.toUpperCase()).join(",");
+    for (const job of targets) {
+      const controller = new AbortController();
+      controllers.current.set(job.id, controller);
+      update(job.id, { status: "queued", progress: 0, error: undefined });
+      queueRef.current.add(async () => {
+        if (!controller.signal.aborted) await runJob(job, drugList, controller.signal);
+      });
+    }
+  };
+
+  const start = async () => {
+    const pending = jobs.filter((j) => j.status === "queued" && !controllers.current.has(j.id));
+    if (pending.length === 0 || drugs.length === 0) return;
+    await warmUpBackend({ onStatus: setBackendStatus }).catch(() => {});
+    setBackendStatus(null);
+    enqueue(pending);
+  };
+
+  const cancelJob = (job: BatchJob) => {
+    controllers.current.get(job.id)?.abort();
+    controllers.current.delete(job.id);
+    if (job.status === "queued") update(job.id, { status: "cancelled" });
+  };
+
+  const cancelAll = () => {
+    queueRef.current.clear();
+    controllers.current.forEach((c) => c.abort());
+    controllers.current.clear();
+    setJobs((prev) => prev.map((j) => (isRunning(j.status) ? { ...j, status: "cancelled" } : j)));
+  };
+
+  const retryFailed = () => enqueue(jobs.filter((j) => j.status === "failed" || j.status === "cancelled"));
+
+  const removeJob = (id: string) => setJobs((prev) => prev.filter((j) => j.id !== id));
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    addFiles(await filesFromDataTransfer(e.dataTransfer));
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(e.type === "dragenter" || e.type === "dragover");
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = "";
+  };
+
+  const { enabled: deidentified } = useDeidentify();
+  const rows = useMemo(() => cohortRows(jobs, deidentified), [jobs, deidentified]);
+  const drugColumns = useMemo(() => cohortDrugs(rows), [rows]);
+  const filteredRows = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return rows.filter((r) => {
+      const file = deidentified ? "" : r.job.file.name.toLowerCase();
+      if (q && !r.analysis.patient_id.toLowerCase().includes(q) && !file.includes(q)) {
+        return false;
+      }
+      if (drug && !(drug in r.risks)) return false;
+      if (risk) {
+        const labels = drug ? [r.risks[drug]] : Object.values(r.risks);
+        if (!labels.some((l) => l === risk)) return false;
+      }
+      return true;
+    });
+  }, [rows, deidentified, query, risk, drug]);
+
+  const exportCsv = () => {
+    const blob = new Blob([cohortCsv(filteredRows, drugColumns, deidentified)], { type: "text/csv" });
+    const suffix = deidentified ? "-deidentified" : "";
+    downloadBlob(blob, `PharmaGuard-Cohort-${new Date().toISOString().slice(0, 10)}${suffix}.csv`);
+  };
+
+  const running = jobs.some((j) => isRunning(j.status) && controllers.current.has(j.id));
+  const counts = jobs.reduce<Partial<Record<JobStatus, number>>>(
+    (acc, j) => ({ ...acc, [j.status]: (acc[j.status] ?? 0) + 1 }),
+    {}
+  );
+  const selectClass = "px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700";
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {deidentified && <DeidentifiedWatermark />}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="max-w-5xl mx-auto flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-sky-600 flex items-center justify-center">
+            <Layers className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">{t("batch.title")}</h1>
+            <p className="text-sm text-slate-500">{t("batch.subtitle", { count: BATCH_CONCURRENCY })}</p>
+          </div>
+          <DeidentifyToggle className="ml-auto mr-2 text-slate-600" />
+          <button
+            onClick={() => router.push("/")}
+            className="flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
+          >
+            <FileText className="w-4 h-4" />
+            {t("batch.single")}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-8">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-xl p-8 text-center transition-colors ${
+              dragActive ? "border-sky-500 bg-sky-50" : "border-slate-300 bg-white"
+            }`}
+          >
+            <Upload className="w-10 h-10 text-slate-400 mx-auto mb-3" />
+            <p className="text-slate-600 font-medium">{t("batch.drop")}</p>
+            <div className="mt-4 flex justify-center gap-2">
+              <label className="cursor-pointer flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 text-sm">
+                <FileText className="w-4 h-4" />
+                {t("batch.files")}
+                <input type="file" multiple accept=".vcf,.vcf.gz,.vcf.bgz" onChange={handleFileChange} className="hidden" />
+              </label>
+              <label className="cursor-pointer flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 text-sm">
+                <FolderOpen className="w-4 h-4" />
+                {t("batch.folder")}
+                <input ref={folderRef} type="file" multiple onChange={handleFileChange} className="hidden" />
+              </label>
+            </div>
+          </div>
+          <div>
+            <h2 className="text-lg font-medium text-slate-900 mb-3">{t("batch.drugs")}</h2>
+            <DrugPicker drugs={catalog.drugs} status={catalog.status} selected={drugs} onChange={setDrugs} />
+          </div>
+        </div>
+
+        {jobs.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-lg font-medium text-slate-900">{t("batch.queue")}</h2>
+              <span className="text-sm text-slate-500">
+                {(["done", "failed", "cancelled"] as const)
+                  .filter((s) => counts[s])
+                  .map((s) => t(`batch.count.${s}`, { count: counts[s]! }))
+                  .concat(t("batch.total", { count: jobs.length }))
+                  .join(" • ")}
+              </span>
+              <div className="ml-auto flex gap-2">
+                {(counts.failed || counts.cancelled) && !running ? (
+                  <button
+                    onClick={retryFailed}
+                    className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    {t("batch.retryFailed")}
+                  </button>
+                ) : null}
+                {running ? (
+                  <button
+                    onClick={cancelAll}
+                    className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+                  >
+                    <X className="w-4 h-4" />
+                    {t("batch.cancelAll")}
+                  </button>
+                ) : (
+                  <button
+                    onClick={start}
+                    disabled={drugs.length === 0 || !jobs.some((j) => j.status === "queued")}
+                    className="flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:opacity-50"
+                  >
+                    <Layers className="w-4 h-4" />
+                    {backendStatus === "waking" ? t("upload.wakingButton") : t("batch.analyzeAll")}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl border border-slate-200 divide-y divide-slate-100">
+              {jobs.map((job) => (
+                <div key={job.id} className="px-4 py-3 flex items-center gap-4 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-800 truncate">{job.file.name}</p>
+                    <div className="mt-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full transition-all ${job.status === "failed" ? "bg-red-400" : "bg-sky-500"}`}
+                        style={{ width: `${job.progress * 100}%` }}
+                      />
+                    </div>
+                    {job.error && <p className="mt-1 text-xs text-red-600">{job.error}</p>}
+                  </div>
+                  <span className={`w-20 ${STATUS_STYLES[job.status]}`}>{t(`batch.status.${job.status}`)}</span>
+                  {job.analysis ? (
+                    <Link href={`/results/${job.analysis.analysis_id}`} className="w-16 text-sky-700 hover:underline">
+                      {t("batch.results")}
+                    </Link>
+                  ) : (
+                    <span className="w-16" />
+                  )}
+                  {isRunning(job.status) && controllers.current.has(job.id) ? (
+                    <button onClick={() => cancelJob(job)} title={t("common.cancel")} className="p-1 text-slate-400 hover:text-slate-700">
+                      <X className="w-4 h-4" />
+                    </button>
+                  ) : job.status === "failed" || job.status === "cancelled" ? (
+                    <button onClick={() => enqueue([job])} title={t("jobs.retry")} className="p-1 text-slate-400 hover:text-sky-700">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => removeJob(job.id)} title={t("batch.remove")} className="p-1 text-slate-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-lg font-medium text-slate-900 mr-2">{t("batch.cohort")}</h2>
+              <div className="flex-1 min-w-[200px] flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 rounded-lg">
+                <Search className="w-4 h-4 text-slate-400" />
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={deidentified ? t("batch.searchPatient") : t("batch.searchPatientOrFile")}
+                  className="flex-1 text-sm outline-none"
+                />
+              </div>
+              <select value={drug} onChange={(e) => setDrug(e.target.value)} className={selectClass}>
+                <option value="">{t("batch.anyDrug")}</option>
+                {drugColumns.map((d) => (
+                  <option key={d} value={d}>{d}</option>
+                ))}
+              </select>
+              <select value={risk} onChange={(e) => setRisk(e.target.value)} className={selectClass}>
+                <option value="">{t("batch.anyRisk")}</option>
+                {RISK_LABELS.map((r) => (
+                  <option key={r} value={r}>{t(`risk.${r}`)}</option>
+                ))}
+              </select>
+              <button
+                onClick={exportCsv}
+                disabled={filteredRows.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                {t("batch.exportCsv")}
+              </button>
+            </div>
+
+            {filteredRows.length === 0 ? (
+              <p className="py-8 text-center text-slate-500">{t("batch.noMatches")}</p>
+            ) : (
+              <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-left text-slate-500">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">{t("batch.patient")}</th>
+                      {drugColumns.map((d) => (
+                        <th key={d} className="px-4 py-3 font-medium">{d}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredRows.map((r) => (
+                      <tr key={r.job.id} className="border-t border-slate-100 hover:bg-slate-50">
+                        <td className="px-4 py-3">
+                          <Link href={`/results/${r.analysisId}`} className="font-medium text-sky-700 hover:underline">
+                            {r.analysis.patient_id}
+                          </Link>
+                          {!deidentified && <p className="text-xs text-slate-400">{r.job.file.name}</p>}
+                        </td>
+                        {drugColumns.map((d) => (
+                          <td key={d} className="px-4 py-3">
+                            {r.risks[d] ? (
+                              <span
+                                className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                                style={{ backgroundColor: RISK_COLORS[r.risks[d]] ?? RISK_COLORS.Unknown }}
+                              >
+                                {t(`risk.${r.risks[d]}`)}
+                              </span>
+                            ) : (
+                              <span className="text-slate-300">—</span>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ArrowLeftRight, Download, FileText } from "lucide-react";
+import DeidentifiedWatermark from "@/components/DeidentifiedWatermark";
+import DeidentifyToggle from "@/components/DeidentifyToggle";
+import type { AnalysisResponse } from "@/lib/api";
+import type { ChangeKind, FieldDiff } from "@/lib/compare";
+import { diffAnalyses } from "@/lib/compare";
+import { deidentifyAnalysis } from "@/lib/deidentify";
+import { useDeidentify } from "@/lib/deidentify/react";
+import { downloadBlob } from "@/lib/download";
+import { loadAnalysis } from "@/lib/history";
+import { useI18n } from "@/lib/i18n/react";
+import type { ParsedAnalysis } from "@/lib/schema";
+
+const KINDS: ChangeKind[] = ["changed", "added", "removed", "unchanged"];
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  changed: "bg-amber-100 text-amber-800",
+  added: "bg-emerald-100 text-emerald-800",
+  removed: "bg-red-100 text-red-800",
+  unchanged: "bg-slate-100 text-slate-600",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function FieldRow({ field }: { field: FieldDiff }) {
+  const cell = field.changed ? "bg-amber-50" : "";
+  return (
+    <tr className="border-t border-slate-100 align-top">
+      <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{field.path.replace(/_/g, " ")}</td>
+      <td className={`px-4 py-2 ${cell}`}>
+        {field.removed?.length ? (
+          <span>
+            {((field.before as unknown[]) ?? []).map(String).map((v) => (
+              <span key={v} className={`mr-1 ${field.removed!.includes(v) ? "text-red-700 line-through" : ""}`}>
+                {v}
+              </span>
+            ))}
+          </span>
+        ) : (
+          formatValue(field.before)
+        )}
+      </td>
+      <td className={`px-4 py-2 ${cell}`}>
+        {field.added?.length ? (
+          <span>
+            {((field.after as unknown[]) ?? []).map(String).map((v) => (
+              <span key={v} className={`mr-1 ${field.added!.includes(v) ? "text-emerald-700 font-medium" : ""}`}>
+                {v}
+              </span>
+            ))}
+          </span>
+        ) : (
+          formatValue(field.after)
+        )}
+      </td>
+    </tr>
+  );
+}
+
+function CompareView() {
+  const router = useRouter();
+  const { t, formatDate } = useI18n();
+  const params = useSearchParams();
+  const [idA, setIdA] = useState(params.get("a") ?? "");
+  const [idB, setIdB] = useState(params.get("b") ?? "");
+  const [loaded, setLoaded] = useState<[ParsedAnalysis, ParsedAnalysis] | null>(null);
+  // ID of the analysis that could not be loaded
+  const [missing, setMissing] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { enabled: deidentified } = useDeidentify();
+
+  const a = params.get("a");
+  const b = params.get("b");
+
+  useEffect(() => {
+    if (!a || !b) return;
+    setLoading(true);
+    setMissing(null);
+    Promise.all([loadAnalysis(a).catch(() => null), loadAnalysis(b).catch(() => null)])
+      .then(([before, after]) => {
+        setLoaded(before && after ? [before, after] : null);
+        if (!before || !after) setMissing(before ? b : a);
+      })
+      .finally(() => setLoading(false));
+  }, [a, b]);
+
+  const pair = useMemo(
+    () =>
+      loaded &&
+      (loaded.map(({ analysis, sample }) => (deidentified ? deidentifyAnalysis(analysis, sample) : analysis)) as [
+        AnalysisResponse,
+        AnalysisResponse,
+      ]),
+    [loaded, deidentified]
+  );
+  const diff = useMemo(() => pair && diffAnalyses(pair[0], pair[1]), [pair]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (idA.trim() && idB.trim()) {
+      router.push(`/compare?a=${encodeURIComponent(idA.trim())}&b=${encodeURIComponent(idB.trim())}`);
+    }
+  };
+
+  const exportDiff = () => {
+    if (!diff) return;
+    const json = { ...diff, ...(deidentified && { deidentified: true }) };
+    const blob = new Blob([JSON.stringify(json, null, 2)], { type: "application/json" });
+    const suffix = deidentified ? "-deidentified" : "";
+    downloadBlob(blob, `PharmaGuard-Diff-${diff.before.analysis_id}-${diff.after.analysis_id}${suffix}.json`);
+  };
+
+  const inputClass = "flex-1 min-w-[180px] px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm";
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {deidentified && <DeidentifiedWatermark />}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="max-w-5xl mx-auto flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-sky-600 flex items-center justify-center">
+            <ArrowLeftRight className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">{t("compare.title")}</h1>
+            <p className="text-sm text-slate-500">{t("compare.subtitle")}</p>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <DeidentifyToggle className="mr-2 text-slate-600" />
+            <button
+              onClick={exportDiff}
+              disabled={!diff}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {t("compare.export")}
+            </button>
+            <button
+              onClick={() => router.push("/")}
+              className="flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
+            >
+              <FileText className="w-4 h-4" />
+              {t("common.newAnalysis")}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        <form onSubmit={submit} className="flex flex-wrap gap-2">
+          <input value={idA} onChange={(e) => setIdA(e.target.value)} placeholder={t("compare.first")} className={inputClass} />
+          <input value={idB} onChange={(e) => setIdB(e.target.value)} placeholder={t("compare.second")} className={inputClass} />
+          <button type="submit" className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 text-sm">
+            {t("compare.submit")}
+          </button>
+        </form>
+
+        {missing && <p className="text-sm text-red-600">{t("compare.notFound", { id: missing })}</p>}
+        {loading && (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-sky-600 border-t-transparent" />
+          </div>
+        )}
+
+        {diff && pair && !loading && (
+          <>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              {pair.map((x, i) => (
+                <div key={i} className="p-4 bg-white border border-slate-200 rounded-xl">
+                  <p className="text-slate-500">{i === 0 ? t("compare.before") : t("compare.after")}</p>
+                  <Link href={`/results/${loaded![i].analysis.analysis_id}`} className="font-medium text-sky-700 hover:underline">
+                    {x.analysis_id}
+                  </Link>
+                  <p className="text-slate-600">
+                    {x.patient_id} • {formatDate(x.timestamp)}
+                  </p>
+                </div>
+              ))}
+            </div>
+            {pair[0].patient_id !== pair[1].patient_id && (
+              <p className="text-sm text-amber-700">{t("compare.differentPatients")}</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {KINDS.map((k) => (
+                <span key={k} className={`px-3 py-1 rounded-full ${KIND_STYLES[k]}`}>
+                  {t(`compare.summary.${k}`, { count: diff.summary[k].length })}
+                  {diff.summary[k].length > 0 && k !== "unchanged" && `: ${diff.summary[k].join(", ")}`}
+                </span>
+              ))}
+              <label className="ml-auto flex items-center gap-2 text-slate-600">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                {t("compare.showUnchanged")}
+              </label>
+            </div>
+
+            <div className="space-y-4">
+              {diff.drugs.map((d) => {
+                const fields = showUnchanged ? d.fields : d.fields.filter((f) => f.changed);
+                return (
+                  <div key={d.drug} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                    <div className="px-4 py-3 flex items-center gap-2 border-b border-slate-100">
+                      <h2 className="font-semibold text-slate-900">{d.drug}</h2>
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${KIND_STYLES[d.kind]}`}>{t(`compare.kind.${d.kind}`)}</span>
+                    </div>
+                    {fields.length === 0 ? (
+                      <p className="px-4 py-3 text-sm text-slate-500">{t("compare.noDifferences")}</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead className="text-left text-slate-500 bg-slate-50">
+                          <tr>
+                            <th className="px-4 py-2 font-medium w-1/4">{t("compare.field")}</th>
+                            <th className="px-4 py-2 font-medium">{t("compare.before")}</th>
+                            <th className="px-4 py-2 font-medium">{t("compare.after")}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {fields.map((f) => (
+                            <FieldRow key={f.path} field={f} />
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <CompareView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,320 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeftRight, Download, FileText, History, Search, Trash2, Upload } from "lucide-react";
+import DeidentifiedWatermark from "@/components/DeidentifiedWatermark";
+import DeidentifyToggle from "@/components/DeidentifyToggle";
+import type { AnalysisResponse } from "@/lib/api";
+import { deidentifyAnalysis, deidentifySample } from "@/lib/deidentify";
+import { useDeidentify } from "@/lib/deidentify/react";
+import type { HistoryEntry } from "@/lib/history";
+import {
+  deleteHistoryEntry,
+  exportHistory,
+  importHistory,
+  listHistory,
+} from "@/lib/history";
+import { downloadBlob } from "@/lib/download";
+import { useI18n } from "@/lib/i18n/react";
+import { RISK_COLORS, RISK_LABELS, SEVERITIES, riskRank, severityRank, worstResult } from "@/lib/risk";
+
+const SORT_KEYS = ["newest", "oldest", "patient", "risk"] as const;
+type SortKey = (typeof SORT_KEYS)[number];
+
+interface Row {
+  /** Real analysis ID, for links and actions */
+  id: string;
+  /** The analysis as displayed, pseudonymized when de-identification is on */
+  analysis: AnalysisResponse;
+  sample?: string;
+  savedAt: number;
+}
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const { t, formatDate, formatNumber } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [risk, setRisk] = useState("");
+  const [severity, setSeverity] = useState("");
+  const [drug, setDrug] = useState("");
+  const [sort, setSort] = useState<SortKey>("newest");
+  const [compare, setCompare] = useState<string[]>([]);
+  const importRef = useRef<HTMLInputElement>(null);
+  const { enabled: deidentified } = useDeidentify();
+
+  const refresh = useCallback(
+    () =>
+      listHistory()
+        .then(setEntries)
+        .catch(() => setLoadError(t("history.unavailable"))),
+    [t]
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const allDrugs = useMemo(
+    () =>
+      Array.from(new Set((entries ?? []).flatMap((e) => e.analysis.results.map((r) => r.drug)))).sort(),
+    [entries]
+  );
+
+  const rows = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    // Search and sort run on what is shown, so pseudonymized rows cannot be found by their real IDs
+    const shown: Row[] = (entries ?? []).map((e) => ({
+      id: e.analysis.analysis_id,
+      analysis: deidentified ? deidentifyAnalysis(e.analysis, e.sample) : e.analysis,
+      sample: e.sample && deidentified ? deidentifySample(e.sample) : e.sample,
+      savedAt: e.savedAt,
+    }));
+    const filtered = shown.filter(({ analysis, sample }) => {
+      const results = analysis.results;
+      if (
+        q &&
+        !analysis.patient_id.toLowerCase().includes(q) &&
+        !analysis.analysis_id.toLowerCase().includes(q) &&
+        !sample?.toLowerCase().includes(q) &&
+        !results.some((r) => r.drug.toLowerCase().includes(q))
+      ) {
+        return false;
+      }
+      if (risk && !results.some((r) => r.risk_assessment.risk_label === risk)) return false;
+      if (severity && !results.some((r) => r.risk_assessment.severity === severity)) return false;
+      if (drug && !results.some((r) => r.drug === drug)) return false;
+      return true;
+    });
+    const time = (e: Row) => new Date(e.analysis.timestamp).getTime() || e.savedAt;
+    const worstScore = (e: Row) => {
+      const w = worstResult(e.analysis.results)?.risk_assessment;
+      return w ? severityRank(w.severity) * 10 + riskRank(w.risk_label) : -1;
+    };
+    return filtered.sort((a, b) => {
+      switch (sort) {
+        case "oldest":
+          return time(a) - time(b);
+        case "patient":
+          return a.analysis.patient_id.localeCompare(b.analysis.patient_id);
+        case "risk":
+          return worstScore(b) - worstScore(a) || time(b) - time(a);
+        default:
+          return time(b) - time(a);
+      }
+    });
+  }, [entries, deidentified, query, risk, severity, drug, sort]);
+
+  // Keeps the two most recently ticked analyses
+  const toggleCompare = (analysisId: string) => {
+    setCompare((prev) =>
+      prev.includes(analysisId) ? prev.filter((x) => x !== analysisId) : [...prev, analysisId].slice(-2)
+    );
+  };
+
+  const handleDelete = async (analysisId: string, label: string) => {
+    if (!confirm(t("history.confirmDelete", { id: label }))) return;
+    try {
+      await deleteHistoryEntry(analysisId);
+    } catch (err) {
+      setNotice(t("history.deleteFailed", { detail: errorDetail(err) }));
+      return;
+    }
+    setCompare((prev) => prev.filter((x) => x !== analysisId));
+    sessionStorage.removeItem(`pharmaguard-${analysisId}`);
+    refresh();
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = await exportHistory();
+      downloadBlob(blob, `PharmaGuard-History-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (err) {
+      setNotice(t("history.exportFailed", { detail: errorDetail(err) }));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    try {
+      const count = await importHistory(f);
+      setNotice(t("history.imported", { count: formatNumber(count) }));
+      refresh();
+    } catch (err) {
+      setNotice(t("history.importFailed", { detail: errorDetail(err) }));
+    }
+  };
+
+  const errorDetail = (err: unknown) => (err instanceof Error ? err.message : t("common.unknown"));
+
+  const selectClass = "px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700";
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {deidentified && <DeidentifiedWatermark />}
+      <header className="bg-white border-b border-slate-200 px-6 py-4">
+        <div className="max-w-5xl mx-auto flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-sky-600 flex items-center justify-center">
+            <History className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">{t("history.title")}</h1>
+            <p className="text-sm text-slate-500">{t("history.subtitle")}</p>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <DeidentifyToggle className="mr-2 text-slate-600" />
+            <button
+              onClick={() => router.push(`/compare?a=${encodeURIComponent(compare[0])}&b=${encodeURIComponent(compare[1])}`)}
+              disabled={compare.length !== 2}
+              title={t("history.compareHint")}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              {t("history.compare", { count: compare.length })}
+            </button>
+            <button
+              onClick={() => importRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              <Upload className="w-4 h-4" />
+              {t("history.import")}
+            </button>
+            <input ref={importRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <button
+              onClick={handleExport}
+              disabled={!entries?.length || deidentified}
+              title={deidentified ? t("history.exportDeidentified") : undefined}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {t("history.export")}
+            </button>
+            <button
+              onClick={() => router.push("/")}
+              className="flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
+            >
+              <FileText className="w-4 h-4" />
+              {t("common.newAnalysis")}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <div className="flex-1 min-w-[200px] flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 rounded-lg">
+            <Search className="w-4 h-4 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t("history.search")}
+              className="flex-1 text-sm outline-none"
+            />
+          </div>
+          <select value={risk} onChange={(e) => setRisk(e.target.value)} className={selectClass}>
+            <option value="">{t("history.anyRisk")}</option>
+            {RISK_LABELS.map((r) => (
+              <option key={r} value={r}>{t(`risk.${r}`)}</option>
+            ))}
+          </select>
+          <select value={severity} onChange={(e) => setSeverity(e.target.value)} className={selectClass}>
+            <option value="">{t("history.anySeverity")}</option>
+            {SEVERITIES.map((s) => (
+              <option key={s} value={s}>{t(`severity.${s}`)}</option>
+            ))}
+          </select>
+          <select value={drug} onChange={(e) => setDrug(e.target.value)} className={selectClass}>
+            <option value="">{t("history.anyDrug")}</option>
+            {allDrugs.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+          <select value={sort} onChange={(e) => setSort(e.target.value as SortKey)} className={selectClass}>
+            {SORT_KEYS.map((k) => (
+              <option key={k} value={k}>{t(`history.sort.${k}`)}</option>
+            ))}
+          </select>
+        </div>
+
+        {notice && <p className="text-sm text-slate-600">{notice}</p>}
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+        {entries === null && !loadError ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-sky-600 border-t-transparent" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="py-12 text-center text-slate-500">
+            {entries?.length ? t("history.noMatches") : t("history.empty")}
+          </p>
+        ) : (
+          <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-slate-500">
+                <tr>
+                  <th className="pl-4 py-3 w-8" />
+                  <th className="px-4 py-3 font-medium">{t("history.column.patient")}</th>
+                  <th className="px-4 py-3 font-medium">{t("history.column.date")}</th>
+                  <th className="px-4 py-3 font-medium">{t("history.column.drugs")}</th>
+                  <th className="px-4 py-3 font-medium">{t("history.column.worstRisk")}</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ id, analysis, sample }) => {
+                  const worst = worstResult(analysis.results)?.risk_assessment;
+                  const label = worst?.risk_label ?? "Unknown";
+                  return (
+                    <tr key={id} className="border-t border-slate-100 hover:bg-slate-50">
+                      <td className="pl-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={compare.includes(id)}
+                          onChange={() => toggleCompare(id)}
+                          aria-label={t("history.selectForCompare", { id: analysis.analysis_id })}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link href={`/results/${id}`} className="font-medium text-sky-700 hover:underline">
+                          {analysis.patient_id}
+                        </Link>
+                        {sample && <p className="text-xs text-slate-600">{t("results.sample", { sample })}</p>}
+                        <p className="text-xs text-slate-400">{analysis.analysis_id}</p>
+                      </td>
+                      <td className="px-4 py-3 text-slate-600">{formatDate(analysis.timestamp)}</td>
+                      <td className="px-4 py-3 text-slate-600">{analysis.results.map((r) => r.drug).join(", ")}</td>
+                      <td className="px-4 py-3">
+                        <span
+                          className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                          style={{ backgroundColor: RISK_COLORS[label] ?? RISK_COLORS.Unknown }}
+                        >
+                          {t(`risk.${label}`)}
+                        </span>
+                        {worst && <span className="ml-2 text-xs text-slate-500">{t(`severity.${worst.severity}`)}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => handleDelete(id, analysis.analysis_id)}
+                          title={t("history.delete")}
+                          className="p-1 text-slate-400 hover:text-red-600"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
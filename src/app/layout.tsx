@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
+import { AuthProvider } from "@/lib/auth/react";
+import { DeidentifyProvider } from "@/lib/deidentify/react";
+import { I18nProvider } from "@/lib/i18n/react";
 import "./globals.css";
 
 const inter = Inter({ subsets: ["latin"], variable: "--font-sans" });
@@ -17,7 +20,11 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${inter.variable} font-sans antialiased`}>
-        {children}
+        <I18nProvider>
+          <AuthProvider>
+            <DeidentifyProvider>{children}</DeidentifyProvider>
+          </AuthProvider>
+        </I18nProvider>
       </body>
     </html>
   );
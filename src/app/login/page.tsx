@@ -0,0 +1,53 @@
+"use client";
+
+import { AlertCircle, LogIn, Pill } from "lucide-react";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { safeNext } from "@/lib/auth/session";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/react";
+
+const ERRORS: Record<string, MessageKey> = {
+  expired: "auth.error.expired",
+  denied: "auth.error.denied",
+  unavailable: "auth.error.unavailable",
+};
+
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: { next?: string; error?: string; signedOut?: string };
+}) {
+  const { t } = useI18n();
+  const next = safeNext(searchParams.next);
+  const code = searchParams.error;
+  const error = code ? (Object.hasOwn(ERRORS, code) ? ERRORS[code] : "auth.error.unavailable") : null;
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center px-6">
+      <LanguageSwitcher className="absolute top-4 right-6" />
+      <div className="w-full max-w-sm bg-white rounded-xl border border-slate-200 p-8">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-lg bg-sky-600 flex items-center justify-center">
+            <Pill className="w-6 h-6 text-white" />
+          </div>
+          <h1 className="text-lg font-semibold text-slate-900">{t("auth.heading")}</h1>
+        </div>
+        <p className="text-sm text-slate-600">{t("auth.prompt")}</p>
+        {searchParams.signedOut && !error && <p className="mt-4 text-sm text-slate-500">{t("auth.signedOut")}</p>}
+        {error && (
+          <div className="mt-4 flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-800">{t(error)}</p>
+          </div>
+        )}
+        <a
+          href={`/api/auth/login?next=${encodeURIComponent(next)}`}
+          className="mt-6 flex items-center justify-center gap-2 py-3 px-6 bg-sky-600 text-white font-medium rounded-lg hover:bg-sky-700"
+        >
+          <LogIn className="w-5 h-5" />
+          {t("auth.signIn")}
+        </a>
+      </div>
+    </div>
+  );
+}
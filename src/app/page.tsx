@@ -1,55 +1,125 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
   Upload,
   FileText,
   Pill,
   AlertCircle,
-  ChevronDown,
-  Check,
+  History,
+  Layers,
+  ScrollText,
+  X,
 } from "lucide-react";
+import DrugPicker from "@/components/DrugPicker";
+import JobProgress from "@/components/JobProgress";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import MedicationImport from "@/components/MedicationImport";
+import PendingJobs from "@/components/PendingJobs";
+import SamplePicker from "@/components/SamplePicker";
+import UserMenu from "@/components/UserMenu";
+import VcfPreflight from "@/components/VcfPreflight";
+import type { AnalysisJob, BackendStatus } from "@/lib/api";
+import {
+  MAX_UPLOAD_SIZE,
+  analyzeErrorMessage,
+  analyzeVcf,
+  isAbortError,
+  submitAnalysisJob,
+  warmUpBackend,
+  watchAnalysisJob,
+} from "@/lib/api";
+import { useDrugCatalog } from "@/lib/drugs";
+import { formatSize } from "@/lib/format";
+import { cacheInSession, saveAnalysis } from "@/lib/history";
+import { useI18n } from "@/lib/i18n/react";
+import type { PendingJob } from "@/lib/jobs";
+import { finishJob, forgetJob, rememberJob, updatePendingJob } from "@/lib/jobs";
+import type { ParsedAnalysis } from "@/lib/schema";
+import type { FilteredVcf } from "@/lib/vcf";
+import { extractSample, filterVcf } from "@/lib/vcf";
 
-const SUPPORTED_DRUGS = [
-  "Codeine",
-  "Warfarin",
-  "Clopidogrel",
-  "Simvastatin",
-  "Azathioprine",
-  "Fluorouracil",
-];
-
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
+interface SampleRun {
+  sample: string;
+  analysisId: string;
+}
 
 export default function UploadPage() {
   const router = useRouter();
+  const { t } = useI18n();
   const [file, setFile] = useState<File | null>(null);
   const [drugs, setDrugs] = useState<string[]>(["Codeine"]);
-  const [drugDropdownOpen, setDrugDropdownOpen] = useState(false);
+  const catalog = useDrugCatalog();
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
+  const [prepared, setPrepared] = useState<FilteredVcf | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const prepareRef = useRef<AbortController | null>(null);
+  const [backendStatus, setBackendStatus] = useState<BackendStatus | null>(null);
+  const analyzeRef = useRef<AbortController | null>(null);
+  const [samples, setSamples] = useState<string[]>([]);
+  const [runStep, setRunStep] = useState<{ index: number; total: number; sample: string } | null>(null);
+  const [sampleRuns, setSampleRuns] = useState<SampleRun[]>([]);
+  const [jobUpdate, setJobUpdate] = useState<Pick<AnalysisJob, "stage" | "progress"> | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [pendingRefresh, setPendingRefresh] = useState(0);
+
+  // Start waking a cold backend while the user is still picking a file
+  useEffect(() => {
+    const controller = new AbortController();
+    warmUpBackend({ signal: controller.signal }).catch(() => {});
+    return () => controller.abort();
+  }, []);
+
+  const selectFile = useCallback(async (f: File) => {
+    prepareRef.current?.abort();
+    const controller = new AbortController();
+    prepareRef.current = controller;
+    setError(null);
+    setFile(f);
+    setPrepared(null);
+    setSampleRuns([]);
+    setProgress(0);
+    let lastPercent = 0;
+    try {
+      const result = await filterVcf(f, {
+        signal: controller.signal,
+        onProgress: (bytes) => {
+          const percent = Math.floor((bytes / (f.size || 1)) * 100);
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            setProgress(percent / 100);
+          }
+        },
+      });
+      if (result.file.size > MAX_UPLOAD_SIZE) {
+        result.report.errors.push(t("upload.tooLarge", { size: formatSize(result.file.size) }));
+      }
+      setPrepared(result);
+      setSamples(result.report.samples.slice(0, 1));
+    } catch {
+      /* cancelled or superseded by a newer file */
+    } finally {
+      if (prepareRef.current === controller) setProgress(null);
+    }
+  }, [t]);
 
-  const formatSize = (bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  const cancelPrepare = () => {
+    prepareRef.current?.abort();
+    prepareRef.current = null;
+    setProgress(null);
+    setFile(null);
   };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setDragActive(false);
     const f = e.dataTransfer.files[0];
-    if (f) {
-      if (f.size > MAX_FILE_SIZE) {
-        setError("File exceeds 5MB limit. Please provide a smaller VCF file.");
-      } else {
-        setError(null);
-        setFile(f);
-      }
-    }
-  }, []);
+    if (f) selectFile(f);
+  }, [selectFile]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -58,61 +128,113 @@ export default function UploadPage() {
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
-    if (f) {
-      if (f.size > MAX_FILE_SIZE) {
-        setError("File exceeds 5MB limit. Please provide a smaller VCF file.");
-      } else {
-        setError(null);
-        setFile(f);
-      }
-    }
+    if (f) selectFile(f);
   };
 
-  const toggleDrug = (drug: string) => {
-    setDrugs((prev) =>
-      prev.includes(drug) ? prev.filter((d) => d !== drug) : [...prev, drug]
-    );
+  // Runs as a background job when the backend supports them, so a closed tab or cold instance
+  // loses nothing; otherwise as one synchronous request
+  const analyzeUpload = async (
+    upload: File,
+    drugList: string,
+    sample: string | null,
+    signal: AbortSignal
+  ): Promise<ParsedAnalysis> => {
+    setJobUpdate({ stage: "upload" });
+    const job = await submitAnalysisJob(upload, drugList, { signal });
+    if (!job) {
+      setJobUpdate(null);
+      const parsed = await analyzeVcf(upload, drugList, { signal });
+      if (sample) parsed.sample = sample;
+      cacheInSession(parsed);
+      await saveAnalysis(parsed, "analyzed").catch(() => {});
+      return parsed;
+    }
+
+    const pending: PendingJob = {
+      jobId: job.job_id,
+      fileName: file?.name ?? upload.name,
+      drugs,
+      sample: sample ?? undefined,
+      submittedAt: Date.now(),
+      stage: job.stage,
+      status: job.status,
+    };
+    rememberJob(pending);
+    setActiveJobId(job.job_id);
+    setJobUpdate(job);
+    let last = job;
+    try {
+      const done = await watchAnalysisJob(job.job_id, {
+        signal,
+        onUpdate: (update) => {
+          last = update;
+          updatePendingJob(update);
+          setJobUpdate(update);
+        },
+      });
+      return await finishJob(pending, done, { signal });
+    } catch (err) {
+      // A failed job cannot be resumed; anything else stays listed as pending
+      if (last.status === "failed") forgetJob(job.job_id);
+      throw err;
+    } finally {
+      setActiveJobId(null);
+      setPendingRefresh((n) => n + 1);
+    }
   };
 
   const handleAnalyze = async () => {
-    if (!file || drugs.length === 0) return;
+    if (!prepared || drugs.length === 0) return;
     setError(null);
+    setSampleRuns([]);
     setLoading(true);
+    const controller = new AbortController();
+    analyzeRef.current = controller;
+    const drugList = drugs.map((d) => d.toUpperCase()).join(",");
+    // Multi-sample files are split so each selected individual is analyzed on its own
+    const targets: (string | null)[] = prepared.report.samples.length > 1 ? samples : [null];
+    const runs: SampleRun[] = [];
+    const failures: string[] = [];
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("drugs", drugs.map((d) => d.toUpperCase()).join(","));
-
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "https://alpha-x-84p9.onrender.com";
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 120000);
-      const res = await fetch(`${apiUrl}/analyze`, {
-        method: "POST",
-        body: formData,
-        signal: controller.signal,
-      });
-      clearTimeout(timeout);
-
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({ detail: res.statusText }));
-        throw new Error(err.detail || "Analysis failed");
+      await warmUpBackend({ signal: controller.signal, onStatus: setBackendStatus });
+      for (let i = 0; i < targets.length; i++) {
+        const sample = targets[i];
+        if (sample) setRunStep({ index: i + 1, total: targets.length, sample });
+        try {
+          const upload = sample ? await extractSample(prepared.file, sample) : prepared.file;
+          const parsed = await analyzeUpload(upload, drugList, sample, controller.signal);
+          runs.push({ sample: sample ?? parsed.analysis.patient_id, analysisId: parsed.analysis.analysis_id });
+        } catch (err) {
+          if (targets.length === 1 || isAbortError(err)) throw err;
+          failures.push(`${sample}: ${analyzeErrorMessage(err, t)}`);
+        }
+      }
+      if (targets.length === 1) {
+        router.push(`/results/${runs[0].analysisId}`);
+      } else {
+        setSampleRuns(runs);
+        if (failures.length > 0) setError(failures.join("\n"));
       }
-      const data = await res.json();
-      sessionStorage.setItem(`pharmaguard-${data.analysis_id}`, JSON.stringify(data));
-      router.push(`/results/${data.analysis_id}`);
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Analysis failed. Please try again.";
-      if (msg.includes("5MB")) setError("File exceeds 5MB limit. Please provide a smaller VCF file.");
-      else if (msg.includes("parse") || msg.includes("VCF")) setError("We couldn't parse this VCF file. Please ensure it's a valid VCF v4.2 format.");
-      else if (msg.includes("support") || msg.includes("contact")) setError("Analysis failed. Please try again. If problem persists, contact support.");
-      else if (msg.includes("fetch") || msg.includes("Failed") || msg.includes("abort")) setError("Failed to connect to server. The backend may be waking up (Render free tier)—please wait 1–2 minutes and try again.");
-      else setError(msg);
+      if (!isAbortError(err)) setError(analyzeErrorMessage(err, t));
+      setSampleRuns(runs);
     } finally {
+      analyzeRef.current = null;
+      setBackendStatus(null);
+      setRunStep(null);
+      setJobUpdate(null);
       setLoading(false);
     }
   };
 
-  const isValid = file && drugs.length > 0 && !error;
+  const multiSample = (prepared?.report.samples.length ?? 0) > 1;
+  const isValid =
+    file &&
+    drugs.length > 0 &&
+    !error &&
+    prepared !== null &&
+    prepared.report.errors.length === 0 &&
+    (!multiSample || samples.length > 0);
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -122,16 +244,41 @@ export default function UploadPage() {
             <Pill className="w-6 h-6 text-white" />
           </div>
           <div>
-            <h1 className="text-xl font-semibold text-slate-900">PharmaGuard</h1>
-            <p className="text-sm text-slate-500">Pharmacogenomics Clinical Decision Support</p>
+            <h1 className="text-xl font-semibold text-slate-900">{t("app.title")}</h1>
+            <p className="text-sm text-slate-500">{t("app.tagline")}</p>
+          </div>
+          <div className="ml-auto flex items-center gap-4">
+            <UserMenu className="text-slate-600" />
+            <LanguageSwitcher />
           </div>
+          <Link
+            href="/batch"
+            className="flex items-center gap-2 px-4 py-2 text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50"
+          >
+            <Layers className="w-4 h-4" />
+            {t("nav.batch")}
+          </Link>
+          <Link
+            href="/history"
+            className="flex items-center gap-2 px-4 py-2 text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50"
+          >
+            <History className="w-4 h-4" />
+            {t("nav.history")}
+          </Link>
+          <Link
+            href="/audit"
+            className="flex items-center gap-2 px-4 py-2 text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50"
+          >
+            <ScrollText className="w-4 h-4" />
+            {t("nav.audit")}
+          </Link>
         </div>
       </header>
 
       <main className="max-w-2xl mx-auto px-6 py-12">
         <div className="space-y-8">
           <div>
-            <h2 className="text-lg font-medium text-slate-900 mb-2">Upload VCF File</h2>
+            <h2 className="text-lg font-medium text-slate-900 mb-2">{t("upload.heading")}</h2>
             <div
               onDragEnter={handleDrag}
               onDragLeave={handleDrag}
@@ -151,85 +298,115 @@ export default function UploadPage() {
               <label htmlFor="vcf-upload" className="cursor-pointer block">
                 <Upload className="w-12 h-12 text-slate-400 mx-auto mb-3" />
                 <p className="text-slate-600 font-medium">
-                  {file ? file.name : "Drag and drop your VCF file here"}
+                  {file ? file.name : t("upload.dropPrompt")}
                 </p>
                 {file && (
                   <p className="text-sm text-slate-500 mt-1">{formatSize(file.size)}</p>
                 )}
-                <p className="text-sm text-slate-400 mt-2">or click to browse (max 5MB)</p>
+                <p className="text-sm text-slate-400 mt-2">{t("upload.browseHint")}</p>
               </label>
             </div>
+            <div className="mt-3">
+              <VcfPreflight
+                source={file}
+                prepared={prepared}
+                progress={progress}
+                onCancel={cancelPrepare}
+              />
+            </div>
+            {multiSample && prepared && (
+              <div className="mt-3">
+                <SamplePicker samples={prepared.report.samples} selected={samples} onChange={setSamples} />
+              </div>
+            )}
           </div>
 
           <div>
-            <h2 className="text-lg font-medium text-slate-900 mb-3">Select Drugs to Analyze</h2>
-            <div className="relative">
-              <button
-                type="button"
-                onClick={() => setDrugDropdownOpen(!drugDropdownOpen)}
-                className="w-full flex items-center justify-between px-4 py-3 bg-white border border-slate-300 rounded-lg hover:border-slate-400"
-              >
-                <span className="text-slate-700">
-                  {drugs.length === 0
-                    ? "Select drugs..."
-                    : drugs.join(", ")}
-                </span>
-                <ChevronDown
-                  className={`w-5 h-5 text-slate-500 transition-transform ${
-                    drugDropdownOpen ? "rotate-180" : ""
-                  }`}
-                />
-              </button>
-              {drugDropdownOpen && (
-                <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg py-1">
-                  {SUPPORTED_DRUGS.map((drug) => (
-                    <button
-                      key={drug}
-                      type="button"
-                      onClick={() => toggleDrug(drug)}
-                      className="w-full flex items-center gap-2 px-4 py-2 hover:bg-slate-50 text-left"
-                    >
-                      {drugs.includes(drug) ? (
-                        <Check className="w-4 h-4 text-sky-600" />
-                      ) : (
-                        <span className="w-4" />
-                      )}
-                      {drug}
-                    </button>
-                  ))}
-                </div>
-              )}
-            </div>
+            <h2 className="text-lg font-medium text-slate-900 mb-3">{t("upload.drugsHeading")}</h2>
+            <MedicationImport supported={catalog.drugs.map((d) => d.name)} onImport={setDrugs} />
+            <DrugPicker
+              drugs={catalog.drugs}
+              status={catalog.status}
+              selected={drugs}
+              onChange={setDrugs}
+            />
           </div>
 
           {error && (
             <div className="flex items-start gap-2 p-4 bg-red-50 border border-red-200 rounded-lg">
               <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
-              <p className="text-sm text-red-800">{error}</p>
+              <p className="text-sm text-red-800 whitespace-pre-line">{error}</p>
             </div>
           )}
 
-          <button
-            onClick={handleAnalyze}
-            disabled={!isValid || loading}
-            className="w-full py-3 px-6 bg-sky-600 text-white font-medium rounded-lg hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-          >
-            {loading ? (
-              <>
-                <span className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent" />
-                Analyzing...
-              </>
-            ) : (
-              <>
-                <FileText className="w-5 h-5" />
-                Analyze
-              </>
+          {sampleRuns.length > 0 && (
+            <div className="p-4 bg-white border border-slate-200 rounded-lg text-sm">
+              <p className="font-medium text-slate-900 mb-2">{t("upload.ready")}</p>
+              <ul className="space-y-1">
+                {sampleRuns.map((run) => (
+                  <li key={run.analysisId}>
+                    <Link href={`/results/${run.analysisId}`} className="text-sky-700 hover:underline">
+                      {run.sample}
+                    </Link>
+                    <span className="ml-2 text-xs text-slate-400">{run.analysisId}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {loading && jobUpdate && (
+            <div className="p-4 bg-white border border-slate-200 rounded-lg space-y-2">
+              <JobProgress stage={jobUpdate.stage} progress={jobUpdate.progress} />
+              {activeJobId && <p className="text-xs text-slate-500">{t("jobs.background")}</p>}
+            </div>
+          )}
+
+          <PendingJobs activeJobId={activeJobId} refresh={pendingRefresh} />
+
+          {backendStatus === "waking" && (
+            <p className="text-sm text-amber-700">{t("upload.waking")}</p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleAnalyze}
+              disabled={!isValid || loading}
+              className="flex-1 py-3 px-6 bg-sky-600 text-white font-medium rounded-lg hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {loading ? (
+                <>
+                  <span className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent" />
+                  {backendStatus === "waking"
+                    ? t("upload.wakingButton")
+                    : runStep
+                      ? t("upload.analyzingSample", runStep)
+                      : t("upload.analyzing")}
+                </>
+              ) : (
+                <>
+                  <FileText className="w-5 h-5" />
+                  {multiSample && samples.length > 1
+                    ? t("upload.analyzeSamples", { count: samples.length })
+                    : t("upload.analyze")}
+                </>
+              )}
+            </button>
+            {loading && (
+              <button
+                type="button"
+                onClick={() => analyzeRef.current?.abort()}
+                className="flex items-center gap-2 px-4 py-3 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+              >
+                <X className="w-4 h-4" />
+                {t("common.cancel")}
+              </button>
             )}
-          </button>
+          </div>
         </div>
 
         <p className="mt-8 text-center text-sm text-slate-500">
-          Supported: Codeine, Warfarin, Clopidogrel, Simvastatin, Azathioprine, Fluorouracil
+          {t("upload.supported", { drugs: catalog.drugs.map((d) => d.name).join(", ") })}
         </p>
       </main>
     </div>
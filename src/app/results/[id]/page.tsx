@@ -1,6 +1,7 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import {
   CheckCircle,
@@ -13,19 +14,54 @@ import {
   ChevronDown,
   ChevronUp,
   FileText,
-  RefreshCw,
+  FlaskConical,
+  HelpCircle,
+  ScrollText,
 } from "lucide-react";
-import { jsPDF } from "jspdf";
-import type { AnalysisResponse } from "@/lib/api";
-import { getResults, isDrugResult, regenerateExplanation } from "@/lib/api";
-
-const RISK_COLORS: Record<string, string> = {
-  Safe: "#10b981",
-  "Adjust Dosage": "#f59e0b",
-  Toxic: "#ef4444",
-  Ineffective: "#ef4444",
-  Unknown: "#6b7280",
-};
+import DeidentifiedWatermark from "@/components/DeidentifiedWatermark";
+import DeidentifyToggle from "@/components/DeidentifyToggle";
+import DiplotypeBreakdown from "@/components/DiplotypeBreakdown";
+import DiplotypeSimulator from "@/components/DiplotypeSimulator";
+import type { ReviewDraft } from "@/components/ExplanationPanel";
+import ExplanationPanel from "@/components/ExplanationPanel";
+import GeneView from "@/components/GeneView";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import QualityPanel from "@/components/QualityPanel";
+import UserMenu from "@/components/UserMenu";
+import VariantTable from "@/components/VariantTable";
+import WarfarinDoseCalculator from "@/components/WarfarinDoseCalculator";
+import type { AnalysisResponse, LLMExplanation } from "@/lib/api";
+import {
+  NotFoundError,
+  UnauthorizedError,
+  analyzeErrorMessage,
+  isDrugResult,
+  regenerateExplanation,
+} from "@/lib/api";
+import { useAuth } from "@/lib/auth/react";
+import { canSimulate } from "@/lib/cpic";
+import { deidentifyAnalysis, deidentifySample, deidentifyText } from "@/lib/deidentify";
+import { useDeidentify } from "@/lib/deidentify/react";
+import { useDrugCatalog } from "@/lib/drugs";
+import { downloadBlob } from "@/lib/download";
+import type { ExplanationHistory } from "@/lib/explanations";
+import {
+  addVersion,
+  currentReviews,
+  explanationHistory,
+  reviewVersion,
+  withCurrentExplanations,
+} from "@/lib/explanations";
+import { toFhirBundle, validateFhirBundle } from "@/lib/fhir";
+import { getHistoryEntry, loadAnalysis, saveExplanations, saveWarfarinDose } from "@/lib/history";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/react";
+import { flagMessage, verificationFlags } from "@/lib/quality";
+import { downloadReport } from "@/lib/report";
+import type { SchemaIssue } from "@/lib/schema";
+import { droppedResults } from "@/lib/schema";
+import { RISK_COLORS, worstResult } from "@/lib/risk";
+import type { WarfarinDoseRecord } from "@/lib/warfarin";
 
 const SEVERITY_ICONS: Record<string, React.ReactNode> = {
   none: <CheckCircle className="w-5 h-5" />,
@@ -33,72 +69,93 @@ const SEVERITY_ICONS: Record<string, React.ReactNode> = {
   moderate: <AlertTriangle className="w-5 h-5" />,
   high: <AlertCircle className="w-5 h-5" />,
   critical: <Ban className="w-5 h-5" />,
+  unknown: <HelpCircle className="w-5 h-5" />,
 };
 
+function without<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
 export default function ResultsPage() {
   const params = useParams();
   const router = useRouter();
   const id = params.id as string;
+  const { locale, t, formatDate, formatPercent } = useI18n();
+  const { user } = useAuth();
+  const { enabled: deidentified } = useDeidentify();
   const [data, setData] = useState<AnalysisResponse | null>(null);
-  const [expandedGenes, setExpandedGenes] = useState<Set<string>>(new Set());
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+  const [sample, setSample] = useState<string | null>(null);
+  const [view, setView] = useState<"drugs" | "genes">("drugs");
+  const [simulating, setSimulating] = useState<string | null>(null);
   const [expandedLLM, setExpandedLLM] = useState<Set<string>>(new Set());
   const [copied, setCopied] = useState(false);
-  const [regenerating, setRegenerating] = useState<string | null>(null);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [explanations, setExplanations] = useState<ExplanationHistory | null>(null);
+  // Last value read from or written to history, so unchanged versions are not written back
+  const storedExplanations = useRef<ExplanationHistory | null>(null);
+  const [streams, setStreams] = useState<Record<string, Partial<LLMExplanation>>>({});
+  const [regenerateErrors, setRegenerateErrors] = useState<Record<string, string>>({});
+  const [warfarinDose, setWarfarinDose] = useState<WarfarinDoseRecord | null>(null);
+  const [loadError, setLoadError] = useState<MessageKey | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const catalog = useDrugCatalog();
 
   useEffect(() => {
-    const load = async () => {
-      const stored = sessionStorage.getItem(`pharmaguard-${id}`);
-      if (stored) {
-        try {
-          setData(JSON.parse(stored));
-          return;
-        } catch {
-          /* fall through to API */
-        }
-      }
-      try {
-        const fetched = await getResults(id);
-        setData(fetched);
-        sessionStorage.setItem(`pharmaguard-${id}`, JSON.stringify(fetched));
-      } catch {
-        setLoadError("Analysis not found");
-      }
-    };
-    load();
+    loadAnalysis(id)
+      .then(async (parsed) => {
+        const entry = await getHistoryEntry(id).catch(() => null);
+        const history = explanationHistory(parsed.analysis, entry?.explanations);
+        storedExplanations.current = history;
+        setExplanations(history);
+        setWarfarinDose(entry?.warfarinDose ?? null);
+        setData(parsed.analysis);
+        setIssues(parsed.issues);
+        setSample(parsed.sample ?? null);
+      })
+      .catch((err) =>
+        setLoadError(
+          err instanceof NotFoundError
+            ? "results.notFound"
+            : err instanceof UnauthorizedError
+              ? "errors.unauthorized"
+              : "results.loadFailed"
+        )
+      );
   }, [id]);
 
+  useEffect(() => {
+    if (!explanations || explanations === storedExplanations.current) return;
+    storedExplanations.current = explanations;
+    saveExplanations(id, explanations).catch(() => {});
+  }, [id, explanations]);
+
   const handleRegenerate = async (drug: string) => {
     if (!data) return;
-    setRegenerating(drug);
+    setStreams((prev) => ({ ...prev, [drug]: {} }));
+    setRegenerateErrors((prev) => without(prev, drug));
+    setExpandedLLM((prev) => new Set(Array.from(prev).concat(drug)));
     try {
-      const { llm_explanation } = await regenerateExplanation(data.analysis_id, drug);
-      setData((prev) => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          results: prev.results.map((r) =>
-            r.drug === drug && "llm_explanation" in r
-              ? { ...r, llm_explanation }
-              : r
-          ),
-        };
+      const { llm_explanation } = await regenerateExplanation(data.analysis_id, drug, {
+        onPartial: (partial) => setStreams((prev) => ({ ...prev, [drug]: partial })),
       });
-      setExpandedLLM((prev) => new Set(Array.from(prev).concat(drug)));
-    } catch {
-      /* ignore */
+      setExplanations((prev) => prev && addVersion(prev, drug, llm_explanation));
+    } catch (err) {
+      setRegenerateErrors((prev) => ({ ...prev, [drug]: analyzeErrorMessage(err, t) }));
     } finally {
-      setRegenerating(null);
+      setStreams((prev) => without(prev, drug));
     }
   };
 
-  const toggleGene = (gene: string) => {
-    setExpandedGenes((prev) => {
-      const next = new Set(prev);
-      if (next.has(gene)) next.delete(gene);
-      else next.add(gene);
-      return next;
-    });
+  const handleReview = (drug: string, index: number, draft: ReviewDraft | null) => {
+    const review = draft && { ...draft, reviewer: user?.name, reviewedAt: new Date().toISOString() };
+    setExplanations((prev) => prev && reviewVersion(prev, drug, index, review));
+  };
+
+  const handleWarfarinDose = (record: WarfarinDoseRecord | null) => {
+    setWarfarinDose(record);
+    saveWarfarinDose(id, record).catch(() => {});
   };
 
   const toggleLLM = (drug: string) => {
@@ -110,63 +167,78 @@ export default function ResultsPage() {
     });
   };
 
+  // What is shown and exported: each drug's current explanation, with identifiers swapped for
+  // session pseudonyms when de-identified
+  const visible = (analysis: AnalysisResponse) => {
+    const current = explanations ? withCurrentExplanations(analysis, explanations) : analysis;
+    return deidentified ? deidentifyAnalysis(current, sample) : current;
+  };
+
+  const exportedReviews = () => {
+    const reviews = currentReviews(explanations ?? {});
+    return deidentified && data ? deidentifyText(reviews, data, sample) : reviews;
+  };
+
   const copyJson = () => {
     if (data) {
-      navigator.clipboard.writeText(JSON.stringify(data, null, 2));
+      const reviews = exportedReviews();
+      const flagged = verificationFlags(data);
+      const json = {
+        ...visible(data),
+        ...(Object.keys(reviews).length > 0 && { explanation_reviews: reviews }),
+        ...(warfarinDose && { warfarin_dose: warfarinDose }),
+        ...(Object.keys(flagged).length > 0 && { verify_before_acting: flagged }),
+        ...(deidentified && { deidentified: true }),
+      };
+      navigator.clipboard.writeText(JSON.stringify(json, null, 2));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
-  const downloadPdf = () => {
+  const downloadPdf = async () => {
     if (!data) return;
-    const doc = new jsPDF();
-    doc.setFontSize(18);
-    doc.text("PharmaGuard Clinical Report", 20, 20);
-    doc.setFontSize(10);
-    doc.text(`Patient ID: ${data.patient_id}`, 20, 30);
-    doc.text(`Analysis ID: ${data.analysis_id}`, 20, 36);
-    doc.text(`Date: ${data.timestamp}`, 20, 42);
-    doc.text(`VCF Hash: ${data.vcf_hash || "N/A"}`, 20, 48);
+    setExportError(null);
+    try {
+      await downloadReport(visible(data), {
+        locale,
+        clinician: user?.name,
+        deidentified,
+        reviews: exportedReviews(),
+        warfarinDose: warfarinDose ?? undefined,
+      });
+    } catch (err) {
+      setExportError(t("results.pdfFailed", { detail: err instanceof Error ? err.message : String(err) }));
+    }
+  };
 
-    let y = 60;
-    data.results.forEach((r) => {
-      doc.setFontSize(12);
-      doc.text(`Drug: ${r.drug}`, 20, y);
-      y += 6;
-      doc.text(`Risk: ${r.risk_assessment.risk_label}`, 20, y);
-      y += 6;
-      doc.text(`Confidence: ${(r.risk_assessment.confidence_score * 100).toFixed(0)}%`, 20, y);
-      y += 6;
-      doc.text(`Action: ${r.clinical_recommendation.action}`, 20, y);
-      y += 10;
-      if (isDrugResult(r) && r.pharmacogenomic_profile) {
-        doc.text(`Gene: ${r.pharmacogenomic_profile.gene}`, 20, y);
-        y += 6;
-        doc.text(`Diplotype: ${r.pharmacogenomic_profile.diplotype}`, 20, y);
-        y += 6;
-        doc.text(`Phenotype: ${r.pharmacogenomic_profile.phenotype}`, 20, y);
-        y += 10;
-      }
+  const downloadFhir = () => {
+    if (!data) return;
+    const analysis = visible(data);
+    const bundle = toFhirBundle(analysis, {
+      deidentified,
+      reviews: exportedReviews(),
+      warfarinDose: warfarinDose ?? undefined,
     });
-    doc.text(
-      "Disclaimer: This report is for clinical decision support only. Always consult a qualified healthcare provider.",
-      20,
-      doc.internal.pageSize.height - 20,
-      { maxWidth: 170 }
-    );
-    doc.save(`PharmaGuard-Report-${data.analysis_id}.pdf`);
+    const problems = validateFhirBundle(bundle);
+    if (problems.length > 0) {
+      setExportError(t("results.fhirInvalid", { problems: problems.join("; ") }));
+      return;
+    }
+    setExportError(null);
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" });
+    downloadBlob(blob, `PharmaGuard-FHIR-${analysis.analysis_id}.json`);
   };
 
   if (loadError) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center gap-4">
-        <p className="text-red-600">{loadError}</p>
+        <p className="text-red-600">{t(loadError)}</p>
         <button
           onClick={() => router.push("/")}
           className="px-4 py-2 bg-sky-600 text-white rounded-lg"
         >
-          New Analysis
+          {t("common.newAnalysis")}
         </button>
       </div>
     );
@@ -179,47 +251,80 @@ export default function ResultsPage() {
     );
   }
 
-  const primaryResult = data.results[0];
-  const primaryRisk = primaryResult?.risk_assessment?.risk_label || "Unknown";
-  const bannerColor = RISK_COLORS[primaryRisk] || RISK_COLORS.Unknown;
+  const shown = visible(data);
+  const shownSample = sample && deidentified ? deidentifySample(sample) : sample;
+  const dropped = droppedResults(issues);
+  const worst = worstResult(shown.results);
+  const worstRisk = worst?.risk_assessment?.risk_label || "Unknown";
+  const bannerColor = RISK_COLORS[worstRisk] || RISK_COLORS.Unknown;
+  const worstConfidence = formatPercent(worst?.risk_assessment?.confidence_score ?? 0);
+  const flagged = verificationFlags(shown);
 
   return (
     <div className="min-h-screen bg-slate-50">
+      {deidentified && <DeidentifiedWatermark />}
       <div
-        className="h-24 flex items-center justify-center text-white"
+        className="relative min-h-24 py-4 flex items-center justify-center text-white"
         style={{ backgroundColor: bannerColor }}
       >
+        <div className="absolute top-3 right-6 flex items-center gap-4">
+          <DeidentifyToggle />
+          <UserMenu />
+          <LanguageSwitcher className="text-white [&_option]:text-slate-900" />
+        </div>
         <div className="text-center">
-          <h1 className="text-2xl font-bold">{primaryRisk}</h1>
+          <h1 className="text-2xl font-bold">{t(`risk.${worstRisk}`)}</h1>
+          {shown.results.length > 1 && worst && (
+            <p className="text-white/90 text-sm">{t("results.worstDrug", { drug: worst.drug })}</p>
+          )}
           <p className="text-white/90 text-sm mt-1">
-            {data.patient_id} • {new Date(data.timestamp).toLocaleString()}
+            {shown.patient_id}
+            {shownSample && ` • ${t("results.sample", { sample: shownSample })}`} • {formatDate(shown.timestamp)}
           </p>
+          {deidentified && <p className="text-white/90 text-xs mt-1">{t("deid.notice")}</p>}
         </div>
       </div>
 
       <main className="max-w-4xl mx-auto px-6 py-8">
+        {issues.length > 0 && (
+          <details className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <summary className="cursor-pointer font-medium">
+              {dropped.length > 0
+                ? t("results.partiallyInvalid", { count: dropped.length })
+                : t("results.coerced")}
+            </summary>
+            <ul className="mt-2 space-y-1 font-mono text-xs">
+              {issues.map((issue, i) => (
+                <li key={i}>
+                  {issue.level === "error" ? "✗" : "!"} {issue.path} {issue.message}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {Object.keys(flagged).length > 0 && (
+          <div className="mb-6 flex items-start gap-2 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            <p>
+              <strong>{t("quality.verify")}</strong>{" "}
+              {t("quality.verifyDrugs", { drugs: Object.keys(flagged).join(", ") })}
+            </p>
+          </div>
+        )}
+
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-4">
             <div className="w-16 h-16 rounded-full border-4 flex items-center justify-center"
               style={{ borderColor: bannerColor, color: bannerColor }}>
-              <span className="text-2xl font-bold">
-                {((primaryResult?.risk_assessment?.confidence_score ?? 0) * 100).toFixed(0)}%
-              </span>
+              <span className="text-2xl font-bold">{worstConfidence}</span>
             </div>
-            <div className="group relative">
-              <p className="text-sm text-slate-500">Confidence</p>
-              <p className="font-medium">{((primaryResult?.risk_assessment?.confidence_score ?? 0) * 100).toFixed(0)}%</p>
-              {isDrugResult(primaryResult) && primaryResult.quality_metrics?.confidence_breakdown && (
-                <div className="absolute left-0 top-full mt-1 hidden group-hover:block z-10 p-3 bg-white border shadow-lg rounded-lg text-xs min-w-[200px]">
-                  <p className="font-medium mb-2">Confidence breakdown</p>
-                  {Object.entries(primaryResult.quality_metrics.confidence_breakdown).map(([k, v]) => (
-                    <div key={k} className="flex justify-between gap-4">
-                      <span>{k.replace(/_/g, " ")}</span>
-                      <span>{(v * 100).toFixed(0)}%</span>
-                    </div>
-                  ))}
-                </div>
-              )}
+            <div>
+              <p className="text-sm text-slate-500">
+                {t("results.confidence")}
+                {shown.results.length > 1 && worst && ` • ${worst.drug}`}
+              </p>
+              <p className="font-medium">{worstConfidence}</p>
             </div>
           </div>
           <div className="flex gap-2">
@@ -228,168 +333,232 @@ export default function ResultsPage() {
               className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
             >
               <Copy className="w-4 h-4" />
-              {copied ? "Copied!" : "Copy JSON"}
+              {copied ? t("results.copied") : t("results.copyJson")}
             </button>
             <button
               onClick={downloadPdf}
               className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
             >
               <Download className="w-4 h-4" />
-              PDF Report
+              {t("results.pdf")}
             </button>
-            <a
-              href={`${process.env.NEXT_PUBLIC_API_URL || "https://alpha-x-84p9.onrender.com"}/audit/export`}
-              target="_blank"
-              rel="noopener noreferrer"
+            <button
+              onClick={downloadFhir}
               className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
             >
               <Download className="w-4 h-4" />
-              Audit CSV
-            </a>
+              {t("results.fhir")}
+            </button>
+            <Link
+              href={
+                shown.audit_id
+                  ? `/audit?audit_id=${encodeURIComponent(shown.audit_id)}`
+                  : `/audit?analysis_id=${encodeURIComponent(shown.analysis_id)}`
+              }
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              <ScrollText className="w-4 h-4" />
+              {t("results.auditLog")}
+            </Link>
             <button
               onClick={() => router.push("/")}
               className="flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
             >
               <FileText className="w-4 h-4" />
-              New Analysis
+              {t("common.newAnalysis")}
             </button>
           </div>
         </div>
 
-        <div className="space-y-6">
-          {data.results.map((result) => (
-            <div key={result.drug} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
-              <div className="p-6 border-b border-slate-100">
-                <div className="flex items-start justify-between">
-                  <div>
-                    <h2 className="text-lg font-semibold text-slate-900">{result.drug}</h2>
-                    <div className="flex items-center gap-2 mt-1">
-                      <span
-                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-sm font-medium text-white"
-                        style={{ backgroundColor: RISK_COLORS[result.risk_assessment.risk_label] }}
-                      >
-                        {SEVERITY_ICONS[result.risk_assessment.severity]}
-                        {result.risk_assessment.risk_label}
-                      </span>
-                      <span className="text-sm text-slate-500">
-                        Confidence: {(result.risk_assessment.confidence_score * 100).toFixed(0)}%
-                      </span>
+        {exportError && <p className="mb-6 text-sm text-red-600">{exportError}</p>}
+
+        <div className="flex gap-1 mb-6 border-b border-slate-200" role="tablist">
+          {([
+            ["drugs", "results.byDrug"],
+            ["genes", "results.byGene"],
+          ] as const).map(([key, label]) => (
+            <button
+              key={key}
+              role="tab"
+              aria-selected={view === key}
+              onClick={() => setView(key)}
+              className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium ${
+                view === key ? "border-sky-600 text-sky-700" : "border-transparent text-slate-500 hover:text-slate-700"
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+
+        {view === "genes" ? (
+          <GeneView analysis={shown} />
+        ) : (
+          <div className="space-y-6">
+            {shown.results.map((result) => (
+              <div key={result.drug} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                <div className="p-6 border-b border-slate-100">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h2 className="text-lg font-semibold text-slate-900">{result.drug}</h2>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span
+                          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-sm font-medium text-white"
+                          style={{ backgroundColor: RISK_COLORS[result.risk_assessment.risk_label] }}
+                        >
+                          {SEVERITY_ICONS[result.risk_assessment.severity]}
+                          {t(`risk.${result.risk_assessment.risk_label}`)}
+                        </span>
+                        <span className="text-sm text-slate-500">
+                          {t("results.confidenceValue", { value: formatPercent(result.risk_assessment.confidence_score) })}
+                        </span>
+                      </div>
                     </div>
                   </div>
+                  {flagged[result.drug] && (
+                    <div className="mt-4 p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-900">
+                      <p className="flex items-center gap-2 font-semibold">
+                        <AlertTriangle className="w-4 h-4" />
+                        {t("quality.verify")}
+                      </p>
+                      <ul className="mt-1 ml-6 list-disc">
+                        {flagged[result.drug].map((flag) => (
+                          <li key={flag}>{flagMessage(flag, result.risk_assessment.confidence_score, t, formatPercent)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              {isDrugResult(result) ? (
-                <>
-                  {result.pharmacogenomic_profile && (
-                    <div className="p-6 border-b border-slate-100">
-                      <h3 className="font-medium text-slate-900 mb-3">Gene Profile</h3>
-                      <div className="grid gap-3">
-                        <div className="flex justify-between">
-                          <span className="text-slate-500">Gene</span>
-                          <span className="font-medium">{result.pharmacogenomic_profile.gene}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-slate-500">Diplotype</span>
-                          <span className="font-medium" title="Star allele genotype">
-                            {result.pharmacogenomic_profile.diplotype}
-                          </span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-slate-500">Phenotype</span>
-                          <span className="font-medium">{result.pharmacogenomic_profile.phenotype}</span>
-                        </div>
-                        {result.pharmacogenomic_profile.detected_variants?.length > 0 && (
-                          <div>
+                {isDrugResult(result) ? (
+                  <>
+                    {result.pharmacogenomic_profile && (
+                      <div className="p-6 border-b border-slate-100">
+                        <div className="flex items-center justify-between mb-3">
+                          <h3 className="font-medium text-slate-900">{t("results.geneProfile")}</h3>
+                          {canSimulate(result.drug) && simulating !== result.drug && (
                             <button
-                              onClick={() => toggleGene(result.drug)}
-                              className="flex items-center gap-2 text-sky-600 text-sm"
+                              onClick={() => setSimulating(result.drug)}
+                              className="flex items-center gap-1 text-sm text-sky-600 hover:text-sky-700"
                             >
-                              {expandedGenes.has(result.drug) ? (
-                                <ChevronUp className="w-4 h-4" />
-                              ) : (
-                                <ChevronDown className="w-4 h-4" />
-                              )}
-                              Detected Variants ({result.pharmacogenomic_profile.detected_variants.length})
+                              <FlaskConical className="w-4 h-4" />
+                              {t("sim.open")}
                             </button>
-                            {expandedGenes.has(result.drug) && (
-                              <ul className="mt-2 pl-4 list-disc text-sm text-slate-600">
-                                {result.pharmacogenomic_profile.detected_variants.map((v) => (
-                                  <li key={v}>{v}</li>
-                                ))}
-                              </ul>
-                            )}
+                          )}
+                        </div>
+                        <div className="grid gap-3">
+                          <div className="flex justify-between">
+                            <span className="text-slate-500">{t("field.gene")}</span>
+                            <span className="font-medium">{result.pharmacogenomic_profile.gene}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-slate-500">{t("field.phenotype")}</span>
+                            <span className="font-medium">{result.pharmacogenomic_profile.phenotype}</span>
                           </div>
+                          <div className="flex justify-between">
+                            <span className="text-slate-500">{t("field.diplotype")}</span>
+                            <span className="font-medium" title={t("results.starAllele")}>
+                              {result.pharmacogenomic_profile.diplotype}
+                            </span>
+                          </div>
+                          <DiplotypeBreakdown profile={result.pharmacogenomic_profile} />
+                          <div>
+                            <p className="text-sm text-slate-500 mb-1">
+                              {t("results.detectedVariants", {
+                                count: result.pharmacogenomic_profile.detected_variants.length,
+                              })}
+                            </p>
+                            <VariantTable
+                              gene={result.pharmacogenomic_profile.gene}
+                              variants={result.pharmacogenomic_profile.detected_variants}
+                            />
+                          </div>
+                        </div>
+                        {simulating === result.drug && (
+                          <DiplotypeSimulator result={result} onClose={() => setSimulating(null)} />
                         )}
                       </div>
+                    )}
+
+                    <div className="p-6 border-b border-slate-100">
+                      <h3 className="font-medium text-slate-900 mb-3">{t("results.recommendation")}</h3>
+                      <p className="font-semibold text-slate-800">{result.clinical_recommendation.action}</p>
+                      {result.clinical_recommendation.dose_adjustment && (
+                        <p className="text-slate-600 mt-1">
+                          {t("results.dose", { value: result.clinical_recommendation.dose_adjustment })}
+                        </p>
+                      )}
+                      {result.clinical_recommendation.monitoring && (
+                        <p className="text-slate-600 mt-1">
+                          {t("results.monitoring", { value: result.clinical_recommendation.monitoring })}
+                        </p>
+                      )}
+                      {result.clinical_recommendation.alternative_drugs?.length && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {result.clinical_recommendation.alternative_drugs.map((alt) => (
+                            <span
+                              key={alt}
+                              className="px-3 py-1 bg-slate-100 rounded-full text-sm"
+                            >
+                              {alt}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
-                  )}
 
-                  <div className="p-6 border-b border-slate-100">
-                    <h3 className="font-medium text-slate-900 mb-3">Clinical Recommendation</h3>
-                    <p className="font-semibold text-slate-800">{result.clinical_recommendation.action}</p>
-                    {result.clinical_recommendation.dose_adjustment && (
-                      <p className="text-slate-600 mt-1">Dose: {result.clinical_recommendation.dose_adjustment}</p>
-                    )}
-                    {result.clinical_recommendation.monitoring && (
-                      <p className="text-slate-600 mt-1">Monitoring: {result.clinical_recommendation.monitoring}</p>
+                    <QualityPanel result={result} />
+
+                    {result.drug.toUpperCase() === "WARFARIN" && (
+                      <WarfarinDoseCalculator
+                        result={result}
+                        saved={warfarinDose}
+                        onSave={handleWarfarinDose}
+                        calculatedBy={user?.name}
+                      />
                     )}
-                    {result.clinical_recommendation.alternative_drugs?.length && (
-                      <div className="mt-3 flex flex-wrap gap-2">
-                        {result.clinical_recommendation.alternative_drugs.map((alt) => (
-                          <span
-                            key={alt}
-                            className="px-3 py-1 bg-slate-100 rounded-full text-sm"
-                          >
-                            {alt}
-                          </span>
-                        ))}
+
+                    {result.llm_explanation && (
+                      <div className="p-6">
+                        <button
+                          onClick={() => toggleLLM(result.drug)}
+                          className="flex items-center gap-2 font-medium text-slate-900"
+                        >
+                          {expandedLLM.has(result.drug) ? (
+                            <ChevronUp className="w-4 h-4" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4" />
+                          )}
+                          {t("results.aiExplanation")}
+                        </button>
+                        {expandedLLM.has(result.drug) && (
+                          <ExplanationPanel
+                            versions={
+                              deidentified
+                                ? deidentifyText(explanations?.[result.drug] ?? [], data, sample)
+                                : explanations?.[result.drug] ?? []
+                            }
+                            streaming={streams[result.drug] ?? null}
+                            error={regenerateErrors[result.drug] ?? null}
+                            onRegenerate={() => handleRegenerate(result.drug)}
+                            onReview={(index, review) => handleReview(result.drug, index, review)}
+                          />
+                        )}
                       </div>
                     )}
+                  </>
+                ) : (
+                  <div className="p-6">
+                    <p className="text-slate-600">{result.clinical_recommendation.action}</p>
+                    <p className="text-slate-500 text-sm mt-2">
+                      {t("results.supportedDrugs", { drugs: catalog.drugs.map((d) => d.name).join(", ") })}
+                    </p>
                   </div>
-
-                  {result.llm_explanation && (
-                    <div className="p-6">
-                      <button
-                        onClick={() => toggleLLM(result.drug)}
-                        className="flex items-center gap-2 font-medium text-slate-900"
-                      >
-                        {expandedLLM.has(result.drug) ? (
-                          <ChevronUp className="w-4 h-4" />
-                        ) : (
-                          <ChevronDown className="w-4 h-4" />
-                        )}
-                        AI Explanation
-                      </button>
-                      {expandedLLM.has(result.drug) && (
-                        <div className="mt-3 p-4 bg-slate-50 rounded-lg text-sm space-y-2">
-                          <p><strong>Summary:</strong> {result.llm_explanation.summary}</p>
-                          <p><strong>Mechanism:</strong> {result.llm_explanation.mechanism}</p>
-                          <p className="text-slate-500 text-xs">{result.llm_explanation.citation}</p>
-                          <button
-                            onClick={() => handleRegenerate(result.drug)}
-                            disabled={regenerating === result.drug}
-                            className="mt-2 flex items-center gap-2 text-sky-600 hover:text-sky-700 text-xs"
-                          >
-                            <RefreshCw className={`w-4 h-4 ${regenerating === result.drug ? "animate-spin" : ""}`} />
-                            {regenerating === result.drug ? "Regenerating..." : "Regenerate"}
-                          </button>
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </>
-              ) : (
-                <div className="p-6">
-                  <p className="text-slate-600">{result.clinical_recommendation.action}</p>
-                  <p className="text-slate-500 text-sm mt-2">
-                    Supported drugs: Codeine, Warfarin, Clopidogrel, Simvastatin, Azathioprine, Fluorouracil
-                  </p>
-                </div>
-              )}
-            </div>
-          ))}
-        </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </main>
     </div>
   );
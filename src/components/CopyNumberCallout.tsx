@@ -0,0 +1,24 @@
+import { Copy } from "lucide-react";
+import type { PharmacogenomicProfile } from "@/lib/api";
+import { useI18n } from "@/lib/i18n/react";
+import { copyNumberCall } from "@/lib/variants";
+
+/** Explicit notice for a gene duplication or deletion; renders nothing for a normal copy number. */
+export default function CopyNumberCallout({ profile }: { profile: PharmacogenomicProfile }) {
+  const { t } = useI18n();
+  const call = copyNumberCall(profile);
+  if (!call) return null;
+  return (
+    <div className="flex items-start gap-2 p-3 bg-violet-50 border border-violet-200 rounded-lg text-sm text-violet-900">
+      <Copy className="w-4 h-4 flex-shrink-0 mt-0.5" />
+      <div>
+        <p className="font-medium">{t(call.kind === "duplication" ? "cnv.duplication" : "cnv.deletion", { gene: profile.gene })}</p>
+        <p>
+          {call.copies === null ? t("cnv.copiesUnknown") : t("cnv.copies", { copies: call.copies })}{" "}
+          {call.source === "diplotype" && t("cnv.fromDiplotype", { diplotype: profile.diplotype })}
+        </p>
+        <p className="text-xs text-violet-700 mt-1">{t("cnv.impact")}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { useI18n } from "@/lib/i18n/react";
+
+/** Repeated diagonal label over the whole page, so any screenshot shows it was de-identified. */
+export default function DeidentifiedWatermark() {
+  const { t } = useI18n();
+  return (
+    <div aria-hidden className="pointer-events-none fixed inset-0 z-50 overflow-hidden select-none">
+      <div className="absolute -inset-1/2 grid grid-cols-4 gap-y-24 place-items-center -rotate-[30deg]">
+        {Array.from({ length: 40 }, (_, i) => (
+          <span key={i} className="text-2xl font-bold tracking-widest text-slate-900/[0.06] whitespace-nowrap">
+            {t("deid.watermark")}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
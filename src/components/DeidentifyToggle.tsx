@@ -0,0 +1,15 @@
+import { EyeOff } from "lucide-react";
+import { useDeidentify } from "@/lib/deidentify/react";
+import { useI18n } from "@/lib/i18n/react";
+
+export default function DeidentifyToggle({ className = "" }: { className?: string }) {
+  const { enabled, setEnabled } = useDeidentify();
+  const { t } = useI18n();
+  return (
+    <label className={`flex items-center gap-1 text-sm cursor-pointer ${className}`}>
+      <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+      <EyeOff className="w-4 h-4" />
+      {t("deid.toggle")}
+    </label>
+  );
+}
@@ -0,0 +1,40 @@
+import type { PharmacogenomicProfile } from "@/lib/api";
+import { useI18n } from "@/lib/i18n/react";
+import { parseDiplotype } from "@/lib/variants";
+import CopyNumberCallout from "./CopyNumberCallout";
+
+/** The diplotype split into its alleles, with the activity score and copy number beside it. */
+export default function DiplotypeBreakdown({ profile }: { profile: PharmacogenomicProfile }) {
+  const { t } = useI18n();
+  const alleles = parseDiplotype(profile.diplotype);
+  const facts: [string, string][] = [
+    [t("field.activityScore"), profile.activity_score?.toString() ?? "—"],
+    [t("field.copyNumber"), profile.copy_number?.toString() ?? "—"],
+  ];
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+        <div>
+          <p className="text-xs text-slate-500">{t("variants.alleles")}</p>
+          <div className="flex items-center gap-1 mt-1" title={t("results.starAllele")}>
+            {alleles.map((a, i) => (
+              <span key={i} className="px-2 py-0.5 bg-slate-100 rounded font-mono text-sm">
+                {a.name}
+                {a.copies !== 1 && (
+                  <span className="ml-1 text-violet-700">{t("variants.copies", { copies: a.copies ?? "N" })}</span>
+                )}
+              </span>
+            ))}
+          </div>
+        </div>
+        {facts.map(([label, value]) => (
+          <div key={label}>
+            <p className="text-xs text-slate-500">{label}</p>
+            <p className="mt-1 font-medium">{value}</p>
+          </div>
+        ))}
+      </div>
+      <CopyNumberCallout profile={profile} />
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useMemo, useState } from "react";
+import { FlaskConical, RotateCcw, X } from "lucide-react";
+import type { DrugAnalysisResult, RiskAssessment } from "@/lib/api";
+import type { SimulationInput, Vkorc1Genotype } from "@/lib/cpic";
+import { geneDefinition, initialInput, simulate } from "@/lib/cpic";
+import { useI18n } from "@/lib/i18n/react";
+import { RISK_COLORS } from "@/lib/risk";
+
+interface DiplotypeSimulatorProps {
+  result: DrugAnalysisResult;
+  onClose: () => void;
+}
+
+const VKORC1_GENOTYPES: Vkorc1Genotype[] = ["GG", "GA", "AA"];
+
+/** Lets a clinician change the diplotype and compare the rule engine's answer with the patient's result. */
+export default function DiplotypeSimulator({ result, onClose }: DiplotypeSimulatorProps) {
+  const { t, formatNumber } = useI18n();
+  const patientInput = useMemo(() => initialInput(result), [result]);
+  const [input, setInput] = useState<SimulationInput>(patientInput);
+  const def = geneDefinition(result.drug);
+  const simulation = simulate(result.drug, input);
+  if (!def || !simulation) return null;
+
+  const profile = result.pharmacogenomic_profile;
+  const isWarfarin = result.drug.toUpperCase() === "WARFARIN";
+  // Alleles from the patient's diplotype stay selectable even when the tables do not know them
+  const options = Array.from(new Set([...Object.keys(def.alleles), ...patientInput.alleles.map((a) => a.name)]));
+
+  const setAllele = (index: number, patch: Partial<SimulationInput["alleles"][number]>) =>
+    setInput((prev) => ({ ...prev, alleles: prev.alleles.map((a, i) => (i === index ? { ...a, ...patch } : a)) }));
+
+  const rows: { label: string; patient: React.ReactNode; simulated: React.ReactNode; differs: boolean }[] = [
+    {
+      label: t("field.diplotype"),
+      patient: profile.diplotype,
+      simulated: simulation.diplotype,
+      differs: profile.diplotype !== simulation.diplotype,
+    },
+    {
+      label: t("field.copyNumber"),
+      patient: profile.copy_number ?? "—",
+      simulated: simulation.copyNumber,
+      differs: (profile.copy_number ?? 2) !== simulation.copyNumber,
+    },
+    {
+      label: t("field.activityScore"),
+      patient: profile.activity_score ?? "—",
+      simulated: simulation.activityScore === null ? "—" : formatNumber(simulation.activityScore),
+      differs: (profile.activity_score ?? null) !== simulation.activityScore,
+    },
+    {
+      label: t("field.phenotype"),
+      patient: profile.phenotype,
+      simulated: simulation.phenotype,
+      differs: profile.phenotype !== simulation.phenotype,
+    },
+    {
+      label: t("report.risk"),
+      patient: <RiskBadge label={result.risk_assessment.risk_label} />,
+      simulated: <RiskBadge label={simulation.risk.risk_label} />,
+      differs: result.risk_assessment.risk_label !== simulation.risk.risk_label,
+    },
+    {
+      label: t("results.recommendation"),
+      patient: <Recommendation action={result.clinical_recommendation.action} dose={result.clinical_recommendation.dose_adjustment} />,
+      simulated: <Recommendation action={simulation.recommendation.action} dose={simulation.recommendation.dose_adjustment} />,
+      differs: result.clinical_recommendation.action !== simulation.recommendation.action,
+    },
+  ];
+
+  const selectClass = "px-2 py-1 bg-white border border-slate-300 rounded text-sm text-slate-700";
+
+  return (
+    <div className="mt-4 p-4 border-2 border-dashed border-amber-300 rounded-lg bg-amber-50/40 space-y-4">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="w-4 h-4 text-amber-700" />
+        <h4 className="font-medium text-slate-900">{t("sim.title")}</h4>
+        <span className="px-2 py-0.5 rounded-full bg-amber-200 text-amber-900 text-xs font-semibold uppercase tracking-wide">
+          {t("sim.marker")}
+        </span>
+        <button onClick={onClose} title={t("sim.close")} className="ml-auto text-slate-500 hover:text-slate-700">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        {input.alleles.map((allele, i) => (
+          <div key={i} className="flex items-end gap-2">
+            <label className="text-xs text-slate-500">
+              {t("sim.allele", { n: i + 1 })}
+              <select
+                value={allele.name}
+                onChange={(e) => setAllele(i, { name: e.target.value })}
+                className={`block mt-1 font-mono ${selectClass}`}
+              >
+                {options.map((name) => (
+                  <option key={name} value={name}>
+                    {def.alleles[name] ? name : t("sim.unknownFunction", { allele: name })}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {def.copyNumberVariable && (
+              <label className="text-xs text-slate-500">
+                {t("sim.copies")}
+                <select
+                  value={allele.copies ?? 2}
+                  onChange={(e) => setAllele(i, { copies: Number(e.target.value) })}
+                  className={`block mt-1 ${selectClass}`}
+                >
+                  {[1, 2, 3, 4].map((n) => (
+                    <option key={n} value={n}>
+                      ×{n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        ))}
+        {isWarfarin && (
+          <label className="text-xs text-slate-500">
+            {t("sim.vkorc1")}
+            <select
+              value={input.vkorc1}
+              onChange={(e) => setInput((prev) => ({ ...prev, vkorc1: e.target.value as Vkorc1Genotype }))}
+              className={`block mt-1 font-mono ${selectClass}`}
+            >
+              {VKORC1_GENOTYPES.map((g) => (
+                <option key={g} value={g}>
+                  {g.split("").join("/")}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button
+          onClick={() => setInput(patientInput)}
+          className="flex items-center gap-1 text-sm text-sky-600 hover:text-sky-700"
+        >
+          <RotateCcw className="w-4 h-4" />
+          {t("sim.reset")}
+        </button>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="text-left text-slate-500">
+          <tr>
+            <th className="py-1 pr-4 font-medium w-1/5" />
+            <th className="py-1 pr-4 font-medium w-2/5">{t("sim.patient")}</th>
+            <th className="py-1 font-medium w-2/5 text-amber-800">{t("sim.simulated")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-t border-slate-200 align-top">
+              <td className="py-2 pr-4 text-slate-500">{row.label}</td>
+              <td className="py-2 pr-4">{row.patient}</td>
+              <td className={`py-2 ${row.differs ? "font-medium bg-amber-100/70" : ""}`}>{row.simulated}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-slate-500">{t("sim.note")}</p>
+    </div>
+  );
+}
+
+function RiskBadge({ label }: { label: RiskAssessment["risk_label"] }) {
+  const { t } = useI18n();
+  return (
+    <span
+      className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium text-white"
+      style={{ backgroundColor: RISK_COLORS[label] ?? RISK_COLORS.Unknown }}
+    >
+      {t(`risk.${label}`)}
+    </span>
+  );
+}
+
+function Recommendation({ action, dose }: { action: string; dose?: string | null }) {
+  return (
+    <>
+      <p>{action}</p>
+      {dose && <p className="text-xs text-slate-500 mt-0.5">{dose}</p>}
+    </>
+  );
+}
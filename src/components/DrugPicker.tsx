@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Check, ChevronDown, Search } from "lucide-react";
+import type { CatalogStatus, DrugInfo } from "@/lib/drugs";
+import { groupByGene } from "@/lib/drugs";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/react";
+
+interface DrugPickerProps {
+  drugs: DrugInfo[];
+  status: CatalogStatus;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const STATUS_NOTES: Partial<Record<CatalogStatus, MessageKey>> = {
+  loading: "drugs.loading",
+  stale: "drugs.stale",
+  offline: "drugs.offline",
+};
+
+export default function DrugPicker({ drugs, status, selected, onChange }: DrugPickerProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return drugs;
+    return drugs.filter(
+      (d) => d.name.toLowerCase().includes(q) || d.genes.some((g) => g.toLowerCase().includes(q))
+    );
+  }, [drugs, query]);
+  const groups = useMemo(() => groupByGene(filtered), [filtered]);
+  // Keyboard order follows the rendered (grouped) order
+  const ordered = useMemo(() => groups.flatMap(([, ds]) => ds), [groups]);
+
+  useEffect(() => {
+    setActive(0);
+  }, [query]);
+
+  useEffect(() => {
+    const id = ordered[active] && `drug-option-${ordered[active].name}`;
+    if (open && id) document.getElementById(id)?.scrollIntoView({ block: "nearest" });
+  }, [open, active, ordered]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", onMouseDown);
+    return () => document.removeEventListener("mousedown", onMouseDown);
+  }, [open]);
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter((d) => d !== name) : [...selected, name]);
+  };
+
+  const allVisibleSelected = ordered.length > 0 && ordered.every((d) => selected.includes(d.name));
+  const toggleAll = () => {
+    const visible = ordered.map((d) => d.name);
+    onChange(
+      allVisibleSelected
+        ? selected.filter((d) => !visible.includes(d))
+        : Array.from(new Set([...selected, ...visible]))
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((i) => Math.min(i + 1, ordered.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Home") {
+      e.preventDefault();
+      setActive(0);
+    } else if (e.key === "End") {
+      e.preventDefault();
+      setActive(ordered.length - 1);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (ordered[active]) toggle(ordered[active].name);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={rootRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        className="w-full flex items-center justify-between px-4 py-3 bg-white border border-slate-300 rounded-lg hover:border-slate-400"
+      >
+        <span className="text-slate-700 text-left">
+          {selected.length === 0 ? t("drugs.placeholder") : selected.join(", ")}
+        </span>
+        <ChevronDown
+          className={`w-5 h-5 text-slate-500 transition-transform ${open ? "rotate-180" : ""}`}
+        />
+      </button>
+      {STATUS_NOTES[status] && <p className="mt-1 text-xs text-slate-400">{t(STATUS_NOTES[status]!)}</p>}
+      {open && (
+        <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg py-1">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-100">
+            <Search className="w-4 h-4 text-slate-400" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={t("drugs.search")}
+              role="combobox"
+              aria-controls="drug-picker-list"
+              aria-expanded
+              aria-activedescendant={ordered[active] ? `drug-option-${ordered[active].name}` : undefined}
+              className="flex-1 text-sm outline-none"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={toggleAll}
+            disabled={ordered.length === 0}
+            className="w-full flex items-center gap-2 px-4 py-2 text-sm text-sky-600 hover:bg-slate-50 text-left border-b border-slate-100 disabled:opacity-50"
+          >
+            {allVisibleSelected ? t("drugs.clearAll") : query ? t("drugs.selectAllMatching") : t("common.selectAll")}
+          </button>
+          <div id="drug-picker-list" role="listbox" aria-multiselectable className="max-h-72 overflow-y-auto">
+            {groups.length === 0 && (
+              <p className="px-4 py-3 text-sm text-slate-500">{t("drugs.noMatch", { query })}</p>
+            )}
+            {groups.map(([gene, ds]) => (
+              <div key={gene} role="group" aria-label={gene}>
+                <p className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+                  {gene}
+                </p>
+                {ds.map((drug) => {
+                  const isActive = ordered[active]?.name === drug.name;
+                  return (
+                    <button
+                      key={drug.name}
+                      id={`drug-option-${drug.name}`}
+                      type="button"
+                      role="option"
+                      aria-selected={selected.includes(drug.name)}
+                      tabIndex={-1}
+                      onClick={() => toggle(drug.name)}
+                      onMouseEnter={() => setActive(ordered.indexOf(drug))}
+                      className={`w-full flex items-center gap-2 px-4 py-2 text-left ${
+                        isActive ? "bg-slate-100" : "hover:bg-slate-50"
+                      }`}
+                    >
+                      {selected.includes(drug.name) ? (
+                        <Check className="w-4 h-4 text-sky-600" />
+                      ) : (
+                        <span className="w-4" />
+                      )}
+                      {drug.name}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { AlertCircle, Columns2, RefreshCw } from "lucide-react";
+import type { LLMExplanation } from "@/lib/api";
+import type { ExplanationVerdict, ExplanationVersion } from "@/lib/explanations";
+import { VERDICTS } from "@/lib/explanations";
+import { useI18n } from "@/lib/i18n/react";
+
+export interface ReviewDraft {
+  verdict: ExplanationVerdict;
+  comment?: string;
+}
+
+interface ExplanationPanelProps {
+  versions: ExplanationVersion[];
+  /** Text received so far while a new version is being generated */
+  streaming: Partial<LLMExplanation> | null;
+  error: string | null;
+  onRegenerate: () => void;
+  onReview: (index: number, review: ReviewDraft | null) => void;
+}
+
+const VERDICT_STYLES: Record<ExplanationVerdict, string> = {
+  accepted: "bg-green-50 border-green-300 text-green-800",
+  inaccurate: "bg-amber-50 border-amber-300 text-amber-800",
+  unsafe: "bg-red-50 border-red-300 text-red-800",
+};
+
+const VERDICT_DOTS: Record<ExplanationVerdict, string> = {
+  accepted: "bg-green-500",
+  inaccurate: "bg-amber-500",
+  unsafe: "bg-red-500",
+};
+
+function ExplanationText({
+  explanation,
+  streaming = false,
+  changed,
+}: {
+  explanation: Partial<LLMExplanation>;
+  streaming?: boolean;
+  /** Fields to highlight as different from the compared version */
+  changed?: Set<keyof LLMExplanation>;
+}) {
+  const { t } = useI18n();
+  const mark = (field: keyof LLMExplanation) =>
+    changed?.has(field) ? "bg-amber-100/70 rounded px-0.5" : "";
+  // The cursor follows the last field that has started arriving
+  const last = streaming ? (["citation", "mechanism", "summary"] as const).find((f) => explanation[f] !== undefined) : null;
+  const cursor = <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-slate-400 animate-pulse" />;
+  return (
+    <div className="space-y-2">
+      <p className={mark("summary")}>
+        <strong>{t("results.summary")}</strong> {explanation.summary}
+        {last === "summary" && cursor}
+      </p>
+      {(!streaming || explanation.mechanism !== undefined) && (
+        <p className={mark("mechanism")}>
+          <strong>{t("results.mechanism")}</strong> {explanation.mechanism}
+          {last === "mechanism" && cursor}
+        </p>
+      )}
+      {(!streaming || explanation.citation !== undefined) && (
+        <p className={`text-slate-500 text-xs ${mark("citation")}`}>
+          {explanation.citation}
+          {last === "citation" && cursor}
+        </p>
+      )}
+      {streaming && !last && cursor}
+    </div>
+  );
+}
+
+export default function ExplanationPanel({ versions, streaming, error, onRegenerate, onReview }: ExplanationPanelProps) {
+  const { t, formatDate } = useI18n();
+  const latest = versions.length - 1;
+  // null follows the latest version, so a new one is shown as soon as it arrives
+  const [selected, setSelected] = useState<number | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<ReviewDraft | null>(null);
+
+  const index = Math.min(selected ?? latest, latest);
+  const version = versions[index];
+  const other = Math.min(compareWith ?? Math.max(index - 1, 0), latest);
+  const review = version?.review;
+
+  const select = (i: number) => {
+    setSelected(i === latest ? null : i);
+    setEditing(false);
+  };
+
+  const startEditing = () => {
+    setDraft(review ? { verdict: review.verdict, comment: review.comment } : null);
+    setEditing(true);
+  };
+
+  const saveReview = () => {
+    if (!draft) return;
+    onReview(index, { verdict: draft.verdict, comment: draft.comment?.trim() || undefined });
+    setEditing(false);
+  };
+
+  const versionLabel = (i: number) =>
+    t("explanation.viewing", {
+      n: i + 1,
+      total: versions.length,
+      source: t(versions[i].source === "original" ? "explanation.original" : "explanation.regenerated"),
+      date: formatDate(versions[i].createdAt),
+    });
+
+  const versionSelect = (value: number, onChange: (i: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-700"
+    >
+      {versions.map((_, i) => (
+        <option key={i} value={i}>
+          {versionLabel(i)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const changedFields = (a: LLMExplanation, b: LLMExplanation) =>
+    new Set((["summary", "mechanism", "citation"] as const).filter((f) => a[f] !== b[f]));
+
+  return (
+    <div className="mt-3 p-4 bg-slate-50 rounded-lg text-sm space-y-3">
+      {versions.length > 1 && !streaming && (
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          {versions.map((v, i) => (
+            <button
+              key={i}
+              onClick={() => select(i)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full border ${
+                i === index ? "bg-sky-600 border-sky-600 text-white" : "bg-white border-slate-300 text-slate-600 hover:bg-slate-100"
+              }`}
+            >
+              {t("explanation.version", { n: i + 1 })}
+              {v.review && <span className={`w-1.5 h-1.5 rounded-full ${VERDICT_DOTS[v.review.verdict]}`} />}
+            </button>
+          ))}
+          <button
+            onClick={() => setComparing((c) => !c)}
+            className="ml-auto flex items-center gap-1 text-sky-600 hover:text-sky-700"
+          >
+            <Columns2 className="w-4 h-4" />
+            {comparing ? t("explanation.hideCompare") : t("explanation.compare")}
+          </button>
+        </div>
+      )}
+
+      {streaming ? (
+        <>
+          <p className="text-xs text-slate-500">{t("explanation.generating")}</p>
+          <ExplanationText explanation={streaming} streaming />
+        </>
+      ) : comparing && versions.length > 1 ? (
+        <div className="grid grid-cols-2 gap-4">
+          {[
+            [other, (i: number) => setCompareWith(i)] as const,
+            [index, select] as const,
+          ].map(([i, onChange], side) => (
+            <div key={side} className="space-y-2">
+              {versionSelect(i, onChange)}
+              <ExplanationText
+                explanation={versions[i].explanation}
+                changed={changedFields(versions[i].explanation, versions[side === 0 ? index : other].explanation)}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        version && (
+          <>
+            <ExplanationText explanation={version.explanation} />
+            {versions.length > 1 && <p className="text-xs text-slate-400">{versionLabel(index)}</p>}
+          </>
+        )
+      )}
+
+      {version && !streaming && (
+        <div className="pt-3 border-t border-slate-200 space-y-2">
+          <p className="text-xs font-medium text-slate-500">{t("explanation.review")}</p>
+          {review && !editing ? (
+            <div className={`p-2 border rounded text-xs ${VERDICT_STYLES[review.verdict]}`}>
+              <div className="flex items-center gap-2">
+                <strong>{t(`verdict.${review.verdict}`)}</strong>
+                <span className="opacity-75">
+                  {review.reviewer && `${t("explanation.reviewedBy", { reviewer: review.reviewer })} • `}
+                  {formatDate(review.reviewedAt)}
+                </span>
+                <button onClick={startEditing} className="ml-auto hover:underline">
+                  {t("explanation.editReview")}
+                </button>
+                <button onClick={() => onReview(index, null)} className="hover:underline">
+                  {t("explanation.clearReview")}
+                </button>
+              </div>
+              {review.comment && <p className="mt-1 whitespace-pre-wrap">{review.comment}</p>}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {VERDICTS.map((verdict) => (
+                  <button
+                    key={verdict}
+                    onClick={() => {
+                      setDraft((d) => ({ verdict, comment: d?.comment }));
+                      setEditing(true);
+                    }}
+                    aria-pressed={draft?.verdict === verdict && editing}
+                    className={`px-3 py-1 border rounded-full text-xs ${
+                      editing && draft?.verdict === verdict
+                        ? VERDICT_STYLES[verdict]
+                        : "bg-white border-slate-300 text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    {t(`verdict.${verdict}`)}
+                  </button>
+                ))}
+              </div>
+              {editing && (
+                <>
+                  <textarea
+                    value={draft?.comment ?? ""}
+                    onChange={(e) => setDraft((d) => d && { ...d, comment: e.target.value })}
+                    placeholder={t("explanation.comment")}
+                    rows={2}
+                    className="w-full px-2 py-1 bg-white border border-slate-300 rounded text-xs outline-none"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={saveReview}
+                      disabled={!draft}
+                      className="px-3 py-1 bg-sky-600 text-white rounded text-xs hover:bg-sky-700 disabled:opacity-50"
+                    >
+                      {t("explanation.saveReview")}
+                    </button>
+                    <button onClick={() => setEditing(false)} className="px-3 py-1 text-xs text-slate-600 hover:underline">
+                      {t("explanation.cancel")}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">{t("explanation.failed", { message: error })}</span>
+          <button onClick={onRegenerate} className="font-medium hover:underline">
+            {t("explanation.retry")}
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={onRegenerate}
+        disabled={!!streaming}
+        className="flex items-center gap-2 text-sky-600 hover:text-sky-700 text-xs disabled:opacity-50"
+      >
+        <RefreshCw className={`w-4 h-4 ${streaming ? "animate-spin" : ""}`} />
+        {streaming ? t("results.regenerating") : t("results.regenerate")}
+      </button>
+    </div>
+  );
+}
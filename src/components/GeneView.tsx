@@ -0,0 +1,129 @@
+import { AlertTriangle, Dna } from "lucide-react";
+import type { AnalysisResponse } from "@/lib/api";
+import type { ProfileField } from "@/lib/genes";
+import { summarizeGenes } from "@/lib/genes";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/react";
+import { RISK_COLORS } from "@/lib/risk";
+import { copyNumberCall } from "@/lib/variants";
+import CopyNumberCallout from "./CopyNumberCallout";
+import VariantTable from "./VariantTable";
+
+interface GeneViewProps {
+  analysis: AnalysisResponse;
+}
+
+const FIELD_LABELS: Record<ProfileField, MessageKey> = {
+  diplotype: "field.diplotype",
+  phenotype: "field.phenotype",
+  activityScore: "field.activityScore",
+  copyNumber: "field.copyNumber",
+};
+
+function joinValues(values: (string | number)[]): string {
+  return values.length > 0 ? values.join(" / ") : "—";
+}
+
+export default function GeneView({ analysis }: GeneViewProps) {
+  const { t } = useI18n();
+  const genes = summarizeGenes(analysis);
+  if (genes.length === 0) {
+    return <p className="py-12 text-center text-slate-500">{t("genes.empty")}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {genes.map((g) => {
+        const flagged = g.inconsistencies.length > 0 || g.interactionWarnings.length > 0;
+        // One callout per distinct copy-number call when drugs disagree
+        const cnvProfiles = g.drugs
+          .map((r) => r.pharmacogenomic_profile)
+          .filter((p, i, all) => all.findIndex((o) => o.diplotype === p.diplotype && o.copy_number === p.copy_number) === i)
+          .filter((p) => copyNumberCall(p));
+        const facts: [string, string][] = [
+          [t("field.diplotype"), joinValues(g.diplotypes)],
+          [t("field.phenotype"), joinValues(g.phenotypes)],
+          [t("field.activityScore"), joinValues(g.activityScores)],
+          [t("field.copyNumber"), joinValues(g.copyNumbers)],
+        ];
+        return (
+          <div key={g.gene} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+            <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+              <Dna className="w-5 h-5 text-sky-600" />
+              <h2 className="text-lg font-semibold text-slate-900">{g.gene}</h2>
+              {flagged && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                  <AlertTriangle className="w-3 h-3" />
+                  {t("genes.needsReview")}
+                </span>
+              )}
+            </div>
+
+            <div className="p-6 border-b border-slate-100 grid gap-3">
+              {facts.map(([label, value]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-slate-500">{label}</span>
+                  <span className="font-medium">{value}</span>
+                </div>
+              ))}
+              {cnvProfiles.map((p) => (
+                <CopyNumberCallout key={`${p.diplotype}-${p.copy_number}`} profile={p} />
+              ))}
+              <div>
+                <p className="text-slate-500 mb-1">{t("field.detectedVariants")}</p>
+                <VariantTable gene={g.gene} variants={g.detectedVariants} />
+              </div>
+            </div>
+
+            {flagged && (
+              <div className="px-6 py-4 border-b border-slate-100 bg-amber-50 text-sm text-amber-800 space-y-1">
+                {g.inconsistencies.map(({ field, values }) => (
+                  <p key={field} className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    {t("genes.disagree", {
+                      field: t(FIELD_LABELS[field]).toLowerCase(),
+                      values: values.map((v) => `${v.drug} ${v.value ?? "—"}`).join(", "),
+                    })}
+                  </p>
+                ))}
+                {g.interactionWarnings.map(({ drug, warning }) => (
+                  <p key={drug} className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    {drug}: {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <table className="w-full text-sm">
+              <thead className="text-left text-slate-500 bg-slate-50">
+                <tr>
+                  <th className="px-6 py-2 font-medium">{t("genes.drug")}</th>
+                  <th className="px-6 py-2 font-medium">{t("genes.risk")}</th>
+                  <th className="px-6 py-2 font-medium">{t("genes.recommendation")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {g.drugs.map((r) => (
+                  <tr key={r.drug} className="border-t border-slate-100 align-top">
+                    <td className="px-6 py-3 font-medium text-slate-900">{r.drug}</td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <span
+                        className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                        style={{ backgroundColor: RISK_COLORS[r.risk_assessment.risk_label] ?? RISK_COLORS.Unknown }}
+                      >
+                        {t(`risk.${r.risk_assessment.risk_label}`)}
+                      </span>
+                      <span className="ml-2 text-xs text-slate-500">{t(`severity.${r.risk_assessment.severity}`)}</span>
+                    </td>
+                    <td className="px-6 py-3 text-slate-600">{r.clinical_recommendation.action}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
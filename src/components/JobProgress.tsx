@@ -0,0 +1,43 @@
+import { Check } from "lucide-react";
+import type { JobStage } from "@/lib/api";
+import { JOB_STAGES } from "@/lib/api";
+import { useI18n } from "@/lib/i18n/react";
+
+interface JobProgressProps {
+  stage: JobStage;
+  /** Fraction of the current stage done, when known */
+  progress?: number | null;
+  completed?: boolean;
+}
+
+/** The analysis stages as a row of steps, with the current one in progress. */
+export default function JobProgress({ stage, progress, completed = false }: JobProgressProps) {
+  const { t } = useI18n();
+  const current = JOB_STAGES.indexOf(stage);
+  return (
+    <ol className="grid grid-cols-5 gap-2 text-xs">
+      {JOB_STAGES.map((s, i) => {
+        const done = completed || i < current;
+        const active = !completed && i === current;
+        return (
+          <li key={s} aria-current={active ? "step" : undefined}>
+            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all ${done ? "bg-green-500" : "bg-sky-600"}`}
+                style={{ width: done ? "100%" : active ? `${Math.max(progress ?? 0, 0.1) * 100}%` : "0%" }}
+              />
+            </div>
+            <p
+              className={`mt-1 flex items-center gap-1 ${
+                done ? "text-green-700" : active ? "text-sky-700 font-medium" : "text-slate-400"
+              }`}
+            >
+              {done && <Check className="w-3 h-3" />}
+              {t(`jobs.stage.${s}`)}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
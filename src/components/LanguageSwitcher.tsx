@@ -0,0 +1,24 @@
+import { Globe } from "lucide-react";
+import { LOCALES, LOCALE_NAMES, isLocale } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/react";
+
+export default function LanguageSwitcher({ className = "" }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <label className={`flex items-center gap-1 text-sm text-slate-600 ${className}`}>
+      <Globe className="w-4 h-4" />
+      <span className="sr-only">{t("nav.language")}</span>
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        className="bg-transparent outline-none cursor-pointer"
+      >
+        {LOCALES.map((l) => (
+          <option key={l} value={l}>
+            {LOCALE_NAMES[l]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,149 @@
+import { useRef, useState } from "react";
+import { AlertTriangle, ArrowRight, ClipboardList, Upload, X } from "lucide-react";
+import { useI18n } from "@/lib/i18n/react";
+import type { MedicationImport as ImportResult } from "@/lib/medications";
+import { importMedications } from "@/lib/medications";
+
+interface MedicationImportProps {
+  /** Names from the drug catalog */
+  supported: string[];
+  /** Called with the supported drugs found, when there are any */
+  onImport: (drugs: string[]) => void;
+}
+
+/** Reads a pasted or uploaded medication list and preselects the supported drugs it mentions. */
+export default function MedicationImport({ supported, onImport }: MedicationImportProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const run = (value: string, fileName?: string) => {
+    setError(null);
+    try {
+      const imported = importMedications(value, supported, fileName);
+      setResult(imported);
+      if (imported.drugs.length > 0) onImport(imported.drugs);
+      if (imported.matches.length > 0) setOpen(false);
+      else setError(t("meds.empty"));
+    } catch (err) {
+      setResult(null);
+      setError(t("meds.failed", { message: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (f) run(await f.text(), f.name);
+  };
+
+  const matched = result?.matches.filter((m) => m.drug) ?? [];
+
+  return (
+    <div className="mb-3 text-sm">
+      {!open && (
+        <button
+          type="button"
+          onClick={() => setOpen(true)}
+          className="flex items-center gap-2 text-sky-600 hover:text-sky-700"
+        >
+          <ClipboardList className="w-4 h-4" />
+          {result ? t("meds.importAnother") : t("meds.import")}
+        </button>
+      )}
+
+      {open && (
+        <div className="p-4 bg-white border border-slate-200 rounded-lg space-y-3">
+          <div className="flex items-center gap-2">
+            <ClipboardList className="w-4 h-4 text-sky-600" />
+            <span className="font-medium text-slate-900">{t("meds.heading")}</span>
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              title={t("common.cancel")}
+              className="ml-auto text-slate-500 hover:text-slate-700"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">{t("meds.hint")}</p>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={t("meds.placeholder")}
+            rows={5}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-xs outline-none"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => run(text)}
+              disabled={!text.trim()}
+              className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:opacity-50"
+            >
+              {t("meds.apply")}
+            </button>
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              <Upload className="w-4 h-4" />
+              {t("meds.chooseFile")}
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".txt,.csv,.json,text/plain,text/csv,application/json,application/fhir+json"
+              onChange={handleFile}
+              className="hidden"
+            />
+          </div>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {result && result.matches.length > 0 && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-slate-500">
+            {t("meds.summary", {
+              format: t(`meds.format.${result.format}`),
+              total: result.matches.length,
+              matched: result.drugs.length,
+            })}
+          </p>
+          {matched.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {matched.map((m, i) => (
+                <li
+                  key={i}
+                  className="flex items-center gap-1 px-2 py-0.5 bg-sky-50 border border-sky-200 rounded-full text-xs text-sky-900"
+                >
+                  <span className="max-w-[12rem] truncate" title={m.source}>{m.source}</span>
+                  <ArrowRight className="w-3 h-3" />
+                  <strong>{m.drug}</strong>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.unrecognized.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-900">
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="w-4 h-4" />
+                {t("meds.unrecognized", { count: result.unrecognized.length })}
+              </p>
+              <ul className="mt-1 ml-6 list-disc text-xs">
+                {result.unrecognized.map((name) => (
+                  <li key={name}>{name}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Clock, RefreshCw, X } from "lucide-react";
+import JobProgress from "@/components/JobProgress";
+import type { AnalysisJob } from "@/lib/api";
+import { NotFoundError, analyzeErrorMessage, isAbortError, watchAnalysisJob } from "@/lib/api";
+import { useI18n } from "@/lib/i18n/react";
+import type { PendingJob } from "@/lib/jobs";
+import { finishJob, forgetJob, listPendingJobs, updatePendingJob } from "@/lib/jobs";
+
+interface PendingJobsProps {
+  /** Job this tab is already following in the upload flow */
+  activeJobId: string | null;
+  /** Bumped to re-read the stored jobs, e.g. after an analysis was cancelled */
+  refresh: number;
+}
+
+interface Tracked {
+  update?: AnalysisJob;
+  analysisId?: string;
+  error?: string;
+  /** Failed or unknown to the backend: can only be dismissed */
+  final?: boolean;
+}
+
+/** Jobs submitted earlier (possibly before a reload), followed until their results are saved. */
+export default function PendingJobs({ activeJobId, refresh }: PendingJobsProps) {
+  const { t, formatDate } = useI18n();
+  const [jobs, setJobs] = useState<PendingJob[]>([]);
+  const [tracked, setTracked] = useState<Record<string, Tracked>>({});
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const track = useCallback(
+    async (pending: PendingJob) => {
+      controllers.current.get(pending.jobId)?.abort();
+      const controller = new AbortController();
+      controllers.current.set(pending.jobId, controller);
+      const set = (patch: Tracked) =>
+        setTracked((prev) => ({ ...prev, [pending.jobId]: { ...prev[pending.jobId], ...patch } }));
+      set({ error: undefined });
+      let last: AnalysisJob | null = null;
+      try {
+        const job = await watchAnalysisJob(pending.jobId, {
+          signal: controller.signal,
+          onUpdate: (update) => {
+            last = update;
+            updatePendingJob(update);
+            set({ update });
+          },
+        });
+        const parsed = await finishJob(pending, job, { signal: controller.signal });
+        set({ analysisId: parsed.analysis.analysis_id });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        const final = err instanceof NotFoundError || (last as AnalysisJob | null)?.status === "failed";
+        if (final) forgetJob(pending.jobId);
+        set({ error: err instanceof NotFoundError ? t("jobs.expired") : analyzeErrorMessage(err, t), final });
+      } finally {
+        if (controllers.current.get(pending.jobId) === controller) controllers.current.delete(pending.jobId);
+      }
+    },
+    [t]
+  );
+
+  useEffect(() => {
+    const stored = listPendingJobs().filter((j) => j.jobId !== activeJobId);
+    setJobs((prev) => [...prev.filter((j) => !stored.some((s) => s.jobId === j.jobId)), ...stored]);
+    stored.forEach((j) => {
+      if (!controllers.current.has(j.jobId)) track(j);
+    });
+  }, [activeJobId, refresh, track]);
+
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach((c) => c.abort());
+  }, []);
+
+  const dismiss = (jobId: string) => {
+    controllers.current.get(jobId)?.abort();
+    controllers.current.delete(jobId);
+    forgetJob(jobId);
+    setJobs((prev) => prev.filter((j) => j.jobId !== jobId));
+  };
+
+  const shown = jobs.filter((j) => j.jobId !== activeJobId);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-white border border-slate-200 rounded-lg text-sm">
+      <div className="flex items-center gap-2 mb-1">
+        <Clock className="w-4 h-4 text-sky-600" />
+        <span className="font-medium text-slate-900">{t("jobs.heading")}</span>
+      </div>
+      <p className="mb-3 text-xs text-slate-500">{t("jobs.hint")}</p>
+      <ul className="space-y-4">
+        {shown.map((job) => {
+          const state = tracked[job.jobId] ?? {};
+          const stage = state.update?.stage ?? job.stage;
+          return (
+            <li key={job.jobId} className="space-y-2">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-800 truncate">
+                    {job.fileName}
+                    {job.sample && <span className="ml-1 font-normal text-slate-500">({job.sample})</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {job.drugs.join(", ")} • {t("jobs.submitted", { date: formatDate(job.submittedAt) })}
+                  </p>
+                </div>
+                {state.analysisId && (
+                  <Link href={`/results/${state.analysisId}`} className="text-sky-700 font-medium hover:underline">
+                    {t("jobs.open")}
+                  </Link>
+                )}
+                {state.error && !state.final && (
+                  <button
+                    type="button"
+                    onClick={() => track(job)}
+                    className="flex items-center gap-1 text-sky-600 hover:text-sky-700"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    {t("jobs.retry")}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => dismiss(job.jobId)}
+                  title={t("jobs.dismiss")}
+                  className="text-slate-400 hover:text-slate-600"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <JobProgress stage={stage} progress={state.update?.progress} completed={!!state.analysisId} />
+              {state.error && <p className="text-xs text-red-600">{state.error}</p>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
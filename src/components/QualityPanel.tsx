@@ -0,0 +1,78 @@
+import { AlertTriangle } from "lucide-react";
+import type { DrugAnalysisResult, QualityMetrics } from "@/lib/api";
+import { useI18n } from "@/lib/i18n/react";
+import { CONFIDENCE_THRESHOLD } from "@/lib/quality";
+
+interface QualityPanelProps {
+  result: DrugAnalysisResult;
+}
+
+const COMPLETENESS_STYLES: Record<QualityMetrics["annotation_completeness"], string> = {
+  full: "bg-green-50 border-green-300 text-green-800",
+  partial: "bg-amber-50 border-amber-300 text-amber-800",
+  low: "bg-red-50 border-red-300 text-red-800",
+};
+
+/** Confidence breakdown as bars against the verification threshold, with coverage and interaction details. */
+export default function QualityPanel({ result }: QualityPanelProps) {
+  const { t, formatNumber, formatPercent } = useI18n();
+  const q = result.quality_metrics;
+  const bars: [string, number][] = [
+    [t("quality.overall"), result.risk_assessment.confidence_score],
+    ...Object.entries(q.confidence_breakdown ?? {}).map(([k, v]): [string, number] => [k.replace(/_/g, " "), v]),
+  ];
+
+  return (
+    <div className="p-6 border-b border-slate-100">
+      <h3 className="font-medium text-slate-900 mb-3">{t("quality.heading")}</h3>
+      <div className="flex flex-wrap gap-3 mb-4 text-sm">
+        <span className={`px-2 py-0.5 border rounded-full ${COMPLETENESS_STYLES[q.annotation_completeness]}`}>
+          {t("quality.completeness", { value: t(`completeness.${q.annotation_completeness}`) })}
+        </span>
+        <span className="px-2 py-0.5 border border-slate-300 rounded-full text-slate-700">
+          {t("quality.variantsAnalyzed", { count: formatNumber(q.variants_analyzed) })}
+        </span>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-2">{t("results.confidenceBreakdown")}</p>
+      <div className="space-y-2">
+        {bars.map(([label, value], i) => {
+          const low = value < CONFIDENCE_THRESHOLD;
+          return (
+            <div key={label} className="grid grid-cols-[10rem_1fr_3rem] items-center gap-3 text-sm">
+              <span className={`capitalize truncate ${i === 0 ? "font-medium text-slate-800" : "text-slate-600"}`}>
+                {label}
+              </span>
+              <div className="relative h-2 bg-slate-100 rounded-full">
+                <div
+                  className={`h-full rounded-full ${low ? "bg-amber-500" : "bg-sky-600"}`}
+                  style={{ width: `${Math.min(1, Math.max(0, value)) * 100}%` }}
+                />
+                <div
+                  className="absolute -top-1 -bottom-1 w-px bg-slate-500"
+                  style={{ left: `${CONFIDENCE_THRESHOLD * 100}%` }}
+                  title={t("quality.threshold", { value: formatPercent(CONFIDENCE_THRESHOLD) })}
+                />
+              </div>
+              <span className={`text-right tabular-nums ${low ? "text-amber-700 font-medium" : "text-slate-700"}`}>
+                {formatPercent(value)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-slate-400">
+        {t("quality.threshold", { value: formatPercent(CONFIDENCE_THRESHOLD) })}
+      </p>
+
+      {q.interaction_warning && (
+        <div className="mt-4 flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+          <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          <p>
+            <strong>{t("quality.interaction")}</strong> {q.interaction_warning}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
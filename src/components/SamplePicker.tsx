@@ -0,0 +1,47 @@
+import { Users } from "lucide-react";
+import { useI18n } from "@/lib/i18n/react";
+
+interface SamplePickerProps {
+  samples: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export default function SamplePicker({ samples, selected, onChange }: SamplePickerProps) {
+  const { t } = useI18n();
+  const toggle = (sample: string) =>
+    onChange(
+      selected.includes(sample)
+        ? selected.filter((s) => s !== sample)
+        : samples.filter((s) => s === sample || selected.includes(s))
+    );
+
+  return (
+    <div className="p-4 bg-white border border-slate-200 rounded-lg text-sm">
+      <div className="flex items-center gap-2 mb-3">
+        <Users className="w-4 h-4 text-sky-600" />
+        <span className="font-medium text-slate-900">{t("samples.heading")}</span>
+        <span className="text-slate-500">{t("samples.count", { selected: selected.length, total: samples.length })}</span>
+        <div className="ml-auto flex gap-3 text-sky-700">
+          <button type="button" onClick={() => onChange(samples)} className="hover:underline">
+            {t("common.selectAll")}
+          </button>
+          <button type="button" onClick={() => onChange([])} className="hover:underline">
+            {t("common.clear")}
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {samples.map((sample) => (
+          <label key={sample} className="flex items-center gap-2 text-slate-700 truncate">
+            <input type="checkbox" checked={selected.includes(sample)} onChange={() => toggle(sample)} />
+            <span className="truncate" title={sample}>{sample}</span>
+          </label>
+        ))}
+      </div>
+      {selected.length > 1 && (
+        <p className="mt-3 text-slate-500">{t("samples.separate")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { LogOut, UserRound } from "lucide-react";
+import { useAuth } from "@/lib/auth/react";
+import { useI18n } from "@/lib/i18n/react";
+
+export default function UserMenu({ className = "" }: { className?: string }) {
+  const { status, user } = useAuth();
+  const { t } = useI18n();
+  if (status !== "signedIn" || !user) return null;
+  return (
+    <div className={`flex items-center gap-2 text-sm ${className}`}>
+      <UserRound className="w-4 h-4" />
+      <span className="font-medium" title={user.email}>
+        {user.name}
+      </span>
+      <form method="post" action="/api/auth/logout">
+        <button type="submit" className="flex items-center gap-1 opacity-80 hover:opacity-100" title={t("auth.signOut")}>
+          <LogOut className="w-4 h-4" />
+          <span className="sr-only">{t("auth.signOut")}</span>
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useI18n } from "@/lib/i18n/react";
+import { parseVariant } from "@/lib/variants";
+
+interface VariantTableProps {
+  gene: string;
+  variants: string[];
+}
+
+/** Detected variants broken into columns; strings that cannot be broken down are shown as reported. */
+export default function VariantTable({ gene, variants }: VariantTableProps) {
+  const { t } = useI18n();
+  if (variants.length === 0) return <p className="text-sm text-slate-600">{t("genes.noneDetected")}</p>;
+  const rows = variants.map((v) => parseVariant(v, gene));
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-slate-500">
+          <tr>
+            <th className="py-1 pr-4 font-medium">{t("variants.rsid")}</th>
+            <th className="py-1 pr-4 font-medium">{t("variants.position")}</th>
+            <th className="py-1 pr-4 font-medium">{t("variants.change")}</th>
+            <th className="py-1 pr-4 font-medium">{t("variants.zygosity")}</th>
+            <th className="py-1 font-medium">{t("variants.allele")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((v, i) =>
+            v.parsed ? (
+              <tr key={i} className="border-t border-slate-100" title={v.raw}>
+                <td className="py-1.5 pr-4 font-mono text-xs">{v.rsid ?? "—"}</td>
+                <td className="py-1.5 pr-4 font-mono text-xs whitespace-nowrap">
+                  {v.position ? `${v.chrom}:${v.position}` : "—"}
+                </td>
+                <td className="py-1.5 pr-4 font-mono text-xs">{v.ref ? `${v.ref}>${v.alt}` : "—"}</td>
+                <td className="py-1.5 pr-4">{v.zygosity ? t(`zygosity.${v.zygosity}`) : "—"}</td>
+                <td className="py-1.5 font-mono text-xs">
+                  {v.starAllele ? (
+                    <span
+                      className={v.inferred ? "italic text-slate-500" : ""}
+                      title={v.inferred ? t("variants.inferred") : undefined}
+                    >
+                      {v.starAllele}
+                    </span>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+              </tr>
+            ) : (
+              <tr key={i} className="border-t border-slate-100">
+                <td colSpan={5} className="py-1.5 font-mono text-xs text-slate-600" title={t("variants.unparsed")}>
+                  {v.raw}
+                </td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { AlertCircle, AlertTriangle, CheckCircle, Filter, X } from "lucide-react";
+import type { FilteredVcf } from "@/lib/vcf";
+import { formatSize } from "@/lib/format";
+import { useI18n } from "@/lib/i18n/react";
+
+interface VcfPreflightProps {
+  source: File | null;
+  prepared: FilteredVcf | null;
+  /** Fraction of the source read so far while preparing, otherwise null. */
+  progress: number | null;
+  onCancel: () => void;
+}
+
+export default function VcfPreflight({ source, prepared, progress, onCancel }: VcfPreflightProps) {
+  const { t, formatNumber, formatPercent } = useI18n();
+  if (progress !== null) {
+    return (
+      <div className="p-4 bg-white border border-slate-200 rounded-lg text-sm text-slate-600">
+        <div className="flex items-center justify-between mb-2">
+          <span className="flex items-center gap-2">
+            <span className="animate-spin rounded-full h-4 w-4 border-2 border-sky-600 border-t-transparent" />
+            {t("preflight.checking", { percent: formatPercent(progress) })}
+          </span>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center gap-1 text-slate-500 hover:text-slate-700"
+          >
+            <X className="w-4 h-4" />
+            {t("common.cancel")}
+          </button>
+        </div>
+        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-sky-600 transition-all" style={{ width: `${progress * 100}%` }} />
+        </div>
+      </div>
+    );
+  }
+  if (!prepared) return null;
+
+  const { report } = prepared;
+  const ok = report.errors.length === 0;
+  const facts: [string, string][] = [
+    [t("preflight.format"), report.fileformat ?? "—"],
+    [t("preflight.compression"), report.compressed ? "gzip" : t("common.none")],
+    [t("preflight.samples"), report.samples.length > 0 ? report.samples.join(", ") : "—"],
+    [t("preflight.genomeBuild"), report.genomeBuild ?? t("common.unknown")],
+    [t("preflight.recordsScanned"), formatNumber(report.recordsScanned)],
+    [
+      t("preflight.pharmacogeneRecords"),
+      report.genesFound.length > 0
+        ? `${formatNumber(report.pharmacogeneRecords)} (${report.genesFound.join(", ")})`
+        : "0",
+    ],
+  ];
+
+  return (
+    <div
+      className={`p-4 rounded-lg border text-sm ${
+        ok ? "bg-white border-slate-200" : "bg-red-50 border-red-200"
+      }`}
+    >
+      <div className="flex items-center gap-2 font-medium mb-3">
+        {ok ? (
+          <CheckCircle className="w-5 h-5 text-emerald-500" />
+        ) : (
+          <AlertCircle className="w-5 h-5 text-red-500" />
+        )}
+        <span className={ok ? "text-slate-900" : "text-red-800"}>
+          {ok ? t("preflight.passed") : t("preflight.failed")}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 mb-3">
+        {facts.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <span className="text-slate-500">{label}</span>
+            <span className="font-medium text-slate-700 text-right truncate">{value}</span>
+          </div>
+        ))}
+      </div>
+      {ok && source && (
+        <p className="flex items-start gap-2 text-slate-600 mb-1">
+          <Filter className="w-4 h-4 flex-shrink-0 mt-0.5 text-sky-600" />
+          {t("preflight.kept", {
+            kept: formatNumber(report.pharmacogeneRecords),
+            total: formatNumber(report.recordsScanned),
+            from: formatSize(source.size),
+            to: formatSize(prepared.file.size),
+          })}
+        </p>
+      )}
+      {report.errors.map((e) => (
+        <p key={e} className="flex items-start gap-2 text-red-800 mt-1">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {e}
+        </p>
+      ))}
+      {report.warnings.map((w) => (
+        <p key={w} className="flex items-start gap-2 text-amber-700 mt-1">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {w}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useMemo, useState } from "react";
+import { Calculator, ChevronDown, ChevronUp } from "lucide-react";
+import type { DrugAnalysisResult } from "@/lib/api";
+import { useI18n } from "@/lib/i18n/react";
+import type { Cyp2c9Genotype, InputProblem, Race, Vkorc1Input, WarfarinDoseRecord, WarfarinInputs } from "@/lib/warfarin";
+import {
+  CYP2C9_GENOTYPES,
+  RACES,
+  VKORC1_INPUTS,
+  estimateDose,
+  genotypeInputs,
+  inputProblems,
+} from "@/lib/warfarin";
+
+interface WarfarinDoseCalculatorProps {
+  result: DrugAnalysisResult;
+  saved: WarfarinDoseRecord | null;
+  onSave: (record: WarfarinDoseRecord | null) => void;
+  calculatedBy?: string;
+}
+
+// Numeric fields are kept as typed so a half-entered value is not rewritten under the cursor
+interface Draft extends Omit<WarfarinInputs, "ageYears" | "heightCm" | "weightKg"> {
+  age: string;
+  height: string;
+  weight: string;
+}
+
+function toDraft(inputs: WarfarinInputs): Draft {
+  const { ageYears, heightCm, weightKg, ...rest } = inputs;
+  return { ...rest, age: String(ageYears), height: String(heightCm), weight: String(weightKg) };
+}
+
+function fromDraft({ age, height, weight, ...rest }: Draft): Partial<WarfarinInputs> {
+  const number = (value: string) => (value.trim() === "" ? undefined : Number(value));
+  return { ...rest, ageYears: number(age), heightCm: number(height), weightKg: number(weight) };
+}
+
+const sameInputs = (a: WarfarinInputs, b: WarfarinInputs) =>
+  (Object.keys(a) as (keyof WarfarinInputs)[]).every((k) => a[k] === b[k]);
+
+/** IWPC starting-dose estimate for the warfarin result, with the genotypes taken from the analysis. */
+export default function WarfarinDoseCalculator({ result, saved, onSave, calculatedBy }: WarfarinDoseCalculatorProps) {
+  const { t, formatDate, formatNumber } = useI18n();
+  const fromAnalysis = useMemo(() => genotypeInputs(result), [result]);
+  const [open, setOpen] = useState(!!saved);
+  const [draft, setDraft] = useState<Draft>(() =>
+    saved
+      ? toDraft(saved.inputs)
+      : { age: "", height: "", weight: "", race: "other", enzymeInducer: false, amiodarone: false, ...fromAnalysis }
+  );
+  // Errors for a field show once it has been edited, or after a save attempt
+  const [touched, setTouched] = useState<Set<InputProblem>>(new Set());
+
+  const partial = fromDraft(draft);
+  const problems = inputProblems(partial);
+  const inputs = problems.length === 0 ? (partial as WarfarinInputs) : null;
+  const estimate = inputs && estimateDose(inputs);
+  const unsaved = !!inputs && (!saved || !sameInputs(inputs, saved.inputs));
+
+  const set = (patch: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const touch = (field: InputProblem) => setTouched((prev) => new Set(Array.from(prev).concat(field)));
+
+  const save = () => {
+    if (!inputs || !estimate) {
+      setTouched(new Set(problems));
+      return;
+    }
+    onSave({ inputs, estimate, calculatedAt: new Date().toISOString(), calculatedBy });
+  };
+
+  const dose = (weekly: number) => (
+    <>
+      <p className="text-2xl font-semibold text-slate-900">
+        {t("warfarin.weekly", { dose: formatNumber(Math.round(weekly * 10) / 10) })}
+      </p>
+      <p className="text-xs text-slate-500">{t("warfarin.daily", { dose: formatNumber(Math.round(weekly / 0.7) / 10) })}</p>
+    </>
+  );
+
+  const genotypeHint = (value: string, analysis: string) =>
+    analysis === "unknown" ? (
+      <span className="block mt-1 text-slate-400">{t("warfarin.notReported")}</span>
+    ) : value === analysis ? (
+      <span className="block mt-1 text-sky-700">{t("warfarin.fromAnalysis")}</span>
+    ) : (
+      <span className="block mt-1 text-amber-700">{t("warfarin.differsFromAnalysis", { value: analysis })}</span>
+    );
+
+  const fieldClass = "block w-full mt-1 px-2 py-1 bg-white border rounded text-sm text-slate-700 outline-none";
+  const numberField = (field: InputProblem, key: "age" | "height" | "weight", label: string) => {
+    const invalid = touched.has(field) && problems.includes(field);
+    return (
+      <label className="text-xs text-slate-500">
+        {label}
+        <input
+          type="number"
+          inputMode="decimal"
+          value={draft[key]}
+          onChange={(e) => set({ [key]: e.target.value })}
+          onBlur={() => touch(field)}
+          aria-invalid={invalid}
+          className={`${fieldClass} ${invalid ? "border-red-400" : "border-slate-300"}`}
+        />
+        {invalid && <span className="block mt-1 text-red-600">{t(`warfarin.invalid.${field}`)}</span>}
+      </label>
+    );
+  };
+
+  return (
+    <div className="p-6 border-b border-slate-100">
+      <button onClick={() => setOpen((o) => !o)} className="flex items-center gap-2 font-medium text-slate-900">
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        <Calculator className="w-4 h-4 text-slate-500" />
+        {t("warfarin.title")}
+        {saved && !open && (
+          <span className="text-sm font-normal text-slate-500">
+            — {t("warfarin.weekly", { dose: formatNumber(Math.round(saved.estimate.pharmacogenetic * 10) / 10) })}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {numberField("age", "age", t("warfarin.age"))}
+            {numberField("height", "height", t("warfarin.height"))}
+            {numberField("weight", "weight", t("warfarin.weight"))}
+            <label className="text-xs text-slate-500">
+              {t("warfarin.race")}
+              <select
+                value={draft.race}
+                onChange={(e) => set({ race: e.target.value as Race })}
+                className={`${fieldClass} border-slate-300`}
+              >
+                {RACES.map((race) => (
+                  <option key={race} value={race}>
+                    {t(`race.${race}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-slate-500">
+              {t("warfarin.cyp2c9")}
+              <select
+                value={draft.cyp2c9}
+                onChange={(e) => set({ cyp2c9: e.target.value as Cyp2c9Genotype })}
+                className={`${fieldClass} border-slate-300 font-mono`}
+              >
+                {CYP2C9_GENOTYPES.map((g) => (
+                  <option key={g} value={g}>
+                    {g === "unknown" ? t("warfarin.unknown") : g}
+                  </option>
+                ))}
+              </select>
+              {genotypeHint(draft.cyp2c9, fromAnalysis.cyp2c9)}
+            </label>
+            <label className="text-xs text-slate-500">
+              {t("warfarin.vkorc1")}
+              <select
+                value={draft.vkorc1}
+                onChange={(e) => set({ vkorc1: e.target.value as Vkorc1Input })}
+                className={`${fieldClass} border-slate-300 font-mono`}
+              >
+                {VKORC1_INPUTS.map((g) => (
+                  <option key={g} value={g}>
+                    {g === "unknown" ? t("warfarin.unknown") : g.split("").join("/")}
+                  </option>
+                ))}
+              </select>
+              {genotypeHint(draft.vkorc1, fromAnalysis.vkorc1)}
+            </label>
+            <div className="col-span-2 space-y-1 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.enzymeInducer}
+                  onChange={(e) => set({ enzymeInducer: e.target.checked })}
+                />
+                {t("warfarin.inducer")}
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={draft.amiodarone} onChange={(e) => set({ amiodarone: e.target.checked })} />
+                {t("warfarin.amiodarone")}
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-3 rounded-lg border border-sky-200 bg-sky-50">
+              <p className="text-xs font-medium text-sky-800 mb-1">{t("warfarin.pharmacogenetic")}</p>
+              {estimate ? dose(estimate.pharmacogenetic) : <p className="text-sm text-slate-500">{t("warfarin.incomplete")}</p>}
+            </div>
+            <div className="p-3 rounded-lg border border-slate-200 bg-slate-50">
+              <p className="text-xs font-medium text-slate-600 mb-1">{t("warfarin.clinical")}</p>
+              {estimate ? dose(estimate.clinical) : <p className="text-sm text-slate-500">{t("warfarin.incomplete")}</p>}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <button
+              onClick={save}
+              disabled={!unsaved && !!saved}
+              className="px-3 py-1 bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+            >
+              {t("warfarin.save")}
+            </button>
+            {saved && (
+              <>
+                <span className="text-xs text-slate-500">
+                  {saved.calculatedBy
+                    ? t("warfarin.savedBy", { name: saved.calculatedBy, date: formatDate(saved.calculatedAt) })
+                    : t("warfarin.saved", { date: formatDate(saved.calculatedAt) })}
+                  {unsaved && ` • ${t("warfarin.unsaved")}`}
+                </span>
+                <button onClick={() => onSave(null)} className="text-xs text-slate-600 hover:underline">
+                  {t("warfarin.clear")}
+                </button>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-slate-500">{t("warfarin.note")}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ServerError, watchAnalysisJob } from "./api";
+
+const RUNNING = { job_id: "job-1", status: "running", stage: "scoring", progress: 0.5 };
+const COMPLETED = { job_id: "job-1", status: "completed", stage: "explanation", progress: 1, analysis_id: "a-1" };
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+// Answers the events endpoint with `events` and each poll with the next of `polls`
+function backend(events: () => Response, polls: object[]) {
+  fetchMock = vi.fn(async (url: string) => {
+    if (url.endsWith("/jobs/job-1/events")) return events();
+    const job = polls.length > 1 ? polls.shift() : polls[0];
+    return Response.json(job);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+}
+
+const polled = () => fetchMock.mock.calls.filter(([url]) => String(url).endsWith("/jobs/job-1")).length;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("watchAnalysisJob", () => {
+  it.each([404, 405, 406, 501])("polls when the events endpoint answers %i", async (status) => {
+    backend(() => Response.json({ detail: "No stream" }, { status }), [COMPLETED]);
+    await expect(watchAnalysisJob("job-1")).resolves.toMatchObject({ analysis_id: "a-1" });
+    expect(polled()).toBe(1);
+  });
+
+  it("polls when the events endpoint answers with JSON", async () => {
+    backend(() => Response.json(RUNNING), [COMPLETED]);
+    await expect(watchAnalysisJob("job-1")).resolves.toMatchObject({ status: "completed" });
+  });
+
+  it("follows the event stream without polling", async () => {
+    const stream = `event: job\ndata: ${JSON.stringify(RUNNING)}\n\nevent: job\ndata: ${JSON.stringify(COMPLETED)}\n\n`;
+    backend(() => new Response(stream, { headers: { "content-type": "text/event-stream" } }), [RUNNING]);
+    const onUpdate = vi.fn();
+    await expect(watchAnalysisJob("job-1", { onUpdate })).resolves.toMatchObject({ status: "completed" });
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+    expect(polled()).toBe(0);
+  });
+
+  it("reports a failed job from the stream instead of polling", async () => {
+    const failed = { ...RUNNING, status: "failed", detail: "Scoring crashed" };
+    const stream = `event: job\ndata: ${JSON.stringify(failed)}\n\n`;
+    backend(() => new Response(stream, { headers: { "content-type": "text/event-stream" } }), [COMPLETED]);
+    await expect(watchAnalysisJob("job-1")).rejects.toThrow(new ServerError("Scoring crashed"));
+    expect(polled()).toBe(0);
+  });
+
+  it("stops at a status it does not know", async () => {
+    backend(() => new Response(null, { status: 405 }), [{ ...RUNNING, status: "cancelled" }]);
+    await expect(watchAnalysisJob("job-1")).rejects.toThrow(new ServerError('Analysis job ended with status "cancelled"'));
+    expect(polled()).toBe(1);
+  });
+
+  it("leaves no abort listeners behind between polls", async () => {
+    backend(() => new Response(null, { status: 405 }), [RUNNING, RUNNING, COMPLETED]);
+    const { signal } = new AbortController();
+    const add = vi.spyOn(signal, "addEventListener");
+    const remove = vi.spyOn(signal, "removeEventListener");
+    const watching = watchAnalysisJob("job-1", { signal });
+    await vi.runAllTimersAsync();
+    await expect(watching).resolves.toMatchObject({ status: "completed" });
+    expect(polled()).toBe(3);
+    expect(remove).toHaveBeenCalledTimes(add.mock.calls.length);
+  });
+});
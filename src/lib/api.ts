@@ -1,11 +1,27 @@
-// Env var for Vercel; fallback to production backend (use .env.local with http://localhost:8000 for local dev)
+import type { Translate } from "./i18n";
+import { DEFAULT_LOCALE, translator } from "./i18n";
+import type { ParsedAnalysis, SchemaIssue } from "./schema";
+import { parseAnalysisResponse, parseDrugList, parseExplanation, parseJob } from "./schema";
+
+// Env var for Vercel; fallback to production backend (use .env.local with http://localhost:8000 for local dev).
+// NEXT_PUBLIC_MOCK_API=true switches to the built-in mock backend under /api/mock.
 const API_URL =
-  process.env.NEXT_PUBLIC_API_URL || "https://alpha-x-84p9.onrender.com";
+  process.env.NEXT_PUBLIC_MOCK_API === "true"
+    ? "/api/mock"
+    : process.env.NEXT_PUBLIC_API_URL || "https://alpha-x-84p9.onrender.com";
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+export const ANALYZE_TIMEOUT_MS = 120000;
+// Backend upload limit; applies to the reduced VCF, not the file the user picks
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const JOB_POLL_INTERVAL_MS = 2000;
 
 export interface RiskAssessment {
   risk_label: "Safe" | "Adjust Dosage" | "Toxic" | "Ineffective" | "Unknown";
   confidence_score: number;
-  severity: "none" | "low" | "moderate" | "high" | "critical";
+  severity: "none" | "low" | "moderate" | "high" | "critical" | "unknown";
   rationale?: string;
 }
 
@@ -62,50 +78,479 @@ export interface AnalysisResponse {
   audit_id?: string | null;
 }
 
-export async function analyzeVcf(file: File, drugs: string): Promise<AnalysisResponse> {
-  const formData = new FormData();
-  formData.append("file", file);
-  formData.append("drugs", drugs);
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+/** "upload" is the browser sending the file; the rest run on the backend, in this order. */
+export type JobStage = "upload" | "parse" | "genotype_calling" | "scoring" | "explanation";
+
+export const JOB_STAGES: JobStage[] = ["upload", "parse", "genotype_calling", "scoring", "explanation"];
+
+export interface AnalysisJob {
+  job_id: string;
+  status: JobStatus;
+  stage: JobStage;
+  /** 0–1 within the current stage, when the backend reports it */
+  progress?: number | null;
+  /** Set once the job has completed */
+  analysis_id?: string | null;
+  /** Why the job failed */
+  detail?: string | null;
+}
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The request was rejected as invalid (bad drug list, file too large, ...). */
+export class ValidationError extends ApiError {}
+/** The backend could not parse the uploaded VCF. */
+export class ParseError extends ApiError {}
+export class NotFoundError extends ApiError {}
+/** Missing or expired sign-in (401/403). */
+export class UnauthorizedError extends ApiError {}
+/** The backend could not be reached at all. */
+export class NetworkError extends ApiError {}
+export class TimeoutError extends ApiError {}
+export class ServerError extends ApiError {}
+/** The backend answered, but the payload does not match the expected schema. */
+export class SchemaError extends ApiError {
+  constructor(
+    message: string,
+    public readonly issues: SchemaIssue[]
+  ) {
+    super(message);
+  }
+}
+
+/** User-facing message for a failed analysis request; backend validation messages pass through. */
+export function analyzeErrorMessage(err: unknown, t: Translate = translator(DEFAULT_LOCALE)): string {
+  if (err instanceof UnauthorizedError) return t("errors.unauthorized");
+  if (err instanceof ParseError) return t("errors.parse");
+  if (err instanceof ValidationError) return err.message;
+  if (err instanceof TimeoutError) return t("errors.timeout");
+  if (err instanceof NetworkError) return t("errors.network");
+  if (err instanceof ServerError || err instanceof SchemaError) return t("errors.server");
+  return err instanceof Error ? err.message : t("errors.generic");
+}
+
+function schemaMessage(what: string, issues: SchemaIssue[]): string {
+  const first = issues.find((i) => i.level === "error") ?? issues[0];
+  return first ? `Invalid ${what}: ${first.path} ${first.message}` : `Invalid ${what}`;
+}
+
+export function parseAnalysisOrThrow(raw: unknown): ParsedAnalysis {
+  const { analysis, issues } = parseAnalysisResponse(raw);
+  if (!analysis) throw new SchemaError(schemaMessage("analysis response", issues), issues);
+  return { analysis, issues };
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /** Retries after network, timeout and gateway errors; only honoured for idempotent calls. */
+  retries?: number;
+}
+
+let accessToken: string | null = null;
+let authResolved: () => void = () => {};
+// In the browser, requests wait until the session is known so that a page's first calls carry the token
+const authReady = new Promise<void>((resolve) => (authResolved = resolve));
+
+/** Bearer token sent with every backend request; set from the clinician's session (null when there is none). */
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+  authResolved();
+}
 
-  const res = await fetch(`${API_URL}/analyze`, {
-    method: "POST",
-    body: formData,
+function whenAuthReady(signal?: AbortSignal): Promise<void> {
+  if (typeof window === "undefined") return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException("Aborted", "AbortError"));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    authReady.then(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    });
   });
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+function errorForResponse(status: number, detail: string): ApiError {
+  if (status === 401 || status === 403) return new UnauthorizedError(detail, status);
+  if (status === 404) return new NotFoundError(detail, status);
+  if (status >= 500) return new ServerError(detail, status);
+  if (status === 413 || /\d+\s*MB|too large/i.test(detail)) return new ValidationError(detail, status);
+  if (/parse|vcf/i.test(detail)) return new ParseError(detail, status);
+  return new ValidationError(detail, status);
+}
+
+// Render free-tier gateways answer with these while the instance is starting
+const isRetryable = (err: unknown) =>
+  err instanceof NetworkError ||
+  err instanceof TimeoutError ||
+  (err instanceof ServerError && [502, 503, 504].includes(err.status ?? 0));
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function requestOnce(
+  path: string,
+  init: RequestInit,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions
+): Promise<Response> {
+  if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+  await whenAuthReady(signal);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const headers = new Headers(init.headers);
+    if (accessToken) headers.set("Authorization", `Bearer ${accessToken}`);
+    const res = await fetch(`${API_URL}${path}`, { ...init, headers, signal: controller.signal });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ detail: res.statusText }));
+      const detail = typeof err.detail === "string" && err.detail ? err.detail : res.statusText;
+      throw errorForResponse(res.status, detail || `Request failed (${res.status})`);
+    }
+    return res;
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    if (timedOut) throw new TimeoutError(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    if (isAbortError(err)) throw err;
+    throw new NetworkError("Failed to connect to server");
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+async function request(
+  path: string,
+  init: RequestInit,
+  options: RequestOptions & { idempotent: boolean }
+): Promise<Response> {
+  const retries = options.idempotent ? (options.retries ?? DEFAULT_RETRIES) : 0;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce(path, init, options);
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err)) throw err;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+    }
+  }
+}
+
+/** The backend audit log as CSV (fetched rather than linked so the bearer token is sent). */
+export async function getAuditExport(options: RequestOptions = {}): Promise<Blob> {
+  const res = await request("/audit/export", { method: "GET" }, { ...options, idempotent: true });
+  return res.blob();
+}
+
+export type BackendStatus = "ready" | "waking";
+
+// Per-probe budget; Render cold starts usually take 30-90s in total
+const PROBE_TIMEOUT_MS = 5000;
+const WARM_UP_DEADLINE_MS = 120000;
 
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({ detail: res.statusText }));
-    throw new Error(err.detail || "Analysis failed");
+/**
+ * Resolves once the backend answers any HTTP request. While it does not, onStatus
+ * reports "waking" so the UI can explain the delay instead of failing.
+ */
+export async function warmUpBackend({
+  signal,
+  onStatus,
+}: { signal?: AbortSignal; onStatus?: (status: BackendStatus) => void } = {}): Promise<void> {
+  const deadline = Date.now() + WARM_UP_DEADLINE_MS;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await requestOnce("/health", { method: "GET" }, { signal, timeoutMs: PROBE_TIMEOUT_MS });
+      onStatus?.("ready");
+      return;
+    } catch (err) {
+      if (err instanceof ApiError && !isRetryable(err)) {
+        // Any non-gateway HTTP answer (even 404) means the instance is up
+        onStatus?.("ready");
+        return;
+      }
+      if (isAbortError(err)) throw err;
+      if (Date.now() > deadline) throw err;
+      if (attempt === 0) onStatus?.("waking");
+      await sleep(2000, signal);
+    }
   }
-  return res.json();
 }
 
-export async function getSupportedDrugs(): Promise<string[]> {
-  const res = await fetch(`${API_URL}/drugs`);
-  const data = await res.json();
-  return data.drugs || [];
+export async function analyzeVcf(
+  file: File,
+  drugs: string,
+  options: RequestOptions = {}
+): Promise<ParsedAnalysis> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("drugs", drugs);
+
+  const res = await request(
+    "/analyze",
+    { method: "POST", body: formData },
+    { timeoutMs: ANALYZE_TIMEOUT_MS, ...options, idempotent: false }
+  );
+  return parseAnalysisOrThrow(await res.json());
+}
+
+export async function getSupportedDrugs(options: RequestOptions = {}): Promise<string[]> {
+  const res = await request("/drugs", { method: "GET" }, { ...options, idempotent: true });
+  const { value, issues } = parseDrugList(await res.json());
+  if (!value) throw new SchemaError(schemaMessage("drug list", issues), issues);
+  return value;
 }
 
 export function isDrugResult(r: DrugAnalysisResult | UnsupportedDrugResult): r is DrugAnalysisResult {
   return "pharmacogenomic_profile" in r;
 }
 
-export async function getResults(analysisId: string): Promise<AnalysisResponse> {
-  const res = await fetch(`${API_URL}/results/${analysisId}`);
-  if (!res.ok) throw new Error("Analysis not found");
-  return res.json();
+export async function getResults(
+  analysisId: string,
+  options: RequestOptions = {}
+): Promise<ParsedAnalysis> {
+  const res = await request(
+    `/results/${encodeURIComponent(analysisId)}`,
+    { method: "GET" },
+    { ...options, idempotent: true }
+  );
+  return parseAnalysisOrThrow(await res.json());
 }
 
+export interface RegenerateOptions extends RequestOptions {
+  /** Asks for a streamed explanation and reports the text received so far */
+  onPartial?: (partial: Partial<LLMExplanation>) => void;
+}
+
+interface StreamEvent {
+  event: string;
+  data: string;
+}
+
+/** Reads a text/event-stream body, calling onEvent for each complete event. */
+async function readEventStream(res: Response, onEvent: (e: StreamEvent) => void, signal?: AbortSignal) {
+  if (!res.body) throw new ServerError("Empty event stream", res.status);
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  const onAbort = () => reader.cancel().catch(() => {});
+  signal?.addEventListener("abort", onAbort, { once: true });
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) >= 0) {
+        const frame = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        let event = "message";
+        const data: string[] = [];
+        for (const line of frame.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        }
+        if (data.length) onEvent({ event, data: data.join("\n") });
+      }
+    }
+  } catch (err) {
+    if (err instanceof ApiError || isAbortError(err)) throw err;
+    throw new NetworkError("Connection lost while streaming");
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Asks the backend for a new explanation. With onPartial the request accepts a server-sent
+ * event stream (`delta` events with `{field, text}`, then `done` with the full explanation);
+ * backends that only answer with JSON are handled the same way without partial updates.
+ */
 export async function regenerateExplanation(
   analysisId: string,
-  drug: string
+  drug: string,
+  { onPartial, ...options }: RegenerateOptions = {}
 ): Promise<{ llm_explanation: LLMExplanation }> {
   const formData = new FormData();
   formData.append("analysis_id", analysisId);
   formData.append("drug", drug);
-  const res = await fetch(`${API_URL}/regenerate-explanation`, {
-    method: "POST",
-    body: formData,
-  });
-  if (!res.ok) throw new Error("Failed to regenerate");
-  return res.json();
+  const res = await request(
+    "/regenerate-explanation",
+    {
+      method: "POST",
+      body: formData,
+      headers: onPartial ? { Accept: "text/event-stream, application/json" } : undefined,
+    },
+    { timeoutMs: ANALYZE_TIMEOUT_MS, ...options, idempotent: false }
+  );
+
+  let raw: unknown = null;
+  if (onPartial && res.headers.get("content-type")?.startsWith("text/event-stream")) {
+    const partial: Partial<Record<keyof LLMExplanation, string>> = {};
+    await readEventStream(
+      res,
+      ({ event, data }) => {
+        let payload;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          throw new ServerError("Malformed event in explanation stream");
+        }
+        if (event === "delta" && ["summary", "mechanism", "citation"].includes(payload.field)) {
+          const field = payload.field as keyof LLMExplanation;
+          partial[field] = (partial[field] ?? "") + String(payload.text ?? "");
+          onPartial({ ...partial });
+        } else if (event === "done") {
+          raw = payload;
+        } else if (event === "error") {
+          throw new ServerError(typeof payload.detail === "string" ? payload.detail : "Explanation failed");
+        }
+      },
+      options.signal
+    );
+    if (raw === null) throw new ServerError("Explanation stream ended before completing");
+  } else {
+    raw = await res.json();
+  }
+  const { value, issues } = parseExplanation(raw);
+  if (!value) throw new SchemaError(schemaMessage("explanation", issues), issues);
+  return { llm_explanation: value };
+}
+
+function parseJobOrThrow(raw: unknown): AnalysisJob {
+  const { value, issues } = parseJob(raw);
+  if (!value) throw new SchemaError(schemaMessage("analysis job", issues), issues);
+  return value;
+}
+
+// Backends that predate the job API answer POST /jobs with one of these
+const NO_JOB_API = [404, 405, 501];
+// Remembered for the page's lifetime, so later uploads skip straight to /analyze
+let jobsSupported: boolean | null = null;
+
+/**
+ * Submits an analysis as a background job (`POST /jobs`, same form fields as /analyze).
+ * Resolves null when the backend has no job API, in which case callers use analyzeVcf.
+ */
+export async function submitAnalysisJob(
+  file: File,
+  drugs: string,
+  options: RequestOptions = {}
+): Promise<AnalysisJob | null> {
+  if (jobsSupported === false) return null;
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("drugs", drugs);
+  try {
+    const res = await request("/jobs", { method: "POST", body: formData }, { ...options, idempotent: false });
+    jobsSupported = true;
+    return parseJobOrThrow(await res.json());
+  } catch (err) {
+    if (err instanceof ApiError && NO_JOB_API.includes(err.status ?? 0)) {
+      jobsSupported = false;
+      return null;
+    }
+    throw err;
+  }
+}
+
+export async function getAnalysisJob(jobId: string, options: RequestOptions = {}): Promise<AnalysisJob> {
+  const res = await request(`/jobs/${encodeURIComponent(jobId)}`, { method: "GET" }, { ...options, idempotent: true });
+  return parseJobOrThrow(await res.json());
+}
+
+export interface WatchJobOptions extends RequestOptions {
+  onUpdate?: (job: AnalysisJob) => void;
+}
+
+/** The completed job, null while it is still running; a failed job throws with the backend's detail. */
+function settled(job: AnalysisJob): AnalysisJob | null {
+  if (job.status === "failed") {
+    const message = job.detail || `Analysis failed during ${job.stage.replace(/_/g, " ")}`;
+    throw job.stage === "parse" ? new ParseError(message) : new ServerError(message);
+  }
+  return job.status === "completed" ? job : null;
+}
+
+/**
+ * Follows a job until it completes, reporting each update. Listens on `/jobs/{id}/events`
+ * (server-sent `job` events carrying the job) when the backend streams, and polls
+ * `/jobs/{id}` otherwise or once the stream drops.
+ */
+export async function watchAnalysisJob(
+  jobId: string,
+  { onUpdate, ...options }: WatchJobOptions = {}
+): Promise<AnalysisJob> {
+  const path = `/jobs/${encodeURIComponent(jobId)}`;
+  let res: Response | null = null;
+  try {
+    res = await requestOnce(`${path}/events`, { method: "GET", headers: { Accept: "text/event-stream" } }, options);
+  } catch (err) {
+    // Any HTTP answer other than a stream (404, 405, 406, 501, ...) means the job is polled instead
+    if (isAbortError(err) || !(err instanceof ApiError)) throw err;
+  }
+  if (res?.headers.get("content-type")?.startsWith("text/event-stream")) {
+    let done: AnalysisJob | null = null;
+    try {
+      await readEventStream(
+        res,
+        ({ event, data }) => {
+          if (event !== "job" || done) return;
+          let raw;
+          try {
+            raw = JSON.parse(data);
+          } catch {
+            throw new ServerError("Malformed event in job stream");
+          }
+          const job = parseJobOrThrow(raw);
+          onUpdate?.(job);
+          done = settled(job);
+        },
+        options.signal
+      );
+    } catch (err) {
+      // Once the stream drops, polling picks up where it left off
+      if (!(err instanceof NetworkError)) throw err;
+    }
+    if (done) return done;
+  } else {
+    res?.body?.cancel().catch(() => {});
+  }
+
+  for (;;) {
+    const job = await getAnalysisJob(jobId, options);
+    onUpdate?.(job);
+    const done = settled(job);
+    if (done) return done;
+    await sleep(JOB_POLL_INTERVAL_MS, options.signal);
+  }
 }
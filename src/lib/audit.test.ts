@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import type { AuditRecord } from "./audit";
+import { filterAudit } from "./audit";
+import { deidentifyRecord } from "./deidentify";
+
+const RECORD: AuditRecord = {
+  timestamp: "2026-01-05T10:00:00.000Z",
+  audit_id: "audit-7f3a",
+  analysis_id: "analysis-42",
+  patient_id: "JANE_DOE_1984",
+  action: "analyze",
+  drugs: ["CODEINE"],
+  vcf_hash: "0123456789abcdef",
+};
+
+describe("filterAudit", () => {
+  it("matches real identifiers when they are shown", () => {
+    expect(filterAudit([RECORD], { patient: "jane_doe" })).toEqual([RECORD]);
+    expect(filterAudit([RECORD], { analysisId: "analysis-42", auditId: "audit-7f3a" })).toEqual([RECORD]);
+  });
+
+  it("matches only pseudonyms while de-identified", () => {
+    const shown = deidentifyRecord(RECORD);
+    const filter = (filters: Parameters<typeof filterAudit>[1]) => filterAudit([RECORD], filters, deidentifyRecord);
+    expect(filter({ patient: "JANE_DOE" })).toEqual([]);
+    expect(filter({ analysisId: "analysis-42" })).toEqual([]);
+    expect(filter({ auditId: "audit-7f3a" })).toEqual([]);
+    expect(filter({ patient: shown.patient_id, analysisId: shown.analysis_id, auditId: shown.audit_id })).toEqual([
+      RECORD,
+    ]);
+  });
+});
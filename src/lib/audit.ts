@@ -0,0 +1,124 @@
+import type { RequestOptions } from "./api";
+import { getAuditExport } from "./api";
+import { parseCsv, toCsv } from "./csv";
+
+/** One row of the backend's /audit/export CSV. */
+export interface AuditRecord {
+  timestamp: string;
+  audit_id: string;
+  analysis_id: string;
+  patient_id: string;
+  action: string;
+  drugs: string[];
+  vcf_hash: string;
+}
+
+export const AUDIT_COLUMNS = [
+  "timestamp",
+  "audit_id",
+  "analysis_id",
+  "patient_id",
+  "action",
+  "drugs",
+  "vcf_hash",
+] as const;
+
+export type AuditSortKey = "timestamp" | "audit_id" | "analysis_id" | "patient_id" | "action";
+
+export interface AuditFilters {
+  /** Inclusive local dates, YYYY-MM-DD */
+  from?: string;
+  to?: string;
+  patient?: string;
+  drug?: string;
+  analysisId?: string;
+  auditId?: string;
+  action?: string;
+}
+
+/** Columns are matched by header name, so reordered or extra backend columns are tolerated. */
+export function parseAuditCsv(text: string): AuditRecord[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const index = Object.fromEntries(AUDIT_COLUMNS.map((c) => [c, header.indexOf(c)])) as Record<
+    (typeof AUDIT_COLUMNS)[number],
+    number
+  >;
+  const cell = (row: string[], column: (typeof AUDIT_COLUMNS)[number]) =>
+    index[column] >= 0 ? (row[index[column]] ?? "").trim() : "";
+  return rows
+    .filter((row) => row.some((c) => c.trim()))
+    .map((row) => ({
+      timestamp: cell(row, "timestamp"),
+      audit_id: cell(row, "audit_id"),
+      analysis_id: cell(row, "analysis_id"),
+      patient_id: cell(row, "patient_id"),
+      action: cell(row, "action"),
+      drugs: cell(row, "drugs")
+        .split(";")
+        .map((d) => d.trim())
+        .filter(Boolean),
+      vcf_hash: cell(row, "vcf_hash"),
+    }));
+}
+
+export async function getAuditLog(options: RequestOptions = {}): Promise<AuditRecord[]> {
+  return parseAuditCsv(await (await getAuditExport(options)).text());
+}
+
+function localDay(timestamp: string): string | null {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const contains = (value: string, query?: string) => !query || value.toLowerCase().includes(query.trim().toLowerCase());
+
+/**
+ * Applies the filters. Identifier filters match only the displayed alias, so while de-identified
+ * a row cannot be found by its real IDs and typing one does not reveal its pseudonym.
+ */
+export function filterAudit(
+  records: AuditRecord[],
+  filters: AuditFilters,
+  alias: (record: AuditRecord) => AuditRecord = (r) => r
+): AuditRecord[] {
+  return records.filter((r) => {
+    const shown = alias(r);
+    if (filters.from || filters.to) {
+      const day = localDay(r.timestamp);
+      if (!day) return false;
+      if (filters.from && day < filters.from) return false;
+      if (filters.to && day > filters.to) return false;
+    }
+    if (!contains(shown.patient_id, filters.patient)) return false;
+    if (!contains(shown.analysis_id, filters.analysisId)) return false;
+    if (filters.auditId && shown.audit_id !== filters.auditId) return false;
+    if (filters.drug && !r.drugs.some((d) => d.toLowerCase() === filters.drug!.toLowerCase())) return false;
+    if (filters.action && r.action !== filters.action) return false;
+    return true;
+  });
+}
+
+/** Sorts by the displayed values, so de-identified tables are ordered by pseudonym. */
+export function sortAudit(
+  records: AuditRecord[],
+  key: AuditSortKey,
+  descending: boolean,
+  alias: (record: AuditRecord) => AuditRecord = (r) => r
+): AuditRecord[] {
+  const compare =
+    key === "timestamp"
+      ? (a: AuditRecord, b: AuditRecord) => (Date.parse(a.timestamp) || 0) - (Date.parse(b.timestamp) || 0)
+      : (a: AuditRecord, b: AuditRecord) => alias(a)[key].localeCompare(alias(b)[key]);
+  return [...records].sort((a, b) => (descending ? compare(b, a) : compare(a, b)));
+}
+
+/** Serializes records back to the export's CSV layout. */
+export function auditCsv(records: AuditRecord[]): string {
+  return toCsv([
+    [...AUDIT_COLUMNS],
+    ...records.map((r) => AUDIT_COLUMNS.map((c) => (c === "drugs" ? r.drugs.join(";") : r[c]))),
+  ]);
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { CdsAuthError, verifyCdsClient } from "./cds";
+import { base64UrlEncode } from "./session";
+
+const ISSUER = "https://ehr.example";
+const JWKS_URL = "https://ehr.example/.well-known/jwks.json";
+const AUDIENCE = "https://app.example/api/cds-services/pharmaguard-order-sign";
+
+let keys: CryptoKeyPair;
+let otherKeys: CryptoKeyPair;
+
+const encode = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+async function jwt(claims: Record<string, unknown>, { header = {}, signer = keys.privateKey } = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  const input = `${encode({ alg: "ES384", typ: "JWT", kid: "ehr-1", jku: JWKS_URL, ...header })}.${encode({
+    iss: ISSUER,
+    aud: AUDIENCE,
+    iat: now,
+    exp: now + 300,
+    jti: crypto.randomUUID(),
+    ...claims,
+  })}`;
+  const data = new TextEncoder().encode(input);
+  const signature = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-384" }, signer, data);
+  return `Bearer ${input}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+const rejects = (authorization: Promise<string> | string | null, message: string) =>
+  expect(Promise.resolve(authorization).then((a) => verifyCdsClient(a, AUDIENCE))).rejects.toThrow(
+    new CdsAuthError(message)
+  );
+
+beforeAll(async () => {
+  const params = { name: "ECDSA", namedCurve: "P-384" };
+  keys = (await crypto.subtle.generateKey(params, true, ["sign", "verify"])) as CryptoKeyPair;
+  otherKeys = (await crypto.subtle.generateKey(params, true, ["sign", "verify"])) as CryptoKeyPair;
+});
+
+beforeEach(async () => {
+  const jwk = { ...(await crypto.subtle.exportKey("jwk", keys.publicKey)), kid: "ehr-1", alg: "ES384" };
+  vi.stubEnv("CDS_TRUSTED_ISSUERS", JSON.stringify({ [ISSUER]: JWKS_URL }));
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) =>
+      url === JWKS_URL ? Response.json({ keys: [jwk] }) : new Response(null, { status: 404 })
+    )
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("verifyCdsClient", () => {
+  it("accepts a JWT signed by a trusted issuer for this service", async () => {
+    await expect(verifyCdsClient(await jwt({}), AUDIENCE)).resolves.toMatchObject({ iss: ISSUER });
+  });
+
+  it("rejects requests without a bearer token", async () => {
+    await rejects(null, "Missing bearer token");
+    await rejects("Basic abc", "Missing bearer token");
+  });
+
+  it("rejects issuers that are not on the allowlist", async () => {
+    await rejects(jwt({ iss: "https://evil.example" }), "Untrusted issuer");
+    await rejects(jwt({ iss: "constructor" }), "Untrusted issuer");
+  });
+
+  it("rejects a jku other than the registered JWKS URL", async () => {
+    await rejects(
+      jwt({}, { header: { jku: "https://evil.example/jwks.json" } }),
+      "JWKS URL is not the one registered for the issuer"
+    );
+  });
+
+  it("rejects tokens not signed by the issuer's key", async () => {
+    await rejects(jwt({}, { signer: otherKeys.privateKey }), "Invalid signature");
+  });
+
+  it("rejects unsigned tokens", async () => {
+    await rejects(jwt({}, { header: { alg: "none" } }), "Unsupported algorithm none");
+  });
+
+  it("rejects tokens for another audience", async () => {
+    await rejects(jwt({ aud: "https://other.example/cds-services/x" }), "JWT audience is not this service");
+  });
+
+  it("rejects expired tokens", async () => {
+    await rejects(jwt({ exp: Math.floor(Date.now() / 1000) - 600 }), "JWT expired");
+  });
+});
@@ -0,0 +1,119 @@
+import { base64UrlDecode } from "./session";
+
+// CDS Hooks client authentication (https://cds-hooks.hl7.org/1.0/#trusting-cds-clients): the EHR signs a
+// short-lived JWT whose audience is the service endpoint. Only issuers listed in CDS_TRUSTED_ISSUERS,
+// a JSON object mapping each issuer to its JWKS URL, are trusted.
+
+export class CdsAuthError extends Error {}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  jku?: string;
+}
+
+interface JwtClaims {
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  jti?: string;
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+const ALGORITHMS: Record<string, RsaHashedImportParams | EcKeyImportParams> = {
+  RS256: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  RS384: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+  ES256: { name: "ECDSA", namedCurve: "P-256" },
+  ES384: { name: "ECDSA", namedCurve: "P-384" },
+};
+
+// Allowed difference between our clock and the EHR's
+const CLOCK_SKEW_SECONDS = 60;
+const JWKS_TTL_MS = 5 * 60 * 1000;
+
+const jwksCache = new Map<string, { keys: Promise<Jwk[]>; fetchedAt: number }>();
+
+function trustedIssuers(): Record<string, string> {
+  const raw = process.env.CDS_TRUSTED_ISSUERS;
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    throw new CdsAuthError("CDS_TRUSTED_ISSUERS must be a JSON object of issuer to JWKS URL");
+  }
+}
+
+function decodePart<T>(part: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(part))) as T;
+  } catch {
+    throw new CdsAuthError("Malformed JWT");
+  }
+}
+
+function keysFrom(url: string): Promise<Jwk[]> {
+  const cached = jwksCache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_TTL_MS) return cached.keys;
+  const keys = fetch(url, { cache: "no-store" })
+    .catch(() => {
+      throw new CdsAuthError("JWKS could not be fetched");
+    })
+    .then(async (res) => {
+      if (!res.ok) throw new CdsAuthError(`JWKS request failed (${res.status})`);
+      const body = (await res.json().catch(() => null)) as { keys?: Jwk[] } | null;
+      return Array.isArray(body?.keys) ? body.keys : [];
+    });
+  // Retry on the next request rather than caching a failure
+  keys.catch(() => jwksCache.delete(url));
+  jwksCache.set(url, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+/**
+ * Checks the bearer JWT of a CDS Hooks request: a trusted issuer, a signature by one of its keys,
+ * `audience` (the service endpoint URL) and expiry. Throws CdsAuthError when the request is not trusted.
+ */
+export async function verifyCdsClient(authorization: string | null, audience: string): Promise<JwtClaims> {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) throw new CdsAuthError("Missing bearer token");
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!header || !payload || !signature || rest.length > 0) throw new CdsAuthError("Malformed JWT");
+
+  const { alg, kid, jku } = decodePart<JwtHeader>(header);
+  const claims = decodePart<JwtClaims>(payload);
+  const issuers = trustedIssuers();
+  const jwksUrl = claims.iss && Object.hasOwn(issuers, claims.iss) ? issuers[claims.iss] : undefined;
+  if (typeof jwksUrl !== "string") throw new CdsAuthError("Untrusted issuer");
+  if (jku && jku !== jwksUrl) throw new CdsAuthError("JWKS URL is not the one registered for the issuer");
+  const params = alg ? ALGORITHMS[alg] : undefined;
+  if (!params) throw new CdsAuthError(`Unsupported algorithm ${alg}`);
+
+  const jwk = (await keysFrom(jwksUrl)).find((k) => (kid ? k.kid === kid : !k.alg || k.alg === alg));
+  if (!jwk) throw new CdsAuthError("No matching signing key");
+  let valid: boolean;
+  try {
+    const key = await crypto.subtle.importKey("jwk", jwk, params, false, ["verify"]);
+    const verifyParams = params.name === "ECDSA" ? { name: "ECDSA", hash: `SHA-${alg!.slice(2)}` } : params;
+    valid = await crypto.subtle.verify(
+      verifyParams,
+      key,
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+  } catch {
+    throw new CdsAuthError("Signing key could not be used");
+  }
+  if (!valid) throw new CdsAuthError("Invalid signature");
+
+  const now = Date.now() / 1000;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(audience)) throw new CdsAuthError("JWT audience is not this service");
+  if (typeof claims.exp !== "number" || claims.exp < now - CLOCK_SKEW_SECONDS) throw new CdsAuthError("JWT expired");
+  if (typeof claims.iat === "number" && claims.iat > now + CLOCK_SKEW_SECONDS) {
+    throw new CdsAuthError("JWT issued in the future");
+  }
+  return claims;
+}
@@ -0,0 +1,161 @@
+import type { Clinician, Session } from "./session";
+import { base64UrlDecode, base64UrlEncode } from "./session";
+
+// OpenID Connect authorization code flow with PKCE against any issuer with a discovery document.
+// Point AUTH_ISSUER at the hospital IdP, or at the built-in stand-in (/api/mock/oidc) for local development.
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  id_token?: string;
+  expires_in?: number;
+}
+
+export class AuthError extends Error {}
+
+const DEFAULT_SCOPE = "openid profile email";
+const DEFAULT_SESSION_SECONDS = 3600;
+
+const discoveries = new Map<string, Promise<Discovery>>();
+
+function config() {
+  const issuer = process.env.AUTH_ISSUER;
+  const clientId = process.env.AUTH_CLIENT_ID;
+  if (!issuer || !clientId) throw new AuthError("AUTH_ISSUER and AUTH_CLIENT_ID must be set");
+  return {
+    issuer: issuer.replace(/\/$/, ""),
+    clientId,
+    clientSecret: process.env.AUTH_CLIENT_SECRET,
+    scope: process.env.AUTH_SCOPE || DEFAULT_SCOPE,
+  };
+}
+
+export function discover(): Promise<Discovery> {
+  const { issuer } = config();
+  let discovery = discoveries.get(issuer);
+  if (!discovery) {
+    discovery = fetch(`${issuer}/.well-known/openid-configuration`, { cache: "no-store" }).then(async (res) => {
+      if (!res.ok) throw new AuthError(`OIDC discovery failed (${res.status})`);
+      return (await res.json()) as Discovery;
+    });
+    // Retry discovery on the next sign-in rather than caching a failure
+    discovery.catch(() => discoveries.delete(issuer));
+    discoveries.set(issuer, discovery);
+  }
+  return discovery;
+}
+
+/** Callback URL registered with the IdP; NEXT_PUBLIC_APP_URL wins over the request origin behind proxies. */
+export function callbackUrl(req: Request): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || new URL(req.url).origin}/api/auth/callback`;
+}
+
+export async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+export async function authorizationUrl({
+  redirectUri,
+  state,
+  nonce,
+  verifier,
+}: {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  verifier: string;
+}): Promise<string> {
+  const { clientId, scope } = config();
+  const url = new URL((await discover()).authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope,
+    state,
+    nonce,
+    code_challenge: await codeChallenge(verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  return url.toString();
+}
+
+function decodeJwt(token: string): Record<string, unknown> {
+  const payload = token.split(".")[1];
+  if (!payload) throw new AuthError("Malformed ID token");
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+}
+
+function clinicianFrom(claims: Record<string, unknown>): Clinician {
+  const str = (key: string) => (typeof claims[key] === "string" ? (claims[key] as string) : undefined);
+  const sub = str("sub");
+  if (!sub) throw new AuthError("Identity provider did not return a subject");
+  const email = str("email");
+  return { sub, name: str("name") ?? str("preferred_username") ?? email ?? sub, email };
+}
+
+/** Redeems the authorization code and builds the session for the signed-in clinician. */
+export async function exchangeCode({
+  code,
+  redirectUri,
+  verifier,
+  nonce,
+}: {
+  code: string;
+  redirectUri: string;
+  verifier: string;
+  nonce: string;
+}): Promise<Session> {
+  const { clientId, clientSecret, issuer } = config();
+  const discovery = await discover();
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    client_id: clientId,
+    code_verifier: verifier,
+  });
+  if (clientSecret) body.set("client_secret", clientSecret);
+  const res = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body,
+    cache: "no-store",
+  });
+  if (!res.ok) throw new AuthError(`Token exchange failed (${res.status})`);
+  const tokens = (await res.json()) as TokenResponse;
+  if (!tokens.access_token) throw new AuthError("Identity provider did not return an access token");
+
+  // The ID token comes straight from the token endpoint over TLS, so its signature is not
+  // re-checked (OIDC Core 3.1.3.7); issuer, audience and nonce still are.
+  let claims: Record<string, unknown>;
+  if (tokens.id_token) {
+    claims = decodeJwt(tokens.id_token);
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (String(claims.iss).replace(/\/$/, "") !== issuer) throw new AuthError("ID token issuer mismatch");
+    if (!audience.includes(clientId)) throw new AuthError("ID token audience mismatch");
+    if (claims.nonce !== nonce) throw new AuthError("ID token nonce mismatch");
+  } else if (discovery.userinfo_endpoint) {
+    const info = await fetch(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+      cache: "no-store",
+    });
+    if (!info.ok) throw new AuthError(`Userinfo request failed (${info.status})`);
+    claims = await info.json();
+  } else {
+    throw new AuthError("Identity provider returned neither an ID token nor a userinfo endpoint");
+  }
+
+  return {
+    user: clinicianFrom(claims),
+    accessToken: tokens.access_token,
+    expiresAt: Date.now() + (tokens.expires_in ?? DEFAULT_SESSION_SECONDS) * 1000,
+  };
+}
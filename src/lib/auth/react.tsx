@@ -0,0 +1,46 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import { setAccessToken } from "../api";
+import type { Clinician, Session } from "./session";
+
+export type AuthStatus = "loading" | "disabled" | "signedIn" | "signedOut";
+
+interface AuthContextValue {
+  status: AuthStatus;
+  user: Clinician | null;
+}
+
+const AuthContext = createContext<AuthContextValue>({ status: "loading", user: null });
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [value, setValue] = useState<AuthContextValue>({ status: "loading", user: null });
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then((res) => res.json() as Promise<{ enabled: boolean; session: Session | null }>)
+      .then(({ enabled, session }) => {
+        setAccessToken(session?.accessToken ?? null);
+        if (cancelled) return;
+        setValue({
+          status: !enabled ? "disabled" : session ? "signedIn" : "signedOut",
+          user: session?.user ?? null,
+        });
+      })
+      .catch(() => {
+        // Let API calls waiting for the session go ahead without a token
+        setAccessToken(null);
+        if (!cancelled) setValue({ status: "signedOut", user: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  return useContext(AuthContext);
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { safeNext } from "./session";
+
+describe("safeNext", () => {
+  it("keeps same-origin paths", () => {
+    expect(safeNext("/results/abc?tab=genes#top")).toBe("/results/abc?tab=genes#top");
+    expect(safeNext("/")).toBe("/");
+  });
+
+  it.each([null, undefined, "", "results", "https://evil.com/", "//evil.com", "/\\evil.com", "/\\/evil.com", "/\t/evil.com"])(
+    "rejects %j",
+    (next) => {
+      expect(safeNext(next)).toBe("/");
+    }
+  );
+
+  it("does not redirect off-site once resolved against the app URL", () => {
+    const base = "https://app.example/api/auth/callback";
+    for (const next of ["/\\evil.com", "/%5Cevil.com", "/..//evil.com", "/\n/evil.com"]) {
+      expect(new URL(safeNext(next), base).origin).toBe("https://app.example");
+    }
+  });
+});
@@ -0,0 +1,118 @@
+// Signed cookies for the clinician session. Uses Web Crypto only, so it also runs in middleware (Edge runtime).
+
+export const SESSION_COOKIE = "pharmaguard-session";
+export const LOGIN_COOKIE = "pharmaguard-login";
+
+/** Auth is enabled by configuring an OIDC issuer; without one the app stays open, as before. */
+export const AUTH_ENABLED = Boolean(process.env.AUTH_ISSUER);
+
+export interface Clinician {
+  sub: string;
+  name: string;
+  email?: string;
+}
+
+export interface Session {
+  user: Clinician;
+  /** Bearer token for backend API calls */
+  accessToken: string;
+  /** Expiry, epoch milliseconds */
+  expiresAt: number;
+}
+
+/** State carried through the IdP redirect, bound to the browser by a short-lived cookie. */
+export interface LoginState {
+  state: string;
+  nonce: string;
+  verifier: string;
+  next: string;
+  expiresAt: number;
+}
+
+export function cookieOptions(maxAgeSeconds: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge: maxAgeSeconds,
+  };
+}
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function randomToken(bytes = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+function secret(): string {
+  const value = process.env.AUTH_SECRET;
+  if (!value) throw new Error("AUTH_SECRET must be set when AUTH_ISSUER is configured");
+  return value;
+}
+
+function hmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", encoder.encode(secret()), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+/** Serializes a value as `payload.signature`; the payload is readable, only tampering is prevented. */
+export async function sign(value: unknown): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(value)));
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(), encoder.encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/** The signed value, or null when the token is missing, malformed or was not signed with AUTH_SECRET. */
+export async function verify<T>(token: string | undefined): Promise<T | null> {
+  if (!token) return null;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+  try {
+    const key = await hmacKey();
+    const valid = await crypto.subtle.verify("HMAC", key, base64UrlDecode(signature), encoder.encode(payload));
+    return valid ? (JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function readSession(token: string | undefined): Promise<Session | null> {
+  const session = await verify<Session>(token);
+  return session && session.expiresAt > Date.now() ? session : null;
+}
+
+// Any origin will do: only whether a path stays on it matters
+const NEXT_BASE = new URL("https://pharmaguard.invalid");
+
+/**
+ * Only same-origin paths are accepted as post-login destinations. The path is resolved the way the
+ * redirect will be, so "//host", "/\host" and control characters cannot lead off-site.
+ */
+export function safeNext(next: string | null | undefined): string {
+  if (!next?.startsWith("/")) return "/";
+  try {
+    const url = new URL(next, NEXT_BASE);
+    const path = url.pathname + url.search + url.hash;
+    // "/..//host" normalizes to a protocol-relative "//host"
+    return url.origin === NEXT_BASE.origin && !path.startsWith("//") ? path : "/";
+  } catch {
+    return "/";
+  }
+}
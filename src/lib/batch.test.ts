@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import type { BatchJob } from "./batch";
+import { cohortCsv, cohortRows } from "./batch";
+
+const job: BatchJob = {
+  id: "1",
+  file: new File([""], "jane_doe.vcf"),
+  status: "done",
+  progress: 1,
+  analysis: {
+    patient_id: "JANE_DOE_1984",
+    analysis_id: "analysis-42",
+    timestamp: "2026-01-05T10:00:00.000Z",
+    results: [
+      {
+        drug: "CODEINE",
+        risk_assessment: { risk_label: "Toxic", confidence_score: 0.9, severity: "high" },
+        clinical_recommendation: { action: "Avoid codeine" },
+      },
+    ],
+  },
+};
+
+describe("cohortCsv", () => {
+  it("exports file names and real identifiers", () => {
+    const csv = cohortCsv(cohortRows([job]), ["CODEINE"]);
+    expect(csv.split(/\r?\n/).slice(0, 2)).toEqual([
+      "file,patient_id,analysis_id,CODEINE",
+      "jane_doe.vcf,JANE_DOE_1984,analysis-42,Toxic",
+    ]);
+  });
+
+  it("pseudonymizes identifiers and leaves out file names when de-identified", () => {
+    const rows = cohortRows([job], true);
+    const csv = cohortCsv(rows, ["CODEINE"], true);
+    expect(csv).not.toMatch(/jane_doe|JANE_DOE_1984|analysis-42/i);
+    expect(csv.split(/\r?\n/)[0]).toBe("patient_id,analysis_id,CODEINE");
+    expect(rows[0].analysisId).toBe("analysis-42");
+  });
+});
@@ -0,0 +1,119 @@
+import type { AnalysisResponse, RiskAssessment } from "./api";
+import { toCsv } from "./csv";
+import { deidentifyAnalysis } from "./deidentify";
+
+export const BATCH_CONCURRENCY = 3;
+
+export type JobStatus = "queued" | "preparing" | "analyzing" | "done" | "failed" | "cancelled";
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: JobStatus;
+  /** 0–1; filtering covers the first half, the upload/analysis the rest */
+  progress: number;
+  error?: string;
+  analysis?: AnalysisResponse;
+}
+
+/** Runs async tasks with at most `concurrency` in flight; later additions join the same queue. */
+export class TaskQueue {
+  private pending: (() => Promise<void>)[] = [];
+  private active = 0;
+
+  constructor(private readonly concurrency: number) {}
+
+  add(task: () => Promise<void>) {
+    this.pending.push(task);
+    this.next();
+  }
+
+  /** Drops tasks that have not started yet. */
+  clear() {
+    this.pending = [];
+  }
+
+  private next() {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const task = this.pending.shift()!;
+      this.active++;
+      task()
+        .catch(() => {})
+        .finally(() => {
+          this.active--;
+          this.next();
+        });
+    }
+  }
+}
+
+export function isVcfFile(file: File): boolean {
+  return /\.vcf(\.b?gz)?$/i.test(file.name);
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function entryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file((f) => resolve([f]), reject));
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns results in chunks until it yields an empty list
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) files.push(...(await entryFiles(child)));
+  }
+  return files;
+}
+
+/** VCF files from a drop, descending into dropped folders. */
+export async function filesFromDataTransfer(data: DataTransfer): Promise<File[]> {
+  const entries = Array.from(data.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+  const files = entries.length
+    ? (await Promise.all(entries.map(entryFiles))).flat()
+    : Array.from(data.files);
+  return files.filter(isVcfFile);
+}
+
+export interface CohortRow {
+  job: BatchJob;
+  /** Real analysis ID, for links */
+  analysisId: string;
+  /** The analysis as shown and exported, pseudonymized when de-identified */
+  analysis: AnalysisResponse;
+  /** Risk label per drug; missing when the drug wasn't analyzed */
+  risks: Record<string, RiskAssessment["risk_label"]>;
+}
+
+export function cohortRows(jobs: BatchJob[], deidentified = false): CohortRow[] {
+  return jobs
+    .filter((j): j is BatchJob & { analysis: AnalysisResponse } => !!j.analysis)
+    .map((job) => ({
+      job,
+      analysisId: job.analysis.analysis_id,
+      analysis: deidentified ? deidentifyAnalysis(job.analysis) : job.analysis,
+      risks: Object.fromEntries(job.analysis.results.map((r) => [r.drug, r.risk_assessment.risk_label])),
+    }));
+}
+
+export function cohortDrugs(rows: CohortRow[]): string[] {
+  return Array.from(new Set(rows.flatMap((r) => Object.keys(r.risks)))).sort();
+}
+
+/** File names can identify patients, so de-identified exports leave them out. */
+export function cohortCsv(rows: CohortRow[], drugs: string[], deidentified = false): string {
+  const file = (name: string) => (deidentified ? [] : [name]);
+  return toCsv([
+    [...file("file"), "patient_id", "analysis_id", ...drugs],
+    ...rows.map((r) => [
+      ...file(r.job.file.name),
+      r.analysis.patient_id,
+      r.analysis.analysis_id,
+      ...drugs.map((d) => r.risks[d] ?? ""),
+    ]),
+  ]);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResponse } from "./api";
+import { buildCards } from "./cds";
+
+const RXNORM = "http://www.nlm.nih.gov/research/umls/rxnorm";
+
+const ANALYSIS: AnalysisResponse = {
+  patient_id: "PATIENT_001",
+  analysis_id: "analysis-1",
+  timestamp: "2026-01-05T10:00:00.000Z",
+  results: ["CLOPIDOGREL", "WARFARIN"].map((drug) => ({
+    drug,
+    risk_assessment: { risk_label: "Ineffective", confidence_score: 0.9, severity: "high" },
+    clinical_recommendation: { action: `Avoid ${drug.toLowerCase()}` },
+  })),
+};
+
+const cardsFor = (...concepts: object[]) =>
+  buildCards(
+    ANALYSIS,
+    concepts.map((medicationCodeableConcept, i) => ({
+      resourceType: "MedicationRequest",
+      id: String(i),
+      medicationCodeableConcept,
+    })),
+    "https://app.example"
+  ).map((c) => c.summary.split(":")[0]);
+
+describe("buildCards", () => {
+  it("matches orders by generic name", () => {
+    expect(cardsFor({ text: "Clopidogrel 75 MG Oral Tablet" })).toEqual(["CLOPIDOGREL"]);
+  });
+
+  it("matches orders by brand name", () => {
+    expect(cardsFor({ text: "Plavix 75 mg" }, { coding: [{ display: "Coumadin 5 MG" }] })).toEqual([
+      "CLOPIDOGREL",
+      "WARFARIN",
+    ]);
+  });
+
+  it("matches orders coded only with an RxNorm ingredient", () => {
+    expect(cardsFor({ coding: [{ system: RXNORM, code: "11289" }] })).toEqual(["WARFARIN"]);
+  });
+
+  it("ignores drugs that were not analyzed", () => {
+    expect(cardsFor({ text: "Lisinopril 10 MG" }, { coding: [{ system: RXNORM, code: "2670" }] })).toEqual([]);
+  });
+});
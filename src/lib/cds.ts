@@ -0,0 +1,188 @@
+import type { AnalysisResponse, DrugAnalysisResult, RiskAssessment, UnsupportedDrugResult } from "./api";
+import type { FhirCodeableConcept } from "./medications";
+import { normalizeConcept } from "./medications";
+import { MOCK_ENABLED, mockState } from "./mock/server";
+import { parseAnalysisResponse } from "./schema";
+
+// CDS Hooks 1.0 service definitions and card building (https://cds-hooks.hl7.org)
+
+export type Indicator = "info" | "warning" | "critical";
+
+export interface CdsService {
+  id: string;
+  hook: "order-select" | "order-sign";
+  title: string;
+  description: string;
+  prefetch?: Record<string, string>;
+}
+
+export interface Card {
+  uuid: string;
+  summary: string;
+  detail?: string;
+  indicator: Indicator;
+  source: { label: string; url?: string };
+  suggestions?: Suggestion[];
+  selectionBehavior?: "at-most-one" | "any";
+  links?: { label: string; url: string; type: "absolute" | "smart" }[];
+}
+
+interface Suggestion {
+  label: string;
+  uuid: string;
+  actions?: { type: "create" | "update" | "delete"; description: string; resource?: unknown; resourceId?: string }[];
+}
+
+export interface HookRequest {
+  hook: string;
+  hookInstance: string;
+  context: {
+    patientId?: string;
+    selections?: string[];
+    draftOrders?: { resourceType?: string; entry?: { resource?: FhirOrder }[] };
+  };
+}
+
+interface FhirOrder {
+  resourceType?: string;
+  id?: string;
+  medicationCodeableConcept?: FhirCodeableConcept;
+}
+
+export const CDS_SERVICES: CdsService[] = [
+  {
+    id: "pharmaguard-order-select",
+    hook: "order-select",
+    title: "PharmaGuard pharmacogenomic check",
+    description: "Flags selected medications with pharmacogenomic risk in the patient's latest PharmaGuard analysis.",
+  },
+  {
+    id: "pharmaguard-order-sign",
+    hook: "order-sign",
+    title: "PharmaGuard pharmacogenomic check on signing",
+    description: "Re-checks orders being signed against the patient's latest PharmaGuard analysis.",
+  },
+];
+
+const SOURCE_LABEL = "PharmaGuard";
+
+/**
+ * The patient's most recent analysis. Uses the mock store when the mock backend is on;
+ * otherwise CDS_ANALYSIS_LOOKUP_URL (with a {patientId} placeholder) must return one.
+ */
+export async function latestAnalysisFor(patientId: string): Promise<AnalysisResponse | null> {
+  if (MOCK_ENABLED) {
+    const matches = Array.from(mockState().analyses.values()).filter((a) => a.patient_id === patientId);
+    return matches.sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0] ?? null;
+  }
+  const template = process.env.CDS_ANALYSIS_LOOKUP_URL;
+  if (!template) return null;
+  const res = await fetch(template.replace("{patientId}", encodeURIComponent(patientId)), { cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Analysis lookup failed: ${res.status}`);
+  return parseAnalysisResponse(await res.json()).analysis;
+}
+
+function orderName(order: FhirOrder): string {
+  const concept = order.medicationCodeableConcept;
+  return concept?.text ?? concept?.coding?.find((c) => c.display)?.display ?? "";
+}
+
+/** Medication orders the hook should check: the selected ones for order-select, all for order-sign. */
+export function ordersToCheck(req: HookRequest): FhirOrder[] {
+  const orders = (req.context.draftOrders?.entry ?? [])
+    .map((e) => e.resource)
+    .filter((r): r is FhirOrder => r?.resourceType === "MedicationRequest");
+  if (req.hook !== "order-select" || !req.context.selections) return orders;
+  const selected = new Set(req.context.selections);
+  return orders.filter((o) => selected.has(`MedicationRequest/${o.id}`));
+}
+
+function indicatorFor(severity: RiskAssessment["severity"]): Indicator | null {
+  switch (severity) {
+    case "critical":
+    case "high":
+      return "critical";
+    case "moderate":
+    case "low":
+      return "warning";
+    case "unknown":
+      return "info";
+    default:
+      return null;
+  }
+}
+
+/** The analyzed drug an order is for, by RxNorm code, generic or brand name. */
+function matchResult(
+  analysis: AnalysisResponse,
+  order: FhirOrder
+): DrugAnalysisResult | UnsupportedDrugResult | undefined {
+  const drug = normalizeConcept(order.medicationCodeableConcept, analysis.results.map((r) => r.drug));
+  return drug ? analysis.results.find((r) => r.drug === drug) : undefined;
+}
+
+function suggestions(order: FhirOrder, alternatives: string[]): Suggestion[] {
+  return alternatives.map((alt) => ({
+    label: `Replace with ${alt}`,
+    uuid: crypto.randomUUID(),
+    actions: [
+      ...(order.id
+        ? [{ type: "delete" as const, description: `Remove ${orderName(order)}`, resourceId: `MedicationRequest/${order.id}` }]
+        : []),
+      {
+        type: "create" as const,
+        description: `Order ${alt}`,
+        resource: {
+          resourceType: "MedicationRequest",
+          status: "draft",
+          intent: "proposal",
+          medicationCodeableConcept: { text: alt },
+        },
+      },
+    ],
+  }));
+}
+
+/** One card per ordered drug with an actionable result in the analysis. */
+export function buildCards(analysis: AnalysisResponse, orders: FhirOrder[], appUrl: string): Card[] {
+  const resultsUrl = `${appUrl}/results/${encodeURIComponent(analysis.analysis_id)}`;
+  const cards: Card[] = [];
+  for (const order of orders) {
+    const result = matchResult(analysis, order);
+    if (!result) continue;
+    const { risk_label, severity, rationale } = result.risk_assessment;
+    const indicator = indicatorFor(severity);
+    if (!indicator) continue;
+    const rec = result.clinical_recommendation;
+    const profile = "pharmacogenomic_profile" in result ? result.pharmacogenomic_profile : null;
+    const detail = [
+      rec.action,
+      profile && `**${profile.gene} ${profile.diplotype}** (${profile.phenotype})`,
+      rec.dose_adjustment && `Dose adjustment: ${rec.dose_adjustment}`,
+      rec.monitoring && `Monitoring: ${rec.monitoring}`,
+      rationale,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    const alternatives = rec.alternative_drugs ?? [];
+    cards.push({
+      uuid: crypto.randomUUID(),
+      summary: `${result.drug}: ${risk_label} (${severity} severity)`.slice(0, 140),
+      detail,
+      indicator,
+      source: { label: SOURCE_LABEL, url: resultsUrl },
+      ...(alternatives.length
+        ? { suggestions: suggestions(order, alternatives), selectionBehavior: "at-most-one" as const }
+        : {}),
+      links: [{ label: "View PharmaGuard analysis", url: resultsUrl, type: "absolute" }],
+    });
+  }
+  return cards;
+}
+
+export const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
@@ -0,0 +1,108 @@
+import type { AnalysisResponse, DrugAnalysisResult, UnsupportedDrugResult } from "./api";
+
+type AnyResult = DrugAnalysisResult | UnsupportedDrugResult;
+
+export type ChangeKind = "changed" | "added" | "removed" | "unchanged";
+
+export interface FieldDiff {
+  /** Dotted path within the drug result, e.g. "pharmacogenomic_profile.diplotype" */
+  path: string;
+  before: unknown;
+  after: unknown;
+  changed: boolean;
+  /** For list fields: items only in the second analysis */
+  added?: string[];
+  /** For list fields: items only in the first analysis */
+  removed?: string[];
+}
+
+export interface DrugDiff {
+  drug: string;
+  kind: ChangeKind;
+  fields: FieldDiff[];
+}
+
+export interface AnalysisRef {
+  analysis_id: string;
+  patient_id: string;
+  timestamp: string;
+}
+
+export interface AnalysisDiff {
+  before: AnalysisRef;
+  after: AnalysisRef;
+  summary: Record<ChangeKind, string[]>;
+  drugs: DrugDiff[];
+}
+
+// Sections compared field by field; llm_explanation is free text and deliberately left out
+export const COMPARED_SECTIONS = [
+  "pharmacogenomic_profile",
+  "risk_assessment",
+  "clinical_recommendation",
+  "quality_metrics",
+] as const;
+
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>) {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value)) flatten(v, prefix ? `${prefix}.${k}` : k, out);
+  } else {
+    out.set(prefix, value ?? null);
+  }
+}
+
+function fieldsOf(result: AnyResult | undefined): Map<string, unknown> {
+  const out = new Map<string, unknown>();
+  if (!result) return out;
+  const sections = result as unknown as Record<string, unknown>;
+  for (const section of COMPARED_SECTIONS) {
+    if (section in sections) flatten(sections[section], section, out);
+  }
+  return out;
+}
+
+function diffField(path: string, before: unknown, after: unknown): FieldDiff {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const a = ((before as unknown[]) ?? []).map(String);
+    const b = ((after as unknown[]) ?? []).map(String);
+    const added = b.filter((x) => !a.includes(x));
+    const removed = a.filter((x) => !b.includes(x));
+    return { path, before, after, changed: added.length + removed.length > 0, added, removed };
+  }
+  return { path, before, after, changed: JSON.stringify(before) !== JSON.stringify(after) };
+}
+
+function diffDrug(drug: string, before: AnyResult | undefined, after: AnyResult | undefined): DrugDiff {
+  const a = fieldsOf(before);
+  const b = fieldsOf(after);
+  const paths = Array.from(new Set([...Array.from(a.keys()), ...Array.from(b.keys())]));
+  const fields = paths.map((p) => diffField(p, a.get(p) ?? null, b.get(p) ?? null));
+  const kind: ChangeKind = !before
+    ? "added"
+    : !after
+      ? "removed"
+      : fields.some((f) => f.changed)
+        ? "changed"
+        : "unchanged";
+  return { drug, kind, fields };
+}
+
+const ref = (a: AnalysisResponse): AnalysisRef => ({
+  analysis_id: a.analysis_id,
+  patient_id: a.patient_id,
+  timestamp: a.timestamp,
+});
+
+/** Aligns two analyses per drug (case-insensitively) and diffs every compared field. */
+export function diffAnalyses(before: AnalysisResponse, after: AnalysisResponse): AnalysisDiff {
+  const byDrug = (a: AnalysisResponse) =>
+    new Map(a.results.map((r) => [r.drug.toUpperCase(), r] as [string, AnyResult]));
+  const a = byDrug(before);
+  const b = byDrug(after);
+  const keys = Array.from(new Set([...Array.from(a.keys()), ...Array.from(b.keys())])).sort();
+
+  const drugs = keys.map((k) => diffDrug((b.get(k) ?? a.get(k))!.drug, a.get(k), b.get(k)));
+  const summary: Record<ChangeKind, string[]> = { changed: [], added: [], removed: [], unchanged: [] };
+  for (const d of drugs) summary[d.kind].push(d.drug);
+  return { before: ref(before), after: ref(after), summary, drugs };
+}
@@ -0,0 +1,186 @@
+import type { DiplotypeAllele } from "../variants";
+
+// Simplified from the CPIC allele functionality and diplotype-phenotype tables; common alleles only
+
+export type AlleleFunction = "increased" | "normal" | "decreased" | "no";
+
+export type PhenotypeCategory = "poor" | "intermediate" | "normal" | "rapid" | "ultrarapid" | "indeterminate";
+
+export interface AlleleDefinition {
+  function: AlleleFunction;
+  /** Activity value for genes scored by activity (CYP2D6, CYP2C9, DPYD) */
+  activity?: number;
+}
+
+export interface GeneDefinition {
+  gene: string;
+  alleles: Record<string, AlleleDefinition>;
+  /** Phenotype is derived from the summed activity score rather than allele function */
+  scored: boolean;
+  /** Duplications change the phenotype, so copy number is adjustable */
+  copyNumberVariable: boolean;
+  /** Phenotype names; transporter genes use "Function" rather than "Metabolizer" */
+  names: Partial<Record<PhenotypeCategory, string>>;
+}
+
+const METABOLIZER: GeneDefinition["names"] = {
+  poor: "Poor Metabolizer",
+  intermediate: "Intermediate Metabolizer",
+  normal: "Normal Metabolizer",
+  rapid: "Rapid Metabolizer",
+  ultrarapid: "Ultrarapid Metabolizer",
+  indeterminate: "Indeterminate",
+};
+
+const fn = (f: AlleleFunction, activity?: number): AlleleDefinition => ({ function: f, activity });
+
+export const GENES: Record<string, GeneDefinition> = {
+  CYP2D6: {
+    gene: "CYP2D6",
+    scored: true,
+    copyNumberVariable: true,
+    names: METABOLIZER,
+    alleles: {
+      "*1": fn("normal", 1),
+      "*2": fn("normal", 1),
+      "*3": fn("no", 0),
+      "*4": fn("no", 0),
+      "*5": fn("no", 0),
+      "*6": fn("no", 0),
+      "*9": fn("decreased", 0.5),
+      "*10": fn("decreased", 0.25),
+      "*17": fn("decreased", 0.5),
+      "*29": fn("decreased", 0.5),
+      "*35": fn("normal", 1),
+      "*41": fn("decreased", 0.5),
+    },
+  },
+  CYP2C19: {
+    gene: "CYP2C19",
+    scored: false,
+    copyNumberVariable: false,
+    names: METABOLIZER,
+    alleles: {
+      "*1": fn("normal"),
+      "*2": fn("no"),
+      "*3": fn("no"),
+      "*4": fn("no"),
+      "*8": fn("no"),
+      "*9": fn("decreased"),
+      "*17": fn("increased"),
+    },
+  },
+  CYP2C9: {
+    gene: "CYP2C9",
+    scored: true,
+    copyNumberVariable: false,
+    names: METABOLIZER,
+    alleles: {
+      "*1": fn("normal", 1),
+      "*2": fn("decreased", 0.5),
+      "*3": fn("no", 0),
+      "*5": fn("decreased", 0.5),
+      "*6": fn("no", 0),
+      "*8": fn("decreased", 0.5),
+      "*11": fn("decreased", 0.5),
+    },
+  },
+  SLCO1B1: {
+    gene: "SLCO1B1",
+    scored: false,
+    copyNumberVariable: false,
+    names: {
+      poor: "Poor Function",
+      intermediate: "Decreased Function",
+      normal: "Normal Function",
+      rapid: "Increased Function",
+      indeterminate: "Indeterminate",
+    },
+    alleles: {
+      "*1": fn("normal"),
+      "*5": fn("no"),
+      "*9": fn("decreased"),
+      "*14": fn("increased"),
+      "*15": fn("no"),
+      "*37": fn("normal"),
+    },
+  },
+  TPMT: {
+    gene: "TPMT",
+    scored: false,
+    copyNumberVariable: false,
+    names: METABOLIZER,
+    alleles: {
+      "*1": fn("normal"),
+      "*2": fn("no"),
+      "*3A": fn("no"),
+      "*3B": fn("no"),
+      "*3C": fn("no"),
+      "*4": fn("no"),
+    },
+  },
+  DPYD: {
+    gene: "DPYD",
+    scored: true,
+    copyNumberVariable: false,
+    names: METABOLIZER,
+    alleles: {
+      "*1": fn("normal", 1),
+      "*2A": fn("no", 0),
+      "*13": fn("no", 0),
+      "c.2846A>T": fn("decreased", 0.5),
+      "c.1129-5923C>G": fn("decreased", 0.5),
+    },
+  },
+};
+
+export interface Phenotype {
+  category: PhenotypeCategory;
+  name: string;
+  activityScore: number | null;
+}
+
+function categoryFromScore(gene: string, score: number): PhenotypeCategory {
+  if (gene === "CYP2D6") {
+    if (score === 0) return "poor";
+    if (score <= 1) return "intermediate";
+    if (score <= 2.25) return "normal";
+    return "ultrarapid";
+  }
+  if (score >= 2) return "normal";
+  if (score >= 1) return "intermediate";
+  return "poor";
+}
+
+function categoryFromFunction(gene: string, functions: AlleleFunction[]): PhenotypeCategory {
+  const count = (f: AlleleFunction) => functions.filter((x) => x === f).length;
+  const no = count("no");
+  const decreased = count("decreased");
+  const increased = count("increased");
+  if (no === 2 || (no === 1 && decreased === 1)) return "poor";
+  if (no === 1 || decreased > 0) return "intermediate";
+  // Increased-function alleles only change CYP2C19 and SLCO1B1 phenotypes
+  if (increased === 2 && gene === "CYP2C19") return "ultrarapid";
+  if (increased > 0) return "rapid";
+  return "normal";
+}
+
+/**
+ * Phenotype for a diplotype. Alleles missing from the table give "indeterminate", as does
+ * anything other than two haplotypes. Copies multiply activity for scored genes.
+ */
+export function phenotypeFor(gene: string, alleles: DiplotypeAllele[]): Phenotype | null {
+  const def = GENES[gene];
+  if (!def) return null;
+  const indeterminate: Phenotype = { category: "indeterminate", name: def.names.indeterminate!, activityScore: null };
+  const known = alleles.map((a) => def.alleles[a.name]);
+  if (alleles.length !== 2 || known.some((k) => !k)) return indeterminate;
+
+  if (def.scored) {
+    const score = alleles.reduce((sum, a, i) => sum + (known[i].activity ?? 0) * (a.copies ?? 2), 0);
+    const category = categoryFromScore(gene, score);
+    return { category, name: def.names[category] ?? def.names.indeterminate!, activityScore: score };
+  }
+  const category = categoryFromFunction(gene, known.map((k) => k.function));
+  return { category, name: def.names[category] ?? def.names.normal!, activityScore: null };
+}
@@ -0,0 +1,97 @@
+import type { ClinicalRecommendation, DrugAnalysisResult, RiskAssessment } from "../api";
+import type { DiplotypeAllele } from "../variants";
+import { DELETION_ALLELES, parseDiplotype, parseVariant } from "../variants";
+import type { GeneDefinition } from "./alleles";
+import { GENES, phenotypeFor } from "./alleles";
+import type { Vkorc1Genotype } from "./rules";
+import { DRUG_RULES, INDETERMINATE, warfarinCategory } from "./rules";
+
+export type { PhenotypeCategory } from "./alleles";
+export type { Vkorc1Genotype } from "./rules";
+
+// Client-side what-if engine: diplotype → activity score → phenotype → recommendation. It never
+// replaces the backend's answer; results are only shown next to it, marked as simulated.
+
+export interface SimulationInput {
+  alleles: DiplotypeAllele[];
+  /** VKORC1 -1639G>A genotype; only used for warfarin */
+  vkorc1?: Vkorc1Genotype;
+}
+
+export interface Simulation {
+  drug: string;
+  gene: string;
+  diplotype: string;
+  copyNumber: number;
+  activityScore: number | null;
+  phenotype: string;
+  risk: Omit<RiskAssessment, "confidence_score">;
+  recommendation: ClinicalRecommendation;
+}
+
+export function geneDefinition(drug: string): GeneDefinition | null {
+  const rule = DRUG_RULES[drug.toUpperCase()];
+  return rule ? GENES[rule.gene] ?? null : null;
+}
+
+export function canSimulate(drug: string): boolean {
+  return geneDefinition(drug) !== null;
+}
+
+export function formatDiplotype(alleles: DiplotypeAllele[]): string {
+  return alleles
+    .map((a) => (a.copies === 1 ? a.name : `${a.name}x${a.copies ?? "N"}`))
+    .join("/");
+}
+
+function copyNumberOf(gene: string, alleles: DiplotypeAllele[]): number {
+  return alleles.reduce((n, a) => n + (a.name === DELETION_ALLELES[gene] ? 0 : a.copies ?? 2), 0);
+}
+
+/** Starting point for the simulator: the backend's diplotype, with its reported copy number applied. */
+export function initialInput(result: DrugAnalysisResult): SimulationInput {
+  const profile = result.pharmacogenomic_profile;
+  const alleles = parseDiplotype(profile.diplotype).map((a) => ({ ...a, copies: a.copies ?? 2 }));
+  while (alleles.length < 2) alleles.push({ name: "*1", copies: 1 });
+  const def = GENES[profile.gene];
+  const extra = (profile.copy_number ?? 0) - copyNumberOf(profile.gene, alleles);
+  // A duplication reported only as copy_number is assigned to the first allele
+  if (def?.copyNumberVariable && extra > 0 && alleles.every((a) => a.copies === 1)) {
+    alleles[0] = { ...alleles[0], copies: 1 + extra };
+  }
+
+  return { alleles: alleles.slice(0, 2), vkorc1: vkorc1Genotype(result) ?? "GG" };
+}
+
+/**
+ * VKORC1 -1639G>A genotype from a warfarin result: the rs9923231 variant or the interaction
+ * warning that mentions it. Null when neither is present, which may mean G/G or not genotyped.
+ */
+export function vkorc1Genotype(result: DrugAnalysisResult): Vkorc1Genotype | null {
+  const rs = result.pharmacogenomic_profile.detected_variants
+    .map((v) => parseVariant(v))
+    .find((v) => v.rsid === "rs9923231");
+  if (rs) return rs.zygosity === "hom" ? "AA" : "GA";
+  const warning = result.quality_metrics.interaction_warning ?? "";
+  if (!/rs9923231/.test(warning)) return null;
+  return /\bhomozygous/i.test(warning) ? "AA" : "GA";
+}
+
+export function simulate(drug: string, { alleles, vkorc1 = "GG" }: SimulationInput): Simulation | null {
+  const key = drug.toUpperCase();
+  const rule = DRUG_RULES[key];
+  const phenotype = rule && phenotypeFor(rule.gene, alleles);
+  if (!rule || !phenotype) return null;
+  const category = key === "WARFARIN" ? warfarinCategory(phenotype.category, vkorc1) : phenotype.category;
+  const result = category === "indeterminate" ? INDETERMINATE : rule.outcomes[category] ?? rule.outcomes.normal;
+  return {
+    drug,
+    gene: rule.gene,
+    diplotype: formatDiplotype(alleles),
+    copyNumber: copyNumberOf(rule.gene, alleles),
+    activityScore: phenotype.activityScore,
+    phenotype: phenotype.name,
+    risk: result.risk,
+    recommendation: result.recommendation,
+  };
+}
@@ -0,0 +1,144 @@
+import type { ClinicalRecommendation, RiskAssessment } from "../api";
+import type { PhenotypeCategory } from "./alleles";
+
+export interface RuleOutcome {
+  risk: Omit<RiskAssessment, "confidence_score">;
+  recommendation: ClinicalRecommendation;
+}
+
+export interface DrugRule {
+  gene: string;
+  /** Categories without an entry fall back to "normal" (e.g. CYP2C19 rapid metabolizers on clopidogrel) */
+  outcomes: Partial<Record<PhenotypeCategory, RuleOutcome>> & { normal: RuleOutcome };
+}
+
+const outcome = (
+  risk_label: RiskAssessment["risk_label"],
+  severity: RiskAssessment["severity"],
+  rationale: string,
+  action: string,
+  rest: Omit<ClinicalRecommendation, "action"> = {}
+): RuleOutcome => ({
+  risk: { risk_label, severity, rationale },
+  recommendation: { action, dose_adjustment: null, monitoring: null, alternative_drugs: null, ...rest },
+});
+
+export const INDETERMINATE = outcome(
+  "Unknown",
+  "unknown",
+  "The diplotype includes alleles of unknown function, so no phenotype can be assigned.",
+  "No genotype-guided recommendation; use standard clinical judgement."
+);
+
+// Keys are upper-case drug names, as the backend reports them
+export const DRUG_RULES: Record<string, DrugRule> = {
+  CODEINE: {
+    gene: "CYP2D6",
+    outcomes: {
+      normal: outcome("Safe", "none", "Normal CYP2D6 activity; expected morphine formation.",
+        "Use label-recommended age- or weight-specific dosing."),
+      intermediate: outcome("Adjust Dosage", "moderate", "Reduced CYP2D6 activity lowers morphine formation.",
+        "Use label-recommended dosing; if no response, consider a non-CYP2D6 opioid.", {
+          monitoring: "Monitor analgesic response closely.",
+          alternative_drugs: ["Morphine", "Hydromorphone", "Non-opioid analgesics"],
+        }),
+      poor: outcome("Ineffective", "high", "No functional CYP2D6; codeine is not activated.",
+        "Avoid codeine due to lack of efficacy.", { alternative_drugs: ["Morphine", "Non-opioid analgesics"] }),
+      ultrarapid: outcome("Toxic", "critical", "Increased CYP2D6 activity causes rapid morphine accumulation.",
+        "Avoid codeine due to potential for serious toxicity.", {
+          alternative_drugs: ["Morphine", "Non-opioid analgesics"],
+        }),
+    },
+  },
+  CLOPIDOGREL: {
+    gene: "CYP2C19",
+    outcomes: {
+      normal: outcome("Safe", "none", "Normal clopidogrel activation expected.", "Use standard dose (75 mg/day)."),
+      intermediate: outcome("Ineffective", "moderate", "Reduced active metabolite formation and platelet inhibition.",
+        "Avoid standard-dose clopidogrel if possible; use an alternative P2Y12 inhibitor.", {
+          monitoring: "Consider platelet function testing.",
+          alternative_drugs: ["Prasugrel", "Ticagrelor"],
+        }),
+      poor: outcome("Ineffective", "high", "Minimal active metabolite; high risk of stent thrombosis.",
+        "Avoid clopidogrel; use prasugrel or ticagrelor.", { alternative_drugs: ["Prasugrel", "Ticagrelor"] }),
+    },
+  },
+  SIMVASTATIN: {
+    gene: "SLCO1B1",
+    outcomes: {
+      normal: outcome("Safe", "none", "Normal hepatic uptake of simvastatin acid.", "Prescribe desired starting dose."),
+      intermediate: outcome("Adjust Dosage", "moderate", "Raised systemic simvastatin exposure increases myopathy risk.",
+        "Limit simvastatin dose or choose an alternative statin.", {
+          dose_adjustment: "Do not exceed 20 mg/day.",
+          monitoring: "Monitor for muscle symptoms and CK.",
+          alternative_drugs: ["Rosuvastatin", "Pravastatin"],
+        }),
+      poor: outcome("Toxic", "high", "High myopathy risk with simvastatin.",
+        "Avoid simvastatin; prescribe an alternative statin.", {
+          monitoring: "Monitor CK if statin therapy continues.",
+          alternative_drugs: ["Rosuvastatin", "Pravastatin"],
+        }),
+    },
+  },
+  AZATHIOPRINE: {
+    gene: "TPMT",
+    outcomes: {
+      normal: outcome("Safe", "none", "Normal thiopurine inactivation.", "Start with normal starting dose.", {
+        monitoring: "Standard CBC monitoring.",
+      }),
+      intermediate: outcome("Adjust Dosage", "high", "Elevated thioguanine nucleotides; myelosuppression risk.",
+        "Start at reduced dose and adjust by myelosuppression.", {
+          dose_adjustment: "Start at 30–80% of the normal dose.",
+          monitoring: "CBC weekly for the first month.",
+        }),
+      poor: outcome("Toxic", "critical", "Life-threatening myelosuppression at standard doses.",
+        "Use a drastically reduced dose or a non-thiopurine agent.", {
+          dose_adjustment: "10% of normal dose, three times weekly.",
+          monitoring: "CBC at least weekly.",
+          alternative_drugs: ["Mycophenolate mofetil"],
+        }),
+    },
+  },
+  FLUOROURACIL: {
+    gene: "DPYD",
+    outcomes: {
+      normal: outcome("Safe", "none", "Normal DPD activity.", "Use label-recommended dosing."),
+      intermediate: outcome("Adjust Dosage", "high", "Reduced DPD activity; severe toxicity risk at full dose.",
+        "Reduce starting dose by 50% and titrate on toxicity.", {
+          dose_adjustment: "50% of standard starting dose.",
+          monitoring: "Close toxicity monitoring in first cycles.",
+        }),
+      poor: outcome("Toxic", "critical", "Complete DPD deficiency; fatal toxicity reported.",
+        "Avoid fluorouracil and other fluoropyrimidines.", { alternative_drugs: ["Non-fluoropyrimidine regimen"] }),
+    },
+  },
+  WARFARIN: {
+    gene: "CYP2C9",
+    // Indexed by combined CYP2C9 + VKORC1 sensitivity rather than CYP2C9 alone; see warfarinCategory
+    outcomes: {
+      normal: outcome("Safe", "low", "Normal warfarin sensitivity; dose by clinical algorithm.",
+        "Initiate with a validated dosing algorithm.", { monitoring: "INR per standard protocol." }),
+      intermediate: outcome("Adjust Dosage", "moderate", "Increased warfarin sensitivity raises bleeding risk at standard doses.",
+        "Reduce starting dose using a pharmacogenetic algorithm.", {
+          dose_adjustment: "Reduce initial dose by 20–40%.",
+          monitoring: "More frequent INR checks during initiation.",
+        }),
+      poor: outcome("Toxic", "high", "Markedly increased warfarin sensitivity; high bleeding risk at standard doses.",
+        "Substantially reduce dose or consider an alternative anticoagulant.", {
+          dose_adjustment: "Reduce initial dose by 50–80%.",
+          monitoring: "Daily INR during initiation.",
+          alternative_drugs: ["Apixaban", "Rivaroxaban", "Dabigatran"],
+        }),
+    },
+  },
+};
+
+export type Vkorc1Genotype = "GG" | "GA" | "AA";
+
+/** Combined sensitivity: CYP2C9 reduced function and VKORC1 -1639A each add to it. */
+export function warfarinCategory(cyp2c9: PhenotypeCategory, vkorc1: Vkorc1Genotype): PhenotypeCategory {
+  if (cyp2c9 === "indeterminate") return "indeterminate";
+  const points =
+    (cyp2c9 === "poor" ? 2 : cyp2c9 === "intermediate" ? 1 : 0) + (vkorc1 === "AA" ? 2 : vkorc1 === "GA" ? 1 : 0);
+  return points >= 3 ? "poor" : points >= 1 ? "intermediate" : "normal";
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResponse } from "../api";
+import { deidentifyAnalysis, deidentifySample, pseudonym } from "./index";
+
+const analysis = (patientId: string, rationale: string): AnalysisResponse => ({
+  patient_id: patientId,
+  analysis_id: "analysis-42",
+  timestamp: "2026-01-05T10:00:00.000Z",
+  results: [
+    {
+      drug: "CODEINE",
+      risk_assessment: { risk_label: "Toxic", confidence_score: 0.9, severity: "high", rationale },
+      clinical_recommendation: { action: "Avoid codeine" },
+    },
+  ],
+});
+
+const rationale = (a: AnalysisResponse) => a.results[0].risk_assessment.rationale;
+
+describe("deidentifyAnalysis", () => {
+  it("replaces identifiers in free text", () => {
+    const shown = deidentifyAnalysis(analysis("JANE_DOE_1984", "Genotype of JANE_DOE_1984 (analysis-42)"));
+    expect(rationale(shown)).toBe(`Genotype of ${pseudonym("patient", "JANE_DOE_1984")} (${shown.analysis_id})`);
+  });
+
+  it("replaces identifiers that JSON escapes", () => {
+    const id = 'DOE "J" \\ 1984';
+    const shown = deidentifyAnalysis(analysis(id, `Genotype of ${id}`));
+    expect(rationale(shown)).toBe(`Genotype of ${pseudonym("patient", id)}`);
+    expect(JSON.stringify(shown)).not.toContain("DOE");
+  });
+
+  it("treats the VCF sample name as a patient identifier", () => {
+    const shown = deidentifyAnalysis(analysis("P-0001", "Called from sample NA12878"), "NA12878");
+    expect(rationale(shown)).toBe(`Called from sample ${deidentifySample("NA12878")}`);
+  });
+});
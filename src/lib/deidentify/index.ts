@@ -0,0 +1,122 @@
+import type { AnalysisResponse } from "../api";
+
+// Pseudonyms are sequential per kind (PATIENT-0001, ...) rather than hashes, so they cannot be
+// reversed by hashing candidate IDs. The table lives in sessionStorage: stable until the tab closes.
+
+export type IdentifierKind = "patient" | "analysis" | "vcf" | "audit";
+
+const PREFIXES: Record<IdentifierKind, string> = {
+  patient: "PATIENT",
+  analysis: "ANALYSIS",
+  vcf: "VCF",
+  audit: "AUDIT",
+};
+
+const STORAGE_KEY = "pharmaguard-pseudonyms";
+export const DEIDENTIFY_KEY = "pharmaguard-deidentify";
+
+interface PseudonymTable {
+  counters: Partial<Record<IdentifierKind, number>>;
+  values: Record<string, string>;
+}
+
+let table: PseudonymTable | null = null;
+
+function loadTable(): PseudonymTable {
+  if (table) return table;
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (raw) table = JSON.parse(raw) as PseudonymTable;
+  } catch {
+    /* storage unavailable or corrupt; start a fresh table */
+  }
+  table ??= { counters: {}, values: {} };
+  return table;
+}
+
+export function pseudonym(kind: IdentifierKind, value: string): string {
+  const t = loadTable();
+  const key = `${kind}:${value}`;
+  if (!t.values[key]) {
+    const n = (t.counters[kind] ?? 0) + 1;
+    t.counters[kind] = n;
+    t.values[key] = `${PREFIXES[kind]}-${String(n).padStart(4, "0")}`;
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(t));
+    } catch {
+      /* pseudonyms stay stable for this page only */
+    }
+  }
+  return t.values[key];
+}
+
+function replaceAll(text: string, replacements: [string, string][]): string {
+  return replacements.reduce((acc, [from, to]) => acc.split(from).join(to), text);
+}
+
+// Shorter IDs are only replaced in their own fields; in free text they could match unrelated words
+const MIN_TEXT_MATCH = 4;
+
+function replacementsFor(analysis: AnalysisResponse, sample?: string | null): [string, string][] {
+  const replacements: [string, string][] = [];
+  const add = (kind: IdentifierKind, value: string | null | undefined) => {
+    if (value && value.length >= MIN_TEXT_MATCH) replacements.push([value, pseudonym(kind, value)]);
+  };
+  add("vcf", analysis.vcf_hash);
+  add("analysis", analysis.analysis_id);
+  add("audit", analysis.audit_id);
+  add("patient", analysis.patient_id);
+  add("patient", sample);
+  // Longest first, so an ID that contains another is replaced whole
+  return replacements.sort((a, b) => b[0].length - a[0].length);
+}
+
+// How a string appears inside JSON, so IDs containing quotes or backslashes are still found
+const asJson = (text: string) => JSON.stringify(text).slice(1, -1);
+
+/** Pseudonymizes the analysis' identifiers wherever they appear in a JSON-serializable value. */
+export function deidentifyText<T>(value: T, analysis: AnalysisResponse, sample?: string | null): T {
+  const replacements = replacementsFor(analysis, sample).map(([from, to]): [string, string] => [
+    asJson(from),
+    asJson(to),
+  ]);
+  return JSON.parse(replaceAll(JSON.stringify(value), replacements)) as T;
+}
+
+/**
+ * A copy of the analysis with its identifiers pseudonymized everywhere they appear, including
+ * free text such as rationales. A VCF sample name is treated as a patient identifier.
+ */
+export function deidentifyAnalysis(analysis: AnalysisResponse, sample?: string | null): AnalysisResponse {
+  const copy = deidentifyText(analysis, analysis, sample);
+  return {
+    ...copy,
+    patient_id: pseudonym("patient", analysis.patient_id),
+    analysis_id: pseudonym("analysis", analysis.analysis_id),
+    vcf_hash: analysis.vcf_hash ? pseudonym("vcf", analysis.vcf_hash) : analysis.vcf_hash,
+    audit_id: analysis.audit_id ? pseudonym("audit", analysis.audit_id) : analysis.audit_id,
+  };
+}
+
+export function deidentifySample(sample: string): string {
+  return pseudonym("patient", sample);
+}
+
+interface Identified {
+  patient_id: string;
+  analysis_id: string;
+  audit_id: string;
+  vcf_hash: string;
+}
+
+/** Pseudonymizes the identifier fields of an audit row or similar record. */
+export function deidentifyRecord<T extends Identified>(record: T): T {
+  const swap = (kind: IdentifierKind, value: string) => (value ? pseudonym(kind, value) : value);
+  return {
+    ...record,
+    patient_id: swap("patient", record.patient_id),
+    analysis_id: swap("analysis", record.analysis_id),
+    audit_id: swap("audit", record.audit_id),
+    vcf_hash: swap("vcf", record.vcf_hash),
+  };
+}
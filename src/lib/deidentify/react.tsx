@@ -0,0 +1,40 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { DEIDENTIFY_KEY } from "./index";
+
+interface DeidentifyContextValue {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+}
+
+const DeidentifyContext = createContext<DeidentifyContextValue>({ enabled: false, setEnabled: () => {} });
+
+export function DeidentifyProvider({ children }: { children: React.ReactNode }) {
+  const [enabled, setEnabledState] = useState(false);
+
+  // Restored after hydration, like the locale; the choice lasts for the browser session
+  useEffect(() => {
+    try {
+      setEnabledState(sessionStorage.getItem(DEIDENTIFY_KEY) === "true");
+    } catch {
+      /* storage unavailable */
+    }
+  }, []);
+
+  const setEnabled = useCallback((next: boolean) => {
+    try {
+      sessionStorage.setItem(DEIDENTIFY_KEY, String(next));
+    } catch {
+      /* storage unavailable */
+    }
+    setEnabledState(next);
+  }, []);
+
+  const value = useMemo(() => ({ enabled, setEnabled }), [enabled, setEnabled]);
+  return <DeidentifyContext.Provider value={value}>{children}</DeidentifyContext.Provider>;
+}
+
+export function useDeidentify(): DeidentifyContextValue {
+  return useContext(DeidentifyContext);
+}
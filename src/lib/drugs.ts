@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { getSupportedDrugs } from "./api";
+
+export interface DrugInfo {
+  name: string;
+  genes: string[];
+}
+
+export type CatalogStatus = "loading" | "fresh" | "stale" | "offline";
+
+// Genes the backend scores each drug against; used for grouping in the picker
+const DRUG_GENES: Record<string, string[]> = {
+  Codeine: ["CYP2D6"],
+  Warfarin: ["CYP2C9", "VKORC1"],
+  Clopidogrel: ["CYP2C19"],
+  Simvastatin: ["SLCO1B1"],
+  Azathioprine: ["TPMT"],
+  Fluorouracil: ["DPYD"],
+};
+
+const FALLBACK_DRUGS = Object.keys(DRUG_GENES);
+
+const CACHE_KEY = "pharmaguard-drugs";
+// Cached catalogs younger than this are served without revalidating
+const FRESH_FOR_MS = 10 * 60 * 1000;
+
+interface CachedCatalog {
+  drugs: string[];
+  fetchedAt: number;
+}
+
+export function displayDrugName(name: string): string {
+  const trimmed = name.trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1).toLowerCase();
+}
+
+export function toDrugInfo(names: string[]): DrugInfo[] {
+  const seen = new Set<string>();
+  const drugs: DrugInfo[] = [];
+  for (const raw of names) {
+    const name = displayDrugName(raw);
+    if (!name || seen.has(name)) continue;
+    seen.add(name);
+    drugs.push({ name, genes: DRUG_GENES[name] ?? [] });
+  }
+  return drugs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function groupByGene(drugs: DrugInfo[]): [string, DrugInfo[]][] {
+  const groups = new Map<string, DrugInfo[]>();
+  for (const d of drugs) {
+    const key = d.genes.length > 0 ? d.genes.join(" + ") : "Other";
+    groups.set(key, [...(groups.get(key) ?? []), d]);
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    a === "Other" ? 1 : b === "Other" ? -1 : a.localeCompare(b)
+  );
+}
+
+function readCache(): CachedCatalog | null {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed.drugs) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(drugs: string[]) {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ drugs, fetchedAt: Date.now() }));
+  } catch {
+    /* storage full or disabled */
+  }
+}
+
+let inflight: Promise<string[]> | null = null;
+
+function revalidate(): Promise<string[]> {
+  if (!inflight) {
+    inflight = getSupportedDrugs()
+      .then((drugs) => {
+        if (drugs.length === 0) throw new Error("Empty drug catalog");
+        writeCache(drugs);
+        return drugs;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+  return inflight;
+}
+
+/**
+ * Supported drugs from /drugs, stale-while-revalidate: a cached catalog is shown
+ * immediately and refreshed in the background once older than FRESH_FOR_MS. Falls back
+ * to the built-in list when the backend is unreachable and nothing is cached.
+ */
+export function useDrugCatalog(): { drugs: DrugInfo[]; status: CatalogStatus } {
+  const [drugs, setDrugs] = useState<DrugInfo[]>(() => toDrugInfo(FALLBACK_DRUGS));
+  const [status, setStatus] = useState<CatalogStatus>("loading");
+
+  useEffect(() => {
+    let cancelled = false;
+    const cached = readCache();
+    if (cached) {
+      setDrugs(toDrugInfo(cached.drugs));
+      if (Date.now() - cached.fetchedAt < FRESH_FOR_MS) {
+        setStatus("fresh");
+        return;
+      }
+      setStatus("stale");
+    }
+    revalidate()
+      .then((fresh) => {
+        if (cancelled) return;
+        setDrugs(toDrugInfo(fresh));
+        setStatus("fresh");
+      })
+      .catch(() => {
+        if (!cancelled) setStatus(cached ? "stale" : "offline");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { drugs, status };
+}
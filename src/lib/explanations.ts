@@ -0,0 +1,102 @@
+import type { AnalysisResponse, LLMExplanation } from "./api";
+import { isDrugResult } from "./api";
+
+export type ExplanationVerdict = "accepted" | "inaccurate" | "unsafe";
+
+export const VERDICTS: ExplanationVerdict[] = ["accepted", "inaccurate", "unsafe"];
+
+export interface ExplanationReview {
+  verdict: ExplanationVerdict;
+  comment?: string;
+  /** Name of the signed-in clinician, when known */
+  reviewer?: string;
+  reviewedAt: string;
+}
+
+export interface ExplanationVersion {
+  explanation: LLMExplanation;
+  createdAt: string;
+  /** "original" came with the analysis; later versions were regenerated in this browser */
+  source: "original" | "regenerated";
+  review?: ExplanationReview;
+}
+
+/** Versions per drug, oldest first; the last one is the current explanation. */
+export type ExplanationHistory = Record<string, ExplanationVersion[]>;
+
+/**
+ * Stored versions for each drug, starting a history from the analysis' own explanation for
+ * drugs that have none yet.
+ */
+export function explanationHistory(analysis: AnalysisResponse, stored?: ExplanationHistory | null): ExplanationHistory {
+  const history: ExplanationHistory = {};
+  for (const r of analysis.results) {
+    if (stored?.[r.drug]?.length) history[r.drug] = stored[r.drug];
+    else if (isDrugResult(r) && r.llm_explanation) {
+      history[r.drug] = [{ explanation: r.llm_explanation, createdAt: analysis.timestamp, source: "original" }];
+    }
+  }
+  return history;
+}
+
+export function addVersion(history: ExplanationHistory, drug: string, explanation: LLMExplanation): ExplanationHistory {
+  const version: ExplanationVersion = { explanation, createdAt: new Date().toISOString(), source: "regenerated" };
+  return { ...history, [drug]: [...(history[drug] ?? []), version] };
+}
+
+/** Sets or, with null, clears the review of one version. */
+export function reviewVersion(
+  history: ExplanationHistory,
+  drug: string,
+  index: number,
+  review: ExplanationReview | null
+): ExplanationHistory {
+  const versions = (history[drug] ?? []).map((v, i) => (i === index ? { ...v, review: review ?? undefined } : v));
+  return { ...history, [drug]: versions };
+}
+
+export function currentVersion(history: ExplanationHistory, drug: string): ExplanationVersion | null {
+  const versions = history[drug];
+  return versions?.length ? versions[versions.length - 1] : null;
+}
+
+/** The analysis with each drug's current explanation in place of the one it was received with. */
+export function withCurrentExplanations(analysis: AnalysisResponse, history: ExplanationHistory): AnalysisResponse {
+  return {
+    ...analysis,
+    results: analysis.results.map((r) => {
+      const current = currentVersion(history, r.drug);
+      return current && isDrugResult(r) ? { ...r, llm_explanation: current.explanation } : r;
+    }),
+  };
+}
+
+/** Reviews of the current explanations, keyed by drug; these are what exports carry. */
+export function currentReviews(history: ExplanationHistory): Record<string, ExplanationReview> {
+  const reviews: Record<string, ExplanationReview> = {};
+  for (const drug of Object.keys(history)) {
+    const review = currentVersion(history, drug)?.review;
+    if (review) reviews[drug] = review;
+  }
+  return reviews;
+}
+
+/** Drops malformed versions from an imported archive. */
+export function parseExplanationHistory(value: unknown): ExplanationHistory | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const history: ExplanationHistory = {};
+  for (const [drug, versions] of Object.entries(value as Record<string, unknown>)) {
+    if (!Array.isArray(versions)) continue;
+    const valid = versions.filter(
+      (v): v is ExplanationVersion =>
+        !!v &&
+        typeof v.createdAt === "string" &&
+        typeof v.explanation?.summary === "string" &&
+        typeof v.explanation?.mechanism === "string" &&
+        typeof v.explanation?.citation === "string" &&
+        (v.review === undefined || VERDICTS.includes(v.review?.verdict))
+    );
+    if (valid.length) history[drug] = valid;
+  }
+  return history;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResponse } from "./api";
+import type { FhirBundle, FhirResource } from "./fhir";
+import { toFhirBundle, validateFhirBundle } from "./fhir";
+
+const IG = "http://hl7.org/fhir/uv/genomics-reporting/StructureDefinition";
+
+const ANALYSIS: AnalysisResponse = {
+  patient_id: "PATIENT_001",
+  analysis_id: "analysis-1",
+  timestamp: "2026-01-05T10:00:00.000Z",
+  results: [
+    {
+      drug: "CODEINE",
+      pharmacogenomic_profile: {
+        gene: "CYP2D6",
+        diplotype: "*1/*4",
+        phenotype: "Intermediate Metabolizer",
+        detected_variants: ["rs3892097 (*4) het"],
+        activity_score: 1,
+        copy_number: 2,
+      },
+      risk_assessment: { risk_label: "Adjust Dosage", confidence_score: 0.9, severity: "moderate" },
+      clinical_recommendation: { action: "Use label-recommended dosing", alternative_drugs: ["Morphine"] },
+      quality_metrics: { annotation_completeness: "full", variants_analyzed: 3 },
+    },
+    {
+      drug: "ASPIRIN",
+      risk_assessment: { risk_label: "Unknown", confidence_score: 0, severity: "none" },
+      clinical_recommendation: { action: "ASPIRIN is not supported for pharmacogenomic analysis." },
+    },
+  ],
+};
+
+const resources = (bundle: FhirBundle, type: string) =>
+  bundle.entry.map((e) => e.resource).filter((r) => r.resourceType === type);
+
+const codes = (concept: unknown) =>
+  ((concept as { coding?: { system?: string; code?: string }[] }).coding ?? []).map((c) => `${c.system}|${c.code}`);
+
+const profile = (resource: FhirResource) => resource.meta?.profile[0];
+
+describe("toFhirBundle", () => {
+  it("builds a bundle that passes structural validation", () => {
+    expect(validateFhirBundle(toFhirBundle(ANALYSIS))).toEqual([]);
+  });
+
+  it("declares the Genomics Reporting profiles and LOINC codes", () => {
+    const bundle = toFhirBundle(ANALYSIS);
+    const [report] = resources(bundle, "DiagnosticReport");
+    expect(profile(report)).toBe(`${IG}/genomics-report`);
+    expect(codes(report.code)).toEqual(["http://loinc.org|51969-6"]);
+
+    const observations = resources(bundle, "Observation");
+    const genotype = observations.find((o) => profile(o) === `${IG}/genotype`)!;
+    expect(codes(genotype.code)).toEqual(["http://loinc.org|84413-4"]);
+    expect(genotype.valueCodeableConcept).toEqual({ text: "CYP2D6 *1/*4" });
+
+    const implications = observations.filter((o) => profile(o) === `${IG}/therapeutic-implication`);
+    expect(implications).toHaveLength(2);
+    for (const implication of implications) {
+      const components = implication.component as { code: unknown }[];
+      expect(components.flatMap((c) => codes(c.code))).toContain("http://loinc.org|51963-7");
+    }
+  });
+
+  it("references every observation from the DiagnosticReport", () => {
+    const bundle = toFhirBundle(ANALYSIS);
+    const [report] = resources(bundle, "DiagnosticReport");
+    const [patient] = resources(bundle, "Patient");
+    const observations = resources(bundle, "Observation");
+    const refs = (report.result as { reference: string }[]).map((r) => r.reference);
+    expect(refs).toEqual(observations.map((o) => `urn:uuid:${o.id}`));
+    expect((report.subject as { reference: string }).reference).toBe(`urn:uuid:${patient.id}`);
+  });
+
+  it("labels de-identified bundles", () => {
+    expect(toFhirBundle(ANALYSIS, { deidentified: true }).meta?.security[0].code).toBe("PSEUDED");
+  });
+});
+
+describe("validateFhirBundle", () => {
+  it("reports observations the DiagnosticReport does not reference", () => {
+    const bundle = toFhirBundle(ANALYSIS);
+    const [report] = resources(bundle, "DiagnosticReport");
+    report.result = (report.result as unknown[]).slice(1);
+    expect(validateFhirBundle(bundle)).toEqual([expect.stringMatching(/is not referenced by the DiagnosticReport/)]);
+  });
+
+  it("reports references that do not resolve", () => {
+    const bundle = toFhirBundle(ANALYSIS);
+    const index = bundle.entry.findIndex((e) => e.resource.resourceType === "DiagnosticReport");
+    bundle.entry[index].resource.subject = { reference: "urn:uuid:missing" };
+    expect(validateFhirBundle(bundle)).toEqual([`entry[${index}].subject does not resolve within the bundle`]);
+  });
+
+  it("requires the genomics-report profile", () => {
+    const bundle = toFhirBundle(ANALYSIS);
+    resources(bundle, "DiagnosticReport")[0].meta = { profile: [] };
+    expect(validateFhirBundle(bundle)).toContain("DiagnosticReport must declare the genomics-report profile");
+  });
+});
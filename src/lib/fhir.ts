@@ -0,0 +1,361 @@
+import type { AnalysisResponse, DrugAnalysisResult, UnsupportedDrugResult } from "./api";
+import { isDrugResult } from "./api";
+import type { ExplanationReview } from "./explanations";
+import type { QualityFlag } from "./quality";
+import { CONFIDENCE_THRESHOLD, qualityFlags } from "./quality";
+import type { WarfarinDoseRecord } from "./warfarin";
+
+// FHIR R4 export following the HL7 Genomics Reporting IG (STU2)
+
+const IG = "http://hl7.org/fhir/uv/genomics-reporting/StructureDefinition";
+const LOINC = "http://loinc.org";
+const HGNC = "http://www.genenames.org/geneId";
+const TBD = "http://hl7.org/fhir/uv/genomics-reporting/CodeSystem/tbd-codes-cs";
+const PATIENT_SYSTEM = "urn:pharmaguard:patient-id";
+const ANALYSIS_SYSTEM = "urn:pharmaguard:analysis-id";
+
+const PROFILES = {
+  report: `${IG}/genomics-report`,
+  genotype: `${IG}/genotype`,
+  implication: `${IG}/therapeutic-implication`,
+};
+
+const HGNC_IDS: Record<string, string> = {
+  CYP2D6: "HGNC:2625",
+  CYP2C19: "HGNC:2621",
+  CYP2C9: "HGNC:2623",
+  CYP4F2: "HGNC:2645",
+  VKORC1: "HGNC:23663",
+  SLCO1B1: "HGNC:10959",
+  TPMT: "HGNC:12014",
+  NUDT15: "HGNC:23063",
+  DPYD: "HGNC:3012",
+};
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Reference {
+  reference: string;
+  display?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id: string;
+  meta?: { profile: string[] };
+  [key: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  id: string;
+  type: "collection";
+  meta?: { security: Coding[] };
+  timestamp: string;
+  identifier?: { system: string; value: string };
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+// HL7 security label for data whose identifiers were replaced with pseudonyms
+const PSEUDONYMIZED: Coding = {
+  system: "http://terminology.hl7.org/CodeSystem/v3-ObservationValue",
+  code: "PSEUDED",
+  display: "pseudonymized",
+};
+
+const LAB_CATEGORIES: CodeableConcept[] = [
+  {
+    coding: [{ system: "http://terminology.hl7.org/CodeSystem/observation-category", code: "laboratory" }],
+  },
+  {
+    coding: [{ system: "http://terminology.hl7.org/CodeSystem/v2-0074", code: "GE", display: "Genetics" }],
+  },
+];
+
+const loinc = (code: string, display: string): CodeableConcept => ({
+  coding: [{ system: LOINC, code, display }],
+});
+
+const ref = (resource: FhirResource, display?: string): Reference => ({
+  reference: `urn:uuid:${resource.id}`,
+  ...(display ? { display } : {}),
+});
+
+function geneConcept(gene: string): CodeableConcept {
+  const id = HGNC_IDS[gene.toUpperCase()];
+  return id ? { coding: [{ system: HGNC, code: id, display: gene }], text: gene } : { text: gene };
+}
+
+function observation(
+  profile: string | null,
+  code: CodeableConcept,
+  subject: Reference,
+  effective: string,
+  fields: Record<string, unknown>
+): FhirResource {
+  return {
+    resourceType: "Observation",
+    id: crypto.randomUUID(),
+    ...(profile ? { meta: { profile: [profile] } } : {}),
+    status: "final",
+    category: LAB_CATEGORIES,
+    code,
+    subject,
+    effectiveDateTime: effective,
+    ...fields,
+  };
+}
+
+function warfarinNote({ inputs: i, estimate, calculatedAt, calculatedBy }: WarfarinDoseRecord): string {
+  const dose = (weekly: number) => `${Math.round(weekly * 10) / 10} mg/week`;
+  const inputs = [
+    `age ${i.ageYears} y`,
+    `height ${i.heightCm} cm`,
+    `weight ${i.weightKg} kg`,
+    `race ${i.race}`,
+    `CYP2C9 ${i.cyp2c9}`,
+    `VKORC1 -1639G>A ${i.vkorc1}`,
+    i.enzymeInducer && "enzyme inducer",
+    i.amiodarone && "amiodarone",
+  ];
+  return (
+    `IWPC warfarin dose estimate: pharmacogenetic ${dose(estimate.pharmacogenetic)}, ` +
+    `clinical-only ${dose(estimate.clinical)} (${inputs.filter(Boolean).join(", ")}); ` +
+    `calculated${calculatedBy ? ` by ${calculatedBy}` : ""} on ${calculatedAt}`
+  );
+}
+
+function verifyNote(r: DrugAnalysisResult | UnsupportedDrugResult, flags: QualityFlag[]): string {
+  const reasons = flags.map((flag) =>
+    flag === "low_completeness"
+      ? "low annotation completeness"
+      : `confidence ${r.risk_assessment.confidence_score} below the ${CONFIDENCE_THRESHOLD} threshold`
+  );
+  return `Verify before acting: ${reasons.join("; ")}`;
+}
+
+function recommendationNote(
+  r: DrugAnalysisResult | UnsupportedDrugResult,
+  review?: ExplanationReview,
+  warfarinDose?: WarfarinDoseRecord
+): { text: string }[] {
+  const rec = r.clinical_recommendation;
+  const flags = qualityFlags(r);
+  const lines = [
+    flags.length > 0 && verifyNote(r, flags),
+    rec.action,
+    rec.dose_adjustment && `Dose adjustment: ${rec.dose_adjustment}`,
+    rec.monitoring && `Monitoring: ${rec.monitoring}`,
+    rec.alternative_drugs?.length && `Alternatives: ${rec.alternative_drugs.join(", ")}`,
+    r.risk_assessment.rationale && `Rationale: ${r.risk_assessment.rationale}`,
+    review &&
+      `AI explanation reviewed as ${review.verdict}${review.reviewer ? ` by ${review.reviewer}` : ""} ` +
+        `on ${review.reviewedAt}${review.comment ? `: ${review.comment}` : ""}`,
+    warfarinDose && warfarinNote(warfarinDose),
+  ];
+  return lines.filter((l): l is string => !!l).map((text) => ({ text }));
+}
+
+function drugObservations(
+  r: DrugAnalysisResult | UnsupportedDrugResult,
+  subject: Reference,
+  effective: string,
+  review?: ExplanationReview,
+  warfarinDose?: WarfarinDoseRecord
+): FhirResource[] {
+  const out: FhirResource[] = [];
+  const derivedFrom: Reference[] = [];
+
+  if (isDrugResult(r)) {
+    const p = r.pharmacogenomic_profile;
+    const genotype = observation(PROFILES.genotype, loinc("84413-4", "Genotype display name"), subject, effective, {
+      valueCodeableConcept: { text: `${p.gene} ${p.diplotype}` },
+      component: [
+        { code: loinc("48018-6", "Gene studied [ID]"), valueCodeableConcept: geneConcept(p.gene) },
+        ...p.detected_variants.map((v) => ({
+          code: loinc("81252-9", "Discrete genetic variant"),
+          valueCodeableConcept: { text: v },
+        })),
+        ...(p.activity_score !== null && p.activity_score !== undefined
+          ? [{ code: { text: "Activity score" }, valueQuantity: { value: p.activity_score } }]
+          : []),
+        ...(p.copy_number !== null && p.copy_number !== undefined
+          ? [{ code: loinc("82155-3", "Genomic structural variant copy number"), valueInteger: p.copy_number }]
+          : []),
+      ],
+    });
+    const phenotype = observation(
+      null,
+      loinc("53040-2", "Genetic variation's effect on drug metabolism"),
+      subject,
+      effective,
+      {
+        valueCodeableConcept: { text: p.phenotype },
+        component: [{ code: loinc("48018-6", "Gene studied [ID]"), valueCodeableConcept: geneConcept(p.gene) }],
+        derivedFrom: [ref(genotype)],
+      }
+    );
+    out.push(genotype, phenotype);
+    derivedFrom.push(ref(genotype), ref(phenotype));
+  }
+
+  const risk = r.risk_assessment;
+  out.push(
+    observation(PROFILES.implication, { coding: [{ system: TBD, code: "therapeutic-implication" }] }, subject, effective, {
+      valueCodeableConcept: { text: risk.risk_label },
+      interpretation: [
+        { text: `Severity: ${risk.severity}` },
+        ...(qualityFlags(r).length > 0 ? [{ text: "Verify before acting" }] : []),
+      ],
+      component: [
+        { code: loinc("51963-7", "Medication assessed [ID]"), valueCodeableConcept: { text: r.drug } },
+        { code: { text: "Confidence" }, valueQuantity: { value: risk.confidence_score, unit: "1" } },
+      ],
+      note: recommendationNote(r, review, warfarinDose),
+      ...(derivedFrom.length ? { derivedFrom } : {}),
+    })
+  );
+  return out;
+}
+
+/**
+ * Converts an analysis to a FHIR R4 collection Bundle (Genomics Reporting IG). Pass `deidentified`
+ * when the analysis carries pseudonyms, so the bundle is labelled as such, `reviews` to record
+ * clinician reviews of the explanations in the recommendation notes, and `warfarinDose` to add a
+ * saved dose calculation to the warfarin note.
+ */
+export function toFhirBundle(
+  analysis: AnalysisResponse,
+  {
+    deidentified = false,
+    reviews = {},
+    warfarinDose,
+  }: { deidentified?: boolean; reviews?: Record<string, ExplanationReview>; warfarinDose?: WarfarinDoseRecord } = {}
+): FhirBundle {
+  const patient: FhirResource = {
+    resourceType: "Patient",
+    id: crypto.randomUUID(),
+    identifier: [{ system: PATIENT_SYSTEM, value: analysis.patient_id }],
+  };
+  const subject = ref(patient, analysis.patient_id);
+  const observations = analysis.results.flatMap((r) =>
+    drugObservations(
+      r,
+      subject,
+      analysis.timestamp,
+      reviews[r.drug],
+      r.drug.toUpperCase() === "WARFARIN" ? warfarinDose : undefined
+    )
+  );
+  const report: FhirResource = {
+    resourceType: "DiagnosticReport",
+    id: crypto.randomUUID(),
+    meta: { profile: [PROFILES.report] },
+    identifier: [{ system: ANALYSIS_SYSTEM, value: analysis.analysis_id }],
+    status: "final",
+    category: LAB_CATEGORIES,
+    code: loinc("51969-6", "Genetic analysis report"),
+    subject,
+    effectiveDateTime: analysis.timestamp,
+    issued: new Date().toISOString(),
+    result: observations.map((o) => ref(o)),
+    conclusion: analysis.results
+      .map(
+        (r) =>
+          `${r.drug}: ${r.risk_assessment.risk_label} (${r.risk_assessment.severity})` +
+          (qualityFlags(r).length > 0 ? ", verify before acting" : "")
+      )
+      .join("; "),
+  };
+
+  return {
+    resourceType: "Bundle",
+    id: crypto.randomUUID(),
+    type: "collection",
+    ...(deidentified && { meta: { security: [PSEUDONYMIZED] } }),
+    timestamp: new Date().toISOString(),
+    identifier: { system: ANALYSIS_SYSTEM, value: analysis.analysis_id },
+    entry: [report, patient, ...observations].map((resource) => ({
+      fullUrl: `urn:uuid:${resource.id}`,
+      resource,
+    })),
+  };
+}
+
+function hasCoding(concept: unknown): boolean {
+  const c = concept as CodeableConcept | undefined;
+  return !!c && ((c.coding?.length ?? 0) > 0 || !!c.text);
+}
+
+/**
+ * Structural checks for an exported bundle: required fields, resolvable references and the
+ * IG profiles. Returns a list of problems; an empty list means the bundle is well-formed.
+ */
+export function validateFhirBundle(bundle: FhirBundle): string[] {
+  const problems: string[] = [];
+  if (bundle.resourceType !== "Bundle") problems.push("resourceType must be Bundle");
+  if (!Array.isArray(bundle.entry) || bundle.entry.length === 0) return [...problems, "Bundle has no entries"];
+
+  const byUrl = new Map(bundle.entry.map((e) => [e.fullUrl, e.resource]));
+  if (byUrl.size !== bundle.entry.length) problems.push("entry.fullUrl values must be unique");
+
+  const resolve = (r: unknown, path: string, type?: string) => {
+    const target = byUrl.get((r as Reference | undefined)?.reference ?? "");
+    if (!target) problems.push(`${path} does not resolve within the bundle`);
+    else if (type && target.resourceType !== type) problems.push(`${path} must reference a ${type}`);
+  };
+  const hasProfile = (res: FhirResource, profile: string) => res.meta?.profile.includes(profile) ?? false;
+
+  bundle.entry.forEach(({ fullUrl, resource }, i) => {
+    const path = `entry[${i}]`;
+    if (!resource?.resourceType || !resource.id) {
+      problems.push(`${path}.resource needs resourceType and id`);
+      return;
+    }
+    if (fullUrl !== `urn:uuid:${resource.id}`) problems.push(`${path}.fullUrl must match resource id`);
+    if (resource.resourceType === "Observation" || resource.resourceType === "DiagnosticReport") {
+      if (resource.status !== "final") problems.push(`${path}.status must be final`);
+      if (!hasCoding(resource.code)) problems.push(`${path}.code is required`);
+      resolve(resource.subject, `${path}.subject`, "Patient");
+    }
+    if (resource.resourceType === "Observation") {
+      const hasValue = Object.keys(resource).some((k) => k.startsWith("value"));
+      if (!hasValue && !Array.isArray(resource.component)) problems.push(`${path} needs a value or components`);
+      ((resource.component as { code?: unknown }[] | undefined) ?? []).forEach((c, j) => {
+        if (!hasCoding(c.code)) problems.push(`${path}.component[${j}].code is required`);
+      });
+      ((resource.derivedFrom as unknown[] | undefined) ?? []).forEach((d, j) =>
+        resolve(d, `${path}.derivedFrom[${j}]`, "Observation")
+      );
+      if (hasProfile(resource, PROFILES.implication)) {
+        const components = (resource.component as { code: CodeableConcept }[] | undefined) ?? [];
+        if (!components.some((c) => c.code.coding?.some((x) => x.code === "51963-7"))) {
+          problems.push(`${path} therapeutic implication must name the medication assessed`);
+        }
+      }
+    }
+  });
+
+  const reports = bundle.entry.filter((e) => e.resource.resourceType === "DiagnosticReport");
+  if (reports.length !== 1) problems.push("Bundle must contain exactly one DiagnosticReport");
+  const report = reports[0]?.resource;
+  if (report) {
+    if (!hasProfile(report, PROFILES.report)) problems.push("DiagnosticReport must declare the genomics-report profile");
+    const results = (report.result as unknown[] | undefined) ?? [];
+    results.forEach((r, j) => resolve(r, `DiagnosticReport.result[${j}]`, "Observation"));
+    const referenced = new Set(results.map((r) => (r as Reference).reference));
+    bundle.entry
+      .filter((e) => e.resource.resourceType === "Observation" && !referenced.has(e.fullUrl))
+      .forEach((e) => problems.push(`Observation ${e.resource.id} is not referenced by the DiagnosticReport`));
+  }
+  return problems;
+}
@@ -0,0 +1,76 @@
+import type { AnalysisResponse, DrugAnalysisResult, PharmacogenomicProfile } from "./api";
+import { isDrugResult } from "./api";
+
+export type ProfileField = "diplotype" | "phenotype" | "activityScore" | "copyNumber";
+
+/** Drugs reporting different values for the same field of one gene's profile */
+export interface Inconsistency {
+  field: ProfileField;
+  values: { drug: string; value: string | number | null }[];
+}
+
+export interface GeneSummary {
+  gene: string;
+  /** Distinct values reported across the gene's drugs, in first-seen order */
+  diplotypes: string[];
+  phenotypes: string[];
+  activityScores: number[];
+  copyNumbers: number[];
+  detectedVariants: string[];
+  drugs: DrugAnalysisResult[];
+  inconsistencies: Inconsistency[];
+  interactionWarnings: { drug: string; warning: string }[];
+}
+
+function distinct<T>(values: (T | null | undefined)[]): T[] {
+  return Array.from(new Set(values.filter((v): v is T => v !== null && v !== undefined)));
+}
+
+const PROFILE_VALUES: Record<ProfileField, (p: PharmacogenomicProfile) => string | number | null | undefined> = {
+  diplotype: (p) => p.diplotype,
+  phenotype: (p) => p.phenotype,
+  activityScore: (p) => p.activity_score,
+  copyNumber: (p) => p.copy_number,
+};
+
+/** Groups drug results by gene so each gene's profile is shown once, flagging conflicts. */
+export function summarizeGenes(analysis: AnalysisResponse): GeneSummary[] {
+  const byGene = new Map<string, DrugAnalysisResult[]>();
+  for (const r of analysis.results.filter(isDrugResult)) {
+    const gene = r.pharmacogenomic_profile.gene;
+    byGene.set(gene, [...(byGene.get(gene) ?? []), r]);
+  }
+
+  return Array.from(byGene.entries())
+    .map(([gene, drugs]) => {
+      const profiles = drugs.map((r) => r.pharmacogenomic_profile);
+      const summary: GeneSummary = {
+        gene,
+        diplotypes: distinct(profiles.map((p) => p.diplotype)),
+        phenotypes: distinct(profiles.map((p) => p.phenotype)),
+        activityScores: distinct(profiles.map((p) => p.activity_score)),
+        copyNumbers: distinct(profiles.map((p) => p.copy_number)),
+        detectedVariants: distinct(profiles.flatMap((p) => p.detected_variants)),
+        drugs,
+        inconsistencies: [],
+        interactionWarnings: drugs
+          .filter((r) => r.quality_metrics.interaction_warning)
+          .map((r) => ({ drug: r.drug, warning: r.quality_metrics.interaction_warning! })),
+      };
+      const counts: Record<ProfileField, number> = {
+        diplotype: summary.diplotypes.length,
+        phenotype: summary.phenotypes.length,
+        activityScore: summary.activityScores.length,
+        copyNumber: summary.copyNumbers.length,
+      };
+      for (const field of Object.keys(PROFILE_VALUES) as ProfileField[]) {
+        if (counts[field] < 2) continue;
+        summary.inconsistencies.push({
+          field,
+          values: drugs.map((r) => ({ drug: r.drug, value: PROFILE_VALUES[field](r.pharmacogenomic_profile) ?? null })),
+        });
+      }
+      return summary;
+    })
+    .sort((a, b) => a.gene.localeCompare(b.gene));
+}
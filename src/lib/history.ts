@@ -0,0 +1,217 @@
+import type { AnalysisResponse } from "./api";
+import { getResults, parseAnalysisOrThrow } from "./api";
+import type { ExplanationHistory } from "./explanations";
+import { parseExplanationHistory } from "./explanations";
+import type { WarfarinDoseRecord } from "./warfarin";
+import { parseWarfarinDose } from "./warfarin";
+import type { ParsedAnalysis, SchemaIssue } from "./schema";
+import { parseAnalysisResponse } from "./schema";
+
+export type HistorySource = "analyzed" | "opened" | "imported";
+
+export interface HistoryEntry {
+  analysis: AnalysisResponse;
+  /** Schema issues found when the analysis was first received */
+  issues?: SchemaIssue[];
+  /** Sample name when the analysis came from a multi-sample VCF */
+  sample?: string;
+  /** Explanation versions and clinician reviews, when any were regenerated or reviewed */
+  explanations?: ExplanationHistory;
+  /** Saved warfarin dose calculation */
+  warfarinDose?: WarfarinDoseRecord;
+  source: HistorySource;
+  /** ms since epoch when the browser first stored this analysis */
+  savedAt: number;
+  openedAt: number;
+}
+
+export interface HistoryArchive {
+  format: "pharmaguard-history";
+  version: 1;
+  exportedAt: string;
+  entries: HistoryEntry[];
+}
+
+const DB_NAME = "pharmaguard";
+const DB_VERSION = 1;
+const STORE = "analyses";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "analysis.analysis_id" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(STORE, mode).objectStore(STORE);
+}
+
+export async function getHistoryEntry(analysisId: string): Promise<HistoryEntry | null> {
+  const entry = await request<HistoryEntry | undefined>((await store("readonly")).get(analysisId));
+  return entry ?? null;
+}
+
+export async function getStoredAnalysis(analysisId: string): Promise<ParsedAnalysis | null> {
+  const entry = await getHistoryEntry(analysisId);
+  return entry ? { analysis: entry.analysis, issues: entry.issues ?? [], sample: entry.sample } : null;
+}
+
+/** Stores or refreshes an analysis, keeping its original source and first-saved time. */
+export async function saveAnalysis(
+  { analysis, issues, sample }: ParsedAnalysis,
+  source: HistorySource
+): Promise<void> {
+  const existing = await getHistoryEntry(analysis.analysis_id);
+  const now = Date.now();
+  const entry: HistoryEntry = {
+    analysis,
+    issues,
+    sample: sample ?? existing?.sample,
+    explanations: existing?.explanations,
+    warfarinDose: existing?.warfarinDose,
+    source: existing?.source ?? source,
+    savedAt: existing?.savedAt ?? now,
+    openedAt: now,
+  };
+  await request((await store("readwrite")).put(entry));
+}
+
+type Annotations = Pick<HistoryEntry, "explanations" | "warfarinDose">;
+
+/** Records clinician additions on a stored analysis; no-op if it is not in history. */
+async function annotate(analysisId: string, annotations: Annotations): Promise<void> {
+  const existing = await getHistoryEntry(analysisId);
+  if (!existing) return;
+  await request((await store("readwrite")).put({ ...existing, ...annotations }));
+}
+
+export function saveExplanations(analysisId: string, explanations: ExplanationHistory): Promise<void> {
+  return annotate(analysisId, { explanations });
+}
+
+/** Stores a dose calculation, or removes it with null. */
+export function saveWarfarinDose(analysisId: string, warfarinDose: WarfarinDoseRecord | null): Promise<void> {
+  return annotate(analysisId, { warfarinDose: warfarinDose ?? undefined });
+}
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  return request<HistoryEntry[]>((await store("readonly")).getAll());
+}
+
+export async function deleteHistoryEntry(analysisId: string): Promise<void> {
+  await request((await store("readwrite")).delete(analysisId));
+}
+
+export async function exportHistory(): Promise<Blob> {
+  const archive: HistoryArchive = {
+    format: "pharmaguard-history",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    entries: await listHistory(),
+  };
+  return new Blob([JSON.stringify(archive, null, 2)], { type: "application/json" });
+}
+
+/** Re-validates an archived entry; entries whose analysis is unusable are skipped. */
+function toEntry(value: unknown): HistoryEntry | null {
+  const e = value as Partial<HistoryEntry> | null;
+  if (!e || typeof e !== "object" || typeof e.savedAt !== "number") return null;
+  const { analysis, issues } = parseAnalysisResponse(e.analysis);
+  if (!analysis) return null;
+  return {
+    analysis,
+    issues: [...(Array.isArray(e.issues) ? e.issues : []), ...issues],
+    sample: typeof e.sample === "string" ? e.sample : undefined,
+    explanations: parseExplanationHistory(e.explanations),
+    warfarinDose: parseWarfarinDose(e.warfarinDose),
+    source: "imported",
+    savedAt: e.savedAt,
+    openedAt: e.openedAt ?? e.savedAt,
+  };
+}
+
+/** Merges an exported archive into the local history; returns the number of entries imported. */
+export async function importHistory(file: Blob): Promise<number> {
+  let archive: HistoryArchive;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Archive is not valid JSON");
+  }
+  if (archive?.format !== "pharmaguard-history" || !Array.isArray(archive.entries)) {
+    throw new Error("Not a PharmaGuard history archive");
+  }
+  const entries = archive.entries.map(toEntry).filter((e): e is HistoryEntry => e !== null);
+  const os = await store("readwrite");
+  await Promise.all(entries.map((e) => request(os.put(e))));
+  return entries.length;
+}
+
+const sessionKey = (analysisId: string) => `pharmaguard-${analysisId}`;
+
+export function cacheInSession(parsed: ParsedAnalysis) {
+  sessionStorage.setItem(sessionKey(parsed.analysis.analysis_id), JSON.stringify(parsed));
+}
+
+function readSession(analysisId: string): ParsedAnalysis | null {
+  const stored = sessionStorage.getItem(sessionKey(analysisId));
+  if (!stored) return null;
+  try {
+    const raw = JSON.parse(stored);
+    // Older tabs cached the bare backend response
+    if (!("analysis" in raw)) return parseAnalysisOrThrow(raw);
+    const { analysis, issues } = parseAnalysisOrThrow(raw.analysis);
+    return {
+      analysis,
+      issues: [...(Array.isArray(raw.issues) ? raw.issues : []), ...issues],
+      sample: typeof raw.sample === "string" ? raw.sample : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves an analysis from this tab's sessionStorage, then local history, then the
+ * backend, recording it in history as opened.
+ */
+export async function loadAnalysis(analysisId: string): Promise<ParsedAnalysis> {
+  const cached = readSession(analysisId);
+  if (cached) {
+    saveAnalysis(cached, "opened").catch(() => {});
+    return cached;
+  }
+  const saved = await getStoredAnalysis(analysisId).catch(() => null);
+  if (saved) {
+    saveAnalysis(saved, "opened").catch(() => {});
+    return saved;
+  }
+  const fetched = await getResults(analysisId);
+  cacheInSession(fetched);
+  saveAnalysis(fetched, "opened").catch(() => {});
+  return fetched;
+}
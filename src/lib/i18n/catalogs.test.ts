@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { en } from "./en";
+import { CATALOGS, LOCALES } from "./index";
+
+const placeholders = (message: string) => Array.from(message.matchAll(/\{(\w+)\}/g), (m) => m[1]).sort();
+
+describe.each(LOCALES.filter((l) => l !== "en"))("%s catalog", (locale) => {
+  const catalog: Record<string, string> = CATALOGS[locale];
+
+  it("has every English key", () => {
+    expect(Object.keys(en).filter((key) => !(key in catalog))).toEqual([]);
+  });
+
+  it("has no keys missing from English", () => {
+    expect(Object.keys(catalog).filter((key) => !(key in en))).toEqual([]);
+  });
+
+  it("has no empty messages", () => {
+    expect(Object.keys(catalog).filter((key) => !catalog[key]?.trim())).toEqual([]);
+  });
+
+  it("uses the same placeholders as English", () => {
+    const mismatched = Object.entries(en)
+      .filter(([key, message]) => key in catalog && placeholders(catalog[key]).join() !== placeholders(message).join())
+      .map(([key]) => key);
+    expect(mismatched).toEqual([]);
+  });
+});
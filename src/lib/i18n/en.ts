@@ -0,0 +1,420 @@
+// Source catalog: every other locale must define exactly these keys (enforced by the Messages type)
+export const en = {
+  "app.title": "PharmaGuard",
+  "app.tagline": "Pharmacogenomics Clinical Decision Support",
+  "nav.batch": "Batch",
+  "nav.history": "History",
+  "nav.audit": "Audit",
+  "nav.language": "Language",
+
+  "auth.heading": "Sign in to PharmaGuard",
+  "auth.prompt": "Analyses and audit records are available to signed-in clinicians only.",
+  "auth.signIn": "Sign in",
+  "auth.signOut": "Sign out",
+  "auth.signedOut": "You have been signed out.",
+  "auth.error.expired": "Your sign-in attempt expired. Please try again.",
+  "auth.error.denied": "Sign-in was cancelled or denied by the identity provider.",
+  "auth.error.unavailable": "The identity provider could not be reached. Please try again shortly.",
+
+  "common.cancel": "Cancel",
+  "common.clear": "Clear",
+  "common.selectAll": "Select all",
+  "common.newAnalysis": "New Analysis",
+  "common.none": "none",
+  "common.unknown": "Unknown",
+
+  "upload.heading": "Upload VCF File",
+  "upload.dropPrompt": "Drag and drop your VCF file here",
+  "upload.browseHint": "or click to browse (.vcf, .vcf.gz — any size; only pharmacogene records are uploaded)",
+  "upload.tooLarge": "The extracted pharmacogene records ({size}) still exceed the 5MB upload limit.",
+  "upload.drugsHeading": "Select Drugs to Analyze",
+  "upload.waking":
+    "The backend is waking up (Render free tier). This can take up to a minute; your analysis will start automatically.",
+  "upload.wakingButton": "Waking up backend...",
+  "upload.analyzing": "Analyzing...",
+  "upload.analyzingSample": "Analyzing {sample} ({index} of {total})...",
+  "upload.analyze": "Analyze",
+  "upload.analyzeSamples": "Analyze {count} samples",
+  "upload.ready": "Analyses ready",
+  "upload.supported": "Supported: {drugs}",
+
+  "jobs.heading": "Analyses in progress",
+  "jobs.hint": "Submitted analyses keep running on the server; their results are saved to history when they finish.",
+  "jobs.background": "You can close this tab; the analysis keeps running and is listed here when you come back.",
+  "jobs.submitted": "submitted {date}",
+  "jobs.open": "Open results",
+  "jobs.retry": "Retry",
+  "jobs.dismiss": "Dismiss",
+  "jobs.expired": "This analysis is no longer available on the server.",
+  "jobs.stage.upload": "Upload",
+  "jobs.stage.parse": "Parse VCF",
+  "jobs.stage.genotype_calling": "Genotype calling",
+  "jobs.stage.scoring": "Risk scoring",
+  "jobs.stage.explanation": "Explanations",
+
+  "preflight.checking": "Checking VCF and extracting pharmacogene records... {percent}",
+  "preflight.passed": "Pre-flight check passed",
+  "preflight.failed": "Pre-flight check failed",
+  "preflight.format": "Format",
+  "preflight.compression": "Compression",
+  "preflight.samples": "Samples",
+  "preflight.genomeBuild": "Genome build",
+  "preflight.recordsScanned": "Records scanned",
+  "preflight.pharmacogeneRecords": "Pharmacogene records",
+  "preflight.kept": "Kept {kept} of {total} records ({from} → {to}). Only the reduced file is uploaded.",
+
+  "samples.heading": "Samples to analyze",
+  "samples.count": "({selected} of {total})",
+  "samples.separate": "Each sample is uploaded on its own and analyzed separately.",
+
+  "drugs.placeholder": "Select drugs...",
+  "drugs.loading": "Loading drug catalog...",
+  "drugs.stale": "Showing cached drug catalog",
+  "drugs.offline": "Backend unreachable — showing built-in drug list",
+  "drugs.search": "Search drug or gene...",
+  "drugs.clearAll": "Clear all",
+  "drugs.selectAllMatching": "Select all matching",
+  "drugs.noMatch": "No drugs match \"{query}\"",
+
+  "meds.import": "Import medication list",
+  "meds.importAnother": "Import another medication list",
+  "meds.heading": "Medication list",
+  "meds.hint": "Paste one medication per line, a CSV with a medication column, or a FHIR bundle of MedicationRequest or MedicationStatement resources.",
+  "meds.placeholder": "Plavix 75 mg daily\nCoumadin 5 mg\nMetformin 500 mg twice daily",
+  "meds.apply": "Select matching drugs",
+  "meds.chooseFile": "Choose file",
+  "meds.empty": "No medications found in this list.",
+  "meds.failed": "Could not read the medication list: {message}",
+  "meds.summary": "{total} medication(s) read from {format}; {matched} supported drug(s) selected.",
+  "meds.unrecognized": "{count} medication(s) not recognized and not analyzed",
+  "meds.format.text": "text",
+  "meds.format.csv": "CSV",
+  "meds.format.fhir": "FHIR",
+
+  "errors.parse": "We couldn't parse this VCF file. Please ensure it's a valid VCF v4.2 format.",
+  "errors.timeout": "The analysis took too long and was stopped. Please try again.",
+  "errors.network":
+    "Failed to connect to server. The backend may be waking up (Render free tier)—please wait 1–2 minutes and try again.",
+  "errors.server": "Analysis failed. Please try again. If problem persists, contact support.",
+  "errors.generic": "Analysis failed. Please try again.",
+  "errors.unauthorized": "Your session has expired. Please sign in again.",
+
+  "results.notFound": "Analysis not found",
+  "results.loadFailed": "Could not load this analysis. The backend may be waking up—please try again shortly.",
+  "results.sample": "Sample {sample}",
+  "results.partiallyInvalid":
+    "This result was partially invalid: {count} drug result(s) were malformed and are not shown.",
+  "results.coerced": "Some fields in this result had unexpected values and are shown as Unknown.",
+  "results.confidence": "Confidence",
+  "results.confidenceValue": "Confidence: {value}",
+  "results.confidenceBreakdown": "Confidence breakdown",
+  "results.worstDrug": "Highest severity: {drug}",
+  "results.copyJson": "Copy JSON",
+  "results.copied": "Copied!",
+  "results.pdf": "PDF Report",
+  "results.pdfFailed": "Could not create the PDF report: {detail}",
+  "results.fhir": "FHIR Bundle",
+  "results.auditLog": "Audit log",
+  "results.fhirInvalid": "FHIR export failed validation: {problems}",
+  "results.byDrug": "By drug",
+  "results.byGene": "By gene",
+  "results.geneProfile": "Gene Profile",
+  "results.starAllele": "Star allele genotype",
+  "results.detectedVariants": "Detected Variants ({count})",
+  "results.recommendation": "Clinical Recommendation",
+  "results.dose": "Dose: {value}",
+  "results.monitoring": "Monitoring: {value}",
+  "results.aiExplanation": "AI Explanation",
+  "results.summary": "Summary:",
+  "results.mechanism": "Mechanism:",
+  "results.regenerate": "Regenerate",
+  "results.regenerating": "Regenerating...",
+  "results.supportedDrugs": "Supported drugs: {drugs}",
+
+  "explanation.version": "v{n}",
+  "explanation.viewing": "Version {n} of {total} • {source} {date}",
+  "explanation.original": "received",
+  "explanation.regenerated": "regenerated",
+  "explanation.generating": "Generating...",
+  "explanation.compare": "Compare versions",
+  "explanation.hideCompare": "Hide comparison",
+  "explanation.changed": "Changed",
+  "explanation.failed": "Could not regenerate the explanation: {message}",
+  "explanation.retry": "Retry",
+  "explanation.review": "Clinician review",
+  "explanation.comment": "Comment (optional)",
+  "explanation.saveReview": "Save review",
+  "explanation.editReview": "Edit",
+  "explanation.clearReview": "Clear",
+  "explanation.cancel": "Cancel",
+  "explanation.reviewedBy": "by {reviewer}",
+  "verdict.accepted": "Accepted",
+  "verdict.inaccurate": "Inaccurate",
+  "verdict.unsafe": "Unsafe",
+
+  "genes.empty": "No gene profiles in this analysis.",
+  "genes.needsReview": "Needs review",
+  "genes.noneDetected": "None detected",
+  "genes.disagree": "Drugs disagree on {field}: {values}",
+  "genes.drug": "Drug",
+  "genes.risk": "Risk",
+  "genes.recommendation": "Recommendation",
+
+  "field.gene": "Gene",
+  "field.diplotype": "Diplotype",
+  "field.phenotype": "Phenotype",
+  "field.activityScore": "Activity score",
+  "field.copyNumber": "Copy number",
+  "field.detectedVariants": "Detected variants",
+
+  "variants.rsid": "rsID",
+  "variants.position": "Position",
+  "variants.change": "Ref/Alt",
+  "variants.zygosity": "Zygosity",
+  "variants.allele": "Star allele",
+  "variants.inferred": "Looked up from the rsID; not stated by the backend",
+  "variants.unparsed": "Shown as reported; could not be broken down",
+  "variants.alleles": "Alleles",
+  "variants.copies": "×{copies}",
+  "zygosity.het": "Heterozygous",
+  "zygosity.hom": "Homozygous",
+  "zygosity.hemi": "Hemizygous",
+  "cnv.duplication": "{gene} gene duplication",
+  "cnv.deletion": "{gene} gene deletion",
+  "cnv.copies": "{copies} gene copies instead of the usual 2.",
+  "cnv.copiesUnknown": "More than 2 gene copies; the exact number was not reported.",
+  "cnv.fromDiplotype": "Inferred from the diplotype {diplotype}.",
+  "cnv.impact": "Copy number changes how much enzyme is made and can shift the phenotype on its own.",
+
+  "sim.open": "What if...",
+  "sim.title": "What-if simulator",
+  "sim.marker": "Simulated — not a patient result",
+  "sim.note": "Computed in the browser from simplified CPIC tables to explore alternatives. Do not use it for prescribing.",
+  "sim.patient": "Patient result",
+  "sim.simulated": "Simulated",
+  "sim.allele": "Allele {n}",
+  "sim.copies": "Copies",
+  "sim.vkorc1": "VKORC1 -1639G>A",
+  "sim.unknownFunction": "{allele} (function unknown)",
+  "sim.reset": "Reset to patient",
+  "sim.close": "Close simulator",
+
+  "warfarin.title": "Starting dose estimate (IWPC)",
+  "warfarin.age": "Age (years)",
+  "warfarin.height": "Height (cm)",
+  "warfarin.weight": "Weight (kg)",
+  "warfarin.race": "Race",
+  "warfarin.cyp2c9": "CYP2C9 genotype",
+  "warfarin.vkorc1": "VKORC1 -1639G>A",
+  "warfarin.unknown": "Unknown",
+  "warfarin.fromAnalysis": "From this analysis",
+  "warfarin.differsFromAnalysis": "Analysis reported {value}",
+  "warfarin.notReported": "Not reported by this analysis",
+  "warfarin.inducer": "Taking carbamazepine, phenytoin, rifampin or rifampicin",
+  "warfarin.amiodarone": "Taking amiodarone",
+  "warfarin.invalid.age": "Enter an age between 18 and 100.",
+  "warfarin.invalid.height": "Enter a height between 120 and 220 cm.",
+  "warfarin.invalid.weight": "Enter a weight between 30 and 250 kg.",
+  "warfarin.pharmacogenetic": "Pharmacogenetic estimate",
+  "warfarin.clinical": "Clinical-only estimate",
+  "warfarin.weekly": "{dose} mg/week",
+  "warfarin.daily": "≈ {dose} mg/day",
+  "warfarin.incomplete": "Enter age, height and weight.",
+  "warfarin.save": "Save with analysis",
+  "warfarin.saved": "Saved {date}",
+  "warfarin.savedBy": "Saved by {name} • {date}",
+  "warfarin.unsaved": "changes not saved",
+  "warfarin.clear": "Remove saved estimate",
+  "warfarin.note": "IWPC algorithm (NEJM 2009). Estimates the stable maintenance dose for adults; titrate to INR and use clinical judgement.",
+  "race.white": "White",
+  "race.asian": "Asian",
+  "race.black": "Black or African American",
+  "race.other": "Mixed or not reported",
+
+  "risk.Safe": "Safe",
+  "risk.Adjust Dosage": "Adjust Dosage",
+  "risk.Toxic": "Toxic",
+  "risk.Ineffective": "Ineffective",
+  "risk.Unknown": "Unknown",
+
+  "severity.none": "None",
+  "severity.low": "Low",
+  "severity.moderate": "Moderate",
+  "severity.high": "High",
+  "severity.critical": "Critical",
+  "severity.unknown": "Unknown",
+
+  "completeness.full": "Full",
+  "completeness.partial": "Partial",
+  "completeness.low": "Low",
+
+  "quality.heading": "Quality",
+  "quality.overall": "Overall confidence",
+  "quality.threshold": "Verification threshold: {value}",
+  "quality.completeness": "Annotation completeness: {value}",
+  "quality.variantsAnalyzed": "Variants analyzed: {count}",
+  "quality.interaction": "Interaction warning:",
+  "quality.verify": "Verify before acting",
+  "quality.verifyDrugs": "Results for {drugs} have low annotation completeness or confidence; confirm them before changing therapy.",
+  "quality.lowCompleteness": "Annotation completeness is low.",
+  "quality.lowConfidence": "Confidence {value} is below the {threshold} threshold.",
+
+  "history.title": "Analysis History",
+  "history.subtitle": "Stored in this browser only",
+  "history.unavailable": "Local history is unavailable in this browser.",
+  "history.compare": "Compare ({count}/2)",
+  "history.compareHint": "Tick two analyses to compare",
+  "history.import": "Import",
+  "history.export": "Export",
+  "history.exportDeidentified": "The archive keeps real identifiers; turn off de-identification to export it",
+  "history.imported": "Analyses imported: {count}.",
+  "history.importFailed": "Could not import the archive: {detail}",
+  "history.exportFailed": "Could not export the history: {detail}",
+  "history.deleteFailed": "Could not delete the analysis: {detail}",
+  "history.confirmDelete": "Delete analysis {id} from local history?",
+  "history.search": "Search patient, analysis ID or drug...",
+  "history.anyRisk": "Any risk",
+  "history.anySeverity": "Any severity",
+  "history.anyDrug": "Any drug",
+  "history.sort.newest": "Newest first",
+  "history.sort.oldest": "Oldest first",
+  "history.sort.patient": "Patient ID",
+  "history.sort.risk": "Worst risk first",
+  "history.noMatches": "No analyses match these filters.",
+  "history.empty": "No analyses stored yet.",
+  "history.column.patient": "Patient",
+  "history.column.date": "Date",
+  "history.column.drugs": "Drugs",
+  "history.column.worstRisk": "Worst risk",
+  "history.selectForCompare": "Select {id} for comparison",
+  "history.delete": "Delete from history",
+
+  "compare.title": "Compare Analyses",
+  "compare.subtitle": "Per-drug differences between two analyses",
+  "compare.export": "Export Diff",
+  "compare.first": "First analysis ID",
+  "compare.second": "Second analysis ID",
+  "compare.submit": "Compare",
+  "compare.notFound": "Analysis {id} not found",
+  "compare.before": "Before",
+  "compare.after": "After",
+  "compare.differentPatients": "These analyses belong to different patients.",
+  "compare.summary.changed": "{count} changed",
+  "compare.summary.added": "{count} added",
+  "compare.summary.removed": "{count} removed",
+  "compare.summary.unchanged": "{count} unchanged",
+  "compare.kind.changed": "changed",
+  "compare.kind.added": "added",
+  "compare.kind.removed": "removed",
+  "compare.kind.unchanged": "unchanged",
+  "compare.showUnchanged": "Show unchanged fields",
+  "compare.noDifferences": "No differences.",
+  "compare.field": "Field",
+
+  "batch.title": "Batch Analysis",
+  "batch.subtitle": "Screen a panel of VCFs, {count} at a time",
+  "batch.single": "Single Analysis",
+  "batch.drop": "Drop VCF files or folders here",
+  "batch.files": "Files",
+  "batch.folder": "Folder",
+  "batch.drugs": "Drugs",
+  "batch.queue": "Queue",
+  "batch.count.done": "{count} done",
+  "batch.count.failed": "{count} failed",
+  "batch.count.cancelled": "{count} cancelled",
+  "batch.total": "{count} total",
+  "batch.retryFailed": "Retry failed",
+  "batch.cancelAll": "Cancel all",
+  "batch.analyzeAll": "Analyze all",
+  "batch.status.queued": "queued",
+  "batch.status.preparing": "preparing",
+  "batch.status.analyzing": "analyzing",
+  "batch.status.done": "done",
+  "batch.status.failed": "failed",
+  "batch.status.cancelled": "cancelled",
+  "batch.results": "Results",
+  "batch.remove": "Remove",
+  "batch.cohort": "Cohort Summary",
+  "batch.searchPatient": "Search patient...",
+  "batch.searchPatientOrFile": "Search patient or file...",
+  "batch.anyDrug": "Any drug",
+  "batch.anyRisk": "Any risk",
+  "batch.exportCsv": "Export CSV",
+  "batch.noMatches": "No patients match these filters.",
+  "batch.patient": "Patient",
+
+  "audit.title": "Audit Log",
+  "audit.subtitle": "Analyses and result views recorded by the backend",
+  "audit.refresh": "Refresh",
+  "audit.exportCsv": "Export CSV",
+  "audit.from": "From",
+  "audit.to": "To",
+  "audit.patientId": "Patient ID",
+  "audit.analysisId": "Analysis ID",
+  "audit.anyDrug": "Any drug",
+  "audit.anyAction": "Any action",
+  "audit.auditId": "Audit ID {id}",
+  "audit.showAllAuditIds": "Show all audit IDs",
+  "audit.noMatches": "No audit entries match these filters.",
+  "audit.empty": "The audit log is empty.",
+  "audit.column.timestamp": "Time",
+  "audit.column.action": "Action",
+  "audit.column.patient_id": "Patient",
+  "audit.column.analysis_id": "Analysis",
+  "audit.column.drugs": "Drugs",
+  "audit.column.audit_id": "Audit ID",
+  "audit.showPatient": "Show this patient's entries",
+  "audit.notInHistory": "Not in local history",
+  "audit.range": "{from}–{to} of {total}",
+  "audit.filteredFrom": "(filtered from {total})",
+  "audit.page": "Page {page} of {count}",
+  "audit.previousPage": "Previous page",
+  "audit.nextPage": "Next page",
+
+  "deid.toggle": "De-identify",
+  "deid.watermark": "DE-IDENTIFIED",
+  "deid.notice": "De-identified: identifiers are replaced with pseudonyms that stay stable for this browser session.",
+
+  "disclaimer":
+    "Disclaimer: This report is for clinical decision support only. It does not replace clinical judgement; always consult a qualified healthcare provider before changing therapy.",
+
+  "report.title": "Pharmacogenomic Clinical Report",
+  "report.patientId": "Patient ID",
+  "report.analysisId": "Analysis ID",
+  "report.analysisDate": "Analysis date",
+  "report.generated": "Report generated",
+  "report.vcfHash": "VCF SHA-256",
+  "report.auditId": "Audit ID",
+  "report.clinician": "Clinician",
+  "report.severityLegend": "Severity legend",
+  "report.riskSummary": "Risk summary",
+  "report.drug": "Drug",
+  "report.risk": "Risk",
+  "report.severity": "Severity",
+  "report.confidence": "Confidence",
+  "report.notSupported": "Not supported",
+  "report.drugDetails": "Drug details",
+  "report.riskAssessment": "Risk assessment",
+  "report.rationale": "Rationale",
+  "report.profile": "Pharmacogenomic profile",
+  "report.recommendation": "Clinical recommendation",
+  "report.action": "Action",
+  "report.doseAdjustment": "Dose adjustment",
+  "report.monitoring": "Monitoring",
+  "report.alternatives": "Alternatives",
+  "report.quality": "Quality metrics",
+  "report.annotation": "Annotation",
+  "report.variantsAnalyzed": "Variants analyzed",
+  "report.interactionWarning": "Interaction warning",
+  "report.aiExplanation": "AI explanation",
+  "report.summary": "Summary",
+  "report.mechanism": "Mechanism",
+  "report.citation": "Citation",
+  "report.noExplanation": "No explanation available.",
+  "report.review": "Clinician review",
+  "report.warfarinDose": "Warfarin starting dose estimate (IWPC)",
+  "report.doseInputs": "Inputs",
+  "report.unsupportedDrug": "This drug is not supported for pharmacogenomic analysis.",
+  "report.footer": "Patient {patient} • Analysis {analysis}",
+  "report.page": "Page {page} of {total}",
+} as const;
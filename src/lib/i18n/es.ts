@@ -0,0 +1,424 @@
+import type { Messages } from "./index";
+
+export const es: Messages = {
+  "app.title": "PharmaGuard",
+  "app.tagline": "Soporte a la decisión clínica en farmacogenómica",
+  "nav.batch": "Lote",
+  "nav.history": "Historial",
+  "nav.audit": "Auditoría",
+  "nav.language": "Idioma",
+
+  "auth.heading": "Iniciar sesión en PharmaGuard",
+  "auth.prompt": "Los análisis y registros de auditoría solo están disponibles para clínicos con sesión iniciada.",
+  "auth.signIn": "Iniciar sesión",
+  "auth.signOut": "Cerrar sesión",
+  "auth.signedOut": "Ha cerrado la sesión.",
+  "auth.error.expired": "El intento de inicio de sesión caducó. Inténtelo de nuevo.",
+  "auth.error.denied": "El proveedor de identidad canceló o denegó el inicio de sesión.",
+  "auth.error.unavailable": "No se pudo contactar con el proveedor de identidad. Inténtelo de nuevo en breve.",
+
+  "common.cancel": "Cancelar",
+  "common.clear": "Borrar",
+  "common.selectAll": "Seleccionar todo",
+  "common.newAnalysis": "Nuevo análisis",
+  "common.none": "ninguna",
+  "common.unknown": "Desconocido",
+
+  "upload.heading": "Subir archivo VCF",
+  "upload.dropPrompt": "Arrastre y suelte aquí su archivo VCF",
+  "upload.browseHint":
+    "o haga clic para examinar (.vcf, .vcf.gz — cualquier tamaño; solo se suben los registros de farmacogenes)",
+  "upload.tooLarge": "Los registros de farmacogenes extraídos ({size}) superan el límite de subida de 5 MB.",
+  "upload.drugsHeading": "Seleccione los fármacos a analizar",
+  "upload.waking":
+    "El servidor se está iniciando (plan gratuito de Render). Puede tardar hasta un minuto; el análisis comenzará automáticamente.",
+  "upload.wakingButton": "Iniciando el servidor...",
+  "upload.analyzing": "Analizando...",
+  "upload.analyzingSample": "Analizando {sample} ({index} de {total})...",
+  "upload.analyze": "Analizar",
+  "upload.analyzeSamples": "Analizar {count} muestras",
+  "upload.ready": "Análisis listos",
+  "upload.supported": "Admitidos: {drugs}",
+
+  "jobs.heading": "Análisis en curso",
+  "jobs.hint": "Los análisis enviados siguen ejecutándose en el servidor; sus resultados se guardan en el historial al terminar.",
+  "jobs.background": "Puede cerrar esta pestaña; el análisis sigue ejecutándose y aparecerá aquí cuando vuelva.",
+  "jobs.submitted": "enviado {date}",
+  "jobs.open": "Abrir resultados",
+  "jobs.retry": "Reintentar",
+  "jobs.dismiss": "Descartar",
+  "jobs.expired": "Este análisis ya no está disponible en el servidor.",
+  "jobs.stage.upload": "Carga",
+  "jobs.stage.parse": "Lectura del VCF",
+  "jobs.stage.genotype_calling": "Genotipado",
+  "jobs.stage.scoring": "Cálculo de riesgo",
+  "jobs.stage.explanation": "Explicaciones",
+
+  "preflight.checking": "Comprobando el VCF y extrayendo registros de farmacogenes... {percent}",
+  "preflight.passed": "Comprobación previa superada",
+  "preflight.failed": "La comprobación previa falló",
+  "preflight.format": "Formato",
+  "preflight.compression": "Compresión",
+  "preflight.samples": "Muestras",
+  "preflight.genomeBuild": "Ensamblaje del genoma",
+  "preflight.recordsScanned": "Registros examinados",
+  "preflight.pharmacogeneRecords": "Registros de farmacogenes",
+  "preflight.kept": "Se conservaron {kept} de {total} registros ({from} → {to}). Solo se sube el archivo reducido.",
+
+  "samples.heading": "Muestras a analizar",
+  "samples.count": "({selected} de {total})",
+  "samples.separate": "Cada muestra se sube por separado y se analiza de forma independiente.",
+
+  "drugs.placeholder": "Seleccione fármacos...",
+  "drugs.loading": "Cargando catálogo de fármacos...",
+  "drugs.stale": "Mostrando el catálogo de fármacos en caché",
+  "drugs.offline": "Servidor no disponible — mostrando la lista de fármacos integrada",
+  "drugs.search": "Buscar fármaco o gen...",
+  "drugs.clearAll": "Quitar todos",
+  "drugs.selectAllMatching": "Seleccionar coincidencias",
+  "drugs.noMatch": "Ningún fármaco coincide con \"{query}\"",
+
+  "meds.import": "Importar lista de medicamentos",
+  "meds.importAnother": "Importar otra lista de medicamentos",
+  "meds.heading": "Lista de medicamentos",
+  "meds.hint": "Pegue un medicamento por línea, un CSV con una columna de medicamentos o un bundle FHIR con recursos MedicationRequest o MedicationStatement.",
+  "meds.placeholder": "Plavix 75 mg al día\nCoumadin 5 mg\nMetformina 500 mg dos veces al día",
+  "meds.apply": "Seleccionar fármacos coincidentes",
+  "meds.chooseFile": "Elegir archivo",
+  "meds.empty": "No se encontraron medicamentos en esta lista.",
+  "meds.failed": "No se pudo leer la lista de medicamentos: {message}",
+  "meds.summary": "{total} medicamento(s) leídos de {format}; {matched} fármaco(s) compatibles seleccionados.",
+  "meds.unrecognized": "{count} medicamento(s) no reconocidos y no analizados",
+  "meds.format.text": "texto",
+  "meds.format.csv": "CSV",
+  "meds.format.fhir": "FHIR",
+
+  "errors.parse": "No pudimos interpretar este archivo VCF. Asegúrese de que tenga un formato VCF v4.2 válido.",
+  "errors.timeout": "El análisis tardó demasiado y se detuvo. Inténtelo de nuevo.",
+  "errors.network":
+    "No se pudo conectar con el servidor. Puede estar iniciándose (plan gratuito de Render); espere 1–2 minutos e inténtelo de nuevo.",
+  "errors.server": "El análisis falló. Inténtelo de nuevo. Si el problema continúa, contacte con soporte.",
+  "errors.generic": "El análisis falló. Inténtelo de nuevo.",
+  "errors.unauthorized": "Su sesión ha caducado. Vuelva a iniciar sesión.",
+
+  "results.notFound": "Análisis no encontrado",
+  "results.loadFailed":
+    "No se pudo cargar este análisis. Es posible que el servidor se esté iniciando; inténtelo de nuevo en breve.",
+  "results.sample": "Muestra {sample}",
+  "results.partiallyInvalid":
+    "Este resultado es parcialmente inválido: {count} resultado(s) de fármacos estaban mal formados y no se muestran.",
+  "results.coerced": "Algunos campos de este resultado tenían valores inesperados y se muestran como Desconocido.",
+  "results.confidence": "Confianza",
+  "results.confidenceValue": "Confianza: {value}",
+  "results.confidenceBreakdown": "Desglose de la confianza",
+  "results.worstDrug": "Mayor gravedad: {drug}",
+  "results.copyJson": "Copiar JSON",
+  "results.copied": "¡Copiado!",
+  "results.pdf": "Informe PDF",
+  "results.pdfFailed": "No se pudo crear el informe PDF: {detail}",
+  "results.fhir": "Bundle FHIR",
+  "results.auditLog": "Registro de auditoría",
+  "results.fhirInvalid": "La exportación FHIR no superó la validación: {problems}",
+  "results.byDrug": "Por fármaco",
+  "results.byGene": "Por gen",
+  "results.geneProfile": "Perfil génico",
+  "results.starAllele": "Genotipo de alelos estrella",
+  "results.detectedVariants": "Variantes detectadas ({count})",
+  "results.recommendation": "Recomendación clínica",
+  "results.dose": "Dosis: {value}",
+  "results.monitoring": "Monitorización: {value}",
+  "results.aiExplanation": "Explicación de IA",
+  "results.summary": "Resumen:",
+  "results.mechanism": "Mecanismo:",
+  "results.regenerate": "Regenerar",
+  "results.regenerating": "Regenerando...",
+  "results.supportedDrugs": "Fármacos admitidos: {drugs}",
+
+  "explanation.version": "v{n}",
+  "explanation.viewing": "Versión {n} de {total} • {source} {date}",
+  "explanation.original": "recibida",
+  "explanation.regenerated": "regenerada",
+  "explanation.generating": "Generando...",
+  "explanation.compare": "Comparar versiones",
+  "explanation.hideCompare": "Ocultar comparación",
+  "explanation.changed": "Modificado",
+  "explanation.failed": "No se pudo regenerar la explicación: {message}",
+  "explanation.retry": "Reintentar",
+  "explanation.review": "Revisión clínica",
+  "explanation.comment": "Comentario (opcional)",
+  "explanation.saveReview": "Guardar revisión",
+  "explanation.editReview": "Editar",
+  "explanation.clearReview": "Borrar",
+  "explanation.cancel": "Cancelar",
+  "explanation.reviewedBy": "por {reviewer}",
+  "verdict.accepted": "Aceptada",
+  "verdict.inaccurate": "Inexacta",
+  "verdict.unsafe": "Insegura",
+
+  "genes.empty": "Este análisis no contiene perfiles génicos.",
+  "genes.needsReview": "Requiere revisión",
+  "genes.noneDetected": "Ninguna detectada",
+  "genes.disagree": "Los fármacos discrepan en {field}: {values}",
+  "genes.drug": "Fármaco",
+  "genes.risk": "Riesgo",
+  "genes.recommendation": "Recomendación",
+
+  "field.gene": "Gen",
+  "field.diplotype": "Diplotipo",
+  "field.phenotype": "Fenotipo",
+  "field.activityScore": "Puntuación de actividad",
+  "field.copyNumber": "Número de copias",
+  "field.detectedVariants": "Variantes detectadas",
+
+  "variants.rsid": "rsID",
+  "variants.position": "Posición",
+  "variants.change": "Ref/Alt",
+  "variants.zygosity": "Cigosidad",
+  "variants.allele": "Alelo estrella",
+  "variants.inferred": "Deducido del rsID; el backend no lo indica",
+  "variants.unparsed": "Se muestra tal como se recibió; no se pudo desglosar",
+  "variants.alleles": "Alelos",
+  "variants.copies": "×{copies}",
+  "zygosity.het": "Heterocigoto",
+  "zygosity.hom": "Homocigoto",
+  "zygosity.hemi": "Hemicigoto",
+  "cnv.duplication": "Duplicación del gen {gene}",
+  "cnv.deletion": "Deleción del gen {gene}",
+  "cnv.copies": "{copies} copias del gen en lugar de las 2 habituales.",
+  "cnv.copiesUnknown": "Más de 2 copias del gen; no se indicó el número exacto.",
+  "cnv.fromDiplotype": "Deducido del diplotipo {diplotype}.",
+  "cnv.impact": "El número de copias cambia la cantidad de enzima producida y puede modificar el fenotipo por sí solo.",
+
+  "sim.open": "¿Y si...?",
+  "sim.title": "Simulador de escenarios",
+  "sim.marker": "Simulado — no es un resultado del paciente",
+  "sim.note": "Calculado en el navegador con tablas CPIC simplificadas para explorar alternativas. No lo utilice para prescribir.",
+  "sim.patient": "Resultado del paciente",
+  "sim.simulated": "Simulado",
+  "sim.allele": "Alelo {n}",
+  "sim.copies": "Copias",
+  "sim.vkorc1": "VKORC1 -1639G>A",
+  "sim.unknownFunction": "{allele} (función desconocida)",
+  "sim.reset": "Restablecer al paciente",
+  "sim.close": "Cerrar simulador",
+
+  "warfarin.title": "Estimación de la dosis inicial (IWPC)",
+  "warfarin.age": "Edad (años)",
+  "warfarin.height": "Altura (cm)",
+  "warfarin.weight": "Peso (kg)",
+  "warfarin.race": "Raza",
+  "warfarin.cyp2c9": "Genotipo CYP2C9",
+  "warfarin.vkorc1": "VKORC1 -1639G>A",
+  "warfarin.unknown": "Desconocido",
+  "warfarin.fromAnalysis": "De este análisis",
+  "warfarin.differsFromAnalysis": "El análisis indicó {value}",
+  "warfarin.notReported": "No indicado por este análisis",
+  "warfarin.inducer": "Toma carbamazepina, fenitoína, rifampina o rifampicina",
+  "warfarin.amiodarone": "Toma amiodarona",
+  "warfarin.invalid.age": "Introduzca una edad entre 18 y 100.",
+  "warfarin.invalid.height": "Introduzca una altura entre 120 y 220 cm.",
+  "warfarin.invalid.weight": "Introduzca un peso entre 30 y 250 kg.",
+  "warfarin.pharmacogenetic": "Estimación farmacogenética",
+  "warfarin.clinical": "Estimación solo clínica",
+  "warfarin.weekly": "{dose} mg/semana",
+  "warfarin.daily": "≈ {dose} mg/día",
+  "warfarin.incomplete": "Introduzca edad, altura y peso.",
+  "warfarin.save": "Guardar con el análisis",
+  "warfarin.saved": "Guardado {date}",
+  "warfarin.savedBy": "Guardado por {name} • {date}",
+  "warfarin.unsaved": "cambios sin guardar",
+  "warfarin.clear": "Eliminar estimación guardada",
+  "warfarin.note": "Algoritmo IWPC (NEJM 2009). Estima la dosis de mantenimiento estable en adultos; ajuste según el INR y el criterio clínico.",
+  "race.white": "Blanca",
+  "race.asian": "Asiática",
+  "race.black": "Negra o afroamericana",
+  "race.other": "Mixta o no indicada",
+
+  "risk.Safe": "Seguro",
+  "risk.Adjust Dosage": "Ajustar dosis",
+  "risk.Toxic": "Tóxico",
+  "risk.Ineffective": "Ineficaz",
+  "risk.Unknown": "Desconocido",
+
+  "severity.none": "Ninguna",
+  "severity.low": "Baja",
+  "severity.moderate": "Moderada",
+  "severity.high": "Alta",
+  "severity.critical": "Crítica",
+  "severity.unknown": "Desconocida",
+
+  "completeness.full": "Completa",
+  "completeness.partial": "Parcial",
+  "completeness.low": "Baja",
+
+  "quality.heading": "Calidad",
+  "quality.overall": "Confianza global",
+  "quality.threshold": "Umbral de verificación: {value}",
+  "quality.completeness": "Completitud de la anotación: {value}",
+  "quality.variantsAnalyzed": "Variantes analizadas: {count}",
+  "quality.interaction": "Aviso de interacción:",
+  "quality.verify": "Verificar antes de actuar",
+  "quality.verifyDrugs": "Los resultados de {drugs} tienen una completitud de anotación o una confianza bajas; confírmelos antes de cambiar el tratamiento.",
+  "quality.lowCompleteness": "La completitud de la anotación es baja.",
+  "quality.lowConfidence": "La confianza de {value} está por debajo del umbral de {threshold}.",
+
+  "history.title": "Historial de análisis",
+  "history.subtitle": "Guardado solo en este navegador",
+  "history.unavailable": "El historial local no está disponible en este navegador.",
+  "history.compare": "Comparar ({count}/2)",
+  "history.compareHint": "Marque dos análisis para compararlos",
+  "history.import": "Importar",
+  "history.export": "Exportar",
+  "history.exportDeidentified":
+    "El archivo conserva los identificadores reales; desactive la desidentificación para exportarlo",
+  "history.imported": "Análisis importados: {count}.",
+  "history.importFailed": "No se pudo importar el archivo: {detail}",
+  "history.exportFailed": "No se pudo exportar el historial: {detail}",
+  "history.deleteFailed": "No se pudo eliminar el análisis: {detail}",
+  "history.confirmDelete": "¿Eliminar el análisis {id} del historial local?",
+  "history.search": "Buscar paciente, ID de análisis o fármaco...",
+  "history.anyRisk": "Cualquier riesgo",
+  "history.anySeverity": "Cualquier gravedad",
+  "history.anyDrug": "Cualquier fármaco",
+  "history.sort.newest": "Más recientes primero",
+  "history.sort.oldest": "Más antiguos primero",
+  "history.sort.patient": "ID de paciente",
+  "history.sort.risk": "Mayor riesgo primero",
+  "history.noMatches": "Ningún análisis coincide con estos filtros.",
+  "history.empty": "Todavía no hay análisis guardados.",
+  "history.column.patient": "Paciente",
+  "history.column.date": "Fecha",
+  "history.column.drugs": "Fármacos",
+  "history.column.worstRisk": "Mayor riesgo",
+  "history.selectForCompare": "Seleccionar {id} para comparar",
+  "history.delete": "Eliminar del historial",
+
+  "compare.title": "Comparar análisis",
+  "compare.subtitle": "Diferencias por fármaco entre dos análisis",
+  "compare.export": "Exportar diferencias",
+  "compare.first": "ID del primer análisis",
+  "compare.second": "ID del segundo análisis",
+  "compare.submit": "Comparar",
+  "compare.notFound": "No se encontró el análisis {id}",
+  "compare.before": "Antes",
+  "compare.after": "Después",
+  "compare.differentPatients": "Estos análisis pertenecen a pacientes distintos.",
+  "compare.summary.changed": "Modificados: {count}",
+  "compare.summary.added": "Añadidos: {count}",
+  "compare.summary.removed": "Eliminados: {count}",
+  "compare.summary.unchanged": "Sin cambios: {count}",
+  "compare.kind.changed": "modificado",
+  "compare.kind.added": "añadido",
+  "compare.kind.removed": "eliminado",
+  "compare.kind.unchanged": "sin cambios",
+  "compare.showUnchanged": "Mostrar campos sin cambios",
+  "compare.noDifferences": "Sin diferencias.",
+  "compare.field": "Campo",
+
+  "batch.title": "Análisis por lotes",
+  "batch.subtitle": "Analice un panel de VCF, {count} a la vez",
+  "batch.single": "Análisis individual",
+  "batch.drop": "Suelte aquí archivos o carpetas VCF",
+  "batch.files": "Archivos",
+  "batch.folder": "Carpeta",
+  "batch.drugs": "Fármacos",
+  "batch.queue": "Cola",
+  "batch.count.done": "Completados: {count}",
+  "batch.count.failed": "Fallidos: {count}",
+  "batch.count.cancelled": "Cancelados: {count}",
+  "batch.total": "Total: {count}",
+  "batch.retryFailed": "Reintentar fallidos",
+  "batch.cancelAll": "Cancelar todo",
+  "batch.analyzeAll": "Analizar todo",
+  "batch.status.queued": "en cola",
+  "batch.status.preparing": "preparando",
+  "batch.status.analyzing": "analizando",
+  "batch.status.done": "completado",
+  "batch.status.failed": "fallido",
+  "batch.status.cancelled": "cancelado",
+  "batch.results": "Resultados",
+  "batch.remove": "Quitar",
+  "batch.cohort": "Resumen de la cohorte",
+  "batch.searchPatient": "Buscar paciente...",
+  "batch.searchPatientOrFile": "Buscar paciente o archivo...",
+  "batch.anyDrug": "Cualquier fármaco",
+  "batch.anyRisk": "Cualquier riesgo",
+  "batch.exportCsv": "Exportar CSV",
+  "batch.noMatches": "Ningún paciente coincide con estos filtros.",
+  "batch.patient": "Paciente",
+
+  "audit.title": "Registro de auditoría",
+  "audit.subtitle": "Análisis y consultas de resultados registrados por el backend",
+  "audit.refresh": "Actualizar",
+  "audit.exportCsv": "Exportar CSV",
+  "audit.from": "Desde",
+  "audit.to": "Hasta",
+  "audit.patientId": "ID de paciente",
+  "audit.analysisId": "ID de análisis",
+  "audit.anyDrug": "Cualquier fármaco",
+  "audit.anyAction": "Cualquier acción",
+  "audit.auditId": "ID de auditoría {id}",
+  "audit.showAllAuditIds": "Mostrar todos los ID de auditoría",
+  "audit.noMatches": "Ninguna entrada de auditoría coincide con estos filtros.",
+  "audit.empty": "El registro de auditoría está vacío.",
+  "audit.column.timestamp": "Hora",
+  "audit.column.action": "Acción",
+  "audit.column.patient_id": "Paciente",
+  "audit.column.analysis_id": "Análisis",
+  "audit.column.drugs": "Fármacos",
+  "audit.column.audit_id": "ID de auditoría",
+  "audit.showPatient": "Mostrar las entradas de este paciente",
+  "audit.notInHistory": "No está en el historial local",
+  "audit.range": "{from}–{to} de {total}",
+  "audit.filteredFrom": "(filtrado de {total})",
+  "audit.page": "Página {page} de {count}",
+  "audit.previousPage": "Página anterior",
+  "audit.nextPage": "Página siguiente",
+
+  "deid.toggle": "Desidentificar",
+  "deid.watermark": "DESIDENTIFICADO",
+  "deid.notice": "Desidentificado: los identificadores se sustituyen por seudónimos estables durante esta sesión del navegador.",
+
+  "disclaimer":
+    "Aviso: este informe es solo un apoyo a la decisión clínica. No sustituye el juicio clínico; consulte siempre a un profesional sanitario cualificado antes de modificar un tratamiento.",
+
+  "report.title": "Informe clínico farmacogenómico",
+  "report.patientId": "ID del paciente",
+  "report.analysisId": "ID del análisis",
+  "report.analysisDate": "Fecha del análisis",
+  "report.generated": "Informe generado",
+  "report.vcfHash": "SHA-256 del VCF",
+  "report.auditId": "ID de auditoría",
+  "report.clinician": "Clínico",
+  "report.severityLegend": "Leyenda de gravedad",
+  "report.riskSummary": "Resumen de riesgos",
+  "report.drug": "Fármaco",
+  "report.risk": "Riesgo",
+  "report.severity": "Gravedad",
+  "report.confidence": "Confianza",
+  "report.notSupported": "No admitido",
+  "report.drugDetails": "Detalle por fármaco",
+  "report.riskAssessment": "Evaluación del riesgo",
+  "report.rationale": "Justificación",
+  "report.profile": "Perfil farmacogenómico",
+  "report.recommendation": "Recomendación clínica",
+  "report.action": "Acción",
+  "report.doseAdjustment": "Ajuste de dosis",
+  "report.monitoring": "Monitorización",
+  "report.alternatives": "Alternativas",
+  "report.quality": "Métricas de calidad",
+  "report.annotation": "Anotación",
+  "report.variantsAnalyzed": "Variantes analizadas",
+  "report.interactionWarning": "Aviso de interacción",
+  "report.aiExplanation": "Explicación de IA",
+  "report.summary": "Resumen",
+  "report.mechanism": "Mecanismo",
+  "report.citation": "Referencia",
+  "report.noExplanation": "No hay explicación disponible.",
+  "report.review": "Revisión clínica",
+  "report.warfarinDose": "Estimación de la dosis inicial de warfarina (IWPC)",
+  "report.doseInputs": "Datos",
+  "report.unsupportedDrug": "Este fármaco no está admitido para el análisis farmacogenómico.",
+  "report.footer": "Paciente {patient} • Análisis {analysis}",
+  "report.page": "Página {page} de {total}",
+};
@@ -0,0 +1,74 @@
+import { en } from "./en";
+import { es } from "./es";
+
+export type MessageKey = keyof typeof en;
+/** A complete catalog; a locale missing (or adding) a key fails the type-check. */
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const LOCALES = ["en", "es"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
+
+export const CATALOGS: Record<Locale, Messages> = { en, es };
+
+const STORAGE_KEY = "pharmaguard-locale";
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/** Stored choice first, then the browser's preferred languages. */
+export function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    /* storage unavailable */
+  }
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const base = tag.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function storeLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    /* storage unavailable */
+  }
+}
+
+export function translator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale];
+  return (key, params) => {
+    const message = catalog[key] ?? en[key] ?? key;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+}
+
+export function formatDate(locale: Locale, value: string | number | Date): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" }).format(date);
+}
+
+/** Formats a 0–1 fraction as a whole percentage. */
+export function formatPercent(locale: Locale, value: number): string {
+  return new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 }).format(value);
+}
+
+export function formatNumber(locale: Locale, value: number): string {
+  return new Intl.NumberFormat(locale).format(value);
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { Locale, Translate } from "./index";
+import {
+  DEFAULT_LOCALE,
+  detectLocale,
+  formatDate,
+  formatNumber,
+  formatPercent,
+  storeLocale,
+  translator,
+} from "./index";
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatDate: (value: string | number | Date) => string;
+  formatPercent: (value: number) => string;
+  formatNumber: (value: number) => string;
+}
+
+function contextValue(locale: Locale, setLocale: (locale: Locale) => void): I18nContextValue {
+  return {
+    locale,
+    setLocale,
+    t: translator(locale),
+    formatDate: (value) => formatDate(locale, value),
+    formatPercent: (value) => formatPercent(locale, value),
+    formatNumber: (value) => formatNumber(locale, value),
+  };
+}
+
+const I18nContext = createContext<I18nContextValue>(contextValue(DEFAULT_LOCALE, () => {}));
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  // Server render and first client render use the default; the detected locale applies after hydration
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(detectLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    storeLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo(() => contextValue(locale, setLocale), [locale, setLocale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,74 @@
+import type { AnalysisJob, JobStage, JobStatus, RequestOptions } from "./api";
+import { getResults } from "./api";
+import { cacheInSession, saveAnalysis } from "./history";
+import type { ParsedAnalysis } from "./schema";
+
+/** A submitted analysis job, kept across reloads until its results are saved or it is dismissed. */
+export interface PendingJob {
+  jobId: string;
+  fileName: string;
+  drugs: string[];
+  /** Sample column when the upload was one of several samples */
+  sample?: string;
+  submittedAt: number;
+  /** Last update seen */
+  stage: JobStage;
+  status: JobStatus;
+}
+
+const STORAGE_KEY = "pharmaguard-jobs";
+// Older jobs are assumed to have been dropped by the backend
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+function writeJobs(jobs: PendingJob[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch {
+    /* storage full or disabled */
+  }
+}
+
+export function listPendingJobs(): PendingJob[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (j): j is PendingJob =>
+        typeof j?.jobId === "string" &&
+        typeof j.fileName === "string" &&
+        Array.isArray(j.drugs) &&
+        typeof j.submittedAt === "number" &&
+        Date.now() - j.submittedAt < MAX_AGE_MS
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function rememberJob(job: PendingJob) {
+  writeJobs([...listPendingJobs().filter((j) => j.jobId !== job.jobId), job]);
+}
+
+export function updatePendingJob(job: AnalysisJob) {
+  writeJobs(
+    listPendingJobs().map((j) => (j.jobId === job.job_id ? { ...j, stage: job.stage, status: job.status } : j))
+  );
+}
+
+export function forgetJob(jobId: string) {
+  writeJobs(listPendingJobs().filter((j) => j.jobId !== jobId));
+}
+
+/** Fetches a completed job's analysis, stores it like a synchronous one, and drops the job from the pending list. */
+export async function finishJob(
+  pending: Pick<PendingJob, "jobId" | "sample">,
+  job: AnalysisJob,
+  options: RequestOptions = {}
+): Promise<ParsedAnalysis> {
+  const parsed = await getResults(job.analysis_id!, options);
+  if (pending.sample) parsed.sample = pending.sample;
+  cacheInSession(parsed);
+  await saveAnalysis(parsed, "analyzed").catch(() => {});
+  forgetJob(pending.jobId);
+  return parsed;
+}
@@ -0,0 +1,223 @@
+import { parseCsv } from "./csv";
+
+export type MedicationFormat = "text" | "csv" | "fhir";
+
+export interface MedicationMatch {
+  /** The medication as written in the imported list */
+  source: string;
+  /** Supported drug it was normalized to, or null when it is not analyzed */
+  drug: string | null;
+}
+
+export interface MedicationImport {
+  format: MedicationFormat;
+  matches: MedicationMatch[];
+  /** Supported drugs found, in list order, without duplicates */
+  drugs: string[];
+  unrecognized: string[];
+}
+
+// Brand names and other names a generic is prescribed under, lower-case. Salts need no entry:
+// each word of a medication is looked up on its own, so "warfarin sodium" matches on "warfarin".
+const ALIASES: Record<string, string[]> = {
+  Codeine: ["codeine", "codein", "codeina", "tuzistra", "tuxarin"],
+  Warfarin: ["warfarin", "warfarina", "coumadin", "coumadine", "jantoven", "marevan", "waran"],
+  Clopidogrel: ["clopidogrel", "plavix", "iscover", "duoplavin"],
+  Simvastatin: ["simvastatin", "simvastatina", "zocor", "flolipid", "vytorin", "inegy", "simcor"],
+  Azathioprine: ["azathioprine", "azatioprina", "imuran", "imurel", "azasan"],
+  Fluorouracil: ["fluorouracil", "fluorouracilo", "adrucil", "efudex", "carac", "fluoroplex", "tolak", "5fu"],
+};
+
+// RxNorm ingredient codes, for FHIR medications coded without a display name
+const RXNORM = "http://www.nlm.nih.gov/research/umls/rxnorm";
+const RXNORM_INGREDIENTS: Record<string, string> = {
+  "2670": "Codeine",
+  "11289": "Warfarin",
+  "32968": "Clopidogrel",
+  "36567": "Simvastatin",
+  "1256": "Azathioprine",
+  "4492": "Fluorouracil",
+};
+
+const CSV_NAME_COLUMNS = ["medication", "medication name", "drug", "drug name", "name", "medicine", "description"];
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function words(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\b5[\s-]?fu\b/g, "5fu")
+    .split(/[^a-z0-9]+/)
+    .filter((w) => /[a-z]/.test(w));
+}
+
+/**
+ * The supported drug a medication name refers to: a generic or brand name, with salts, strengths
+ * and dosage forms ignored and one or two typos tolerated. `supported` is the drug catalog.
+ */
+export function normalizeMedication(name: string, supported: string[]): string | null {
+  const catalog = new Map(supported.map((d) => [d.toLowerCase(), d]));
+  const lookup = new Map<string, string>();
+  for (const [drug, aliases] of Object.entries(ALIASES)) {
+    const match = catalog.get(drug.toLowerCase());
+    if (match) aliases.forEach((alias) => lookup.set(alias, match));
+  }
+  catalog.forEach((drug, key) => lookup.set(key, drug));
+
+  const tokens = words(name);
+  for (const w of tokens) {
+    const exact = lookup.get(w);
+    if (exact) return exact;
+  }
+  // Short names are only matched exactly: "Carac" is one edit from "Carace", a lisinopril brand
+  const fuzzy = Array.from(lookup.entries()).filter(([alias]) => alias.length >= 7);
+  for (const w of tokens.filter((t) => t.length >= 6)) {
+    const limit = w.length >= 9 ? 2 : 1;
+    let best: { drug: string; distance: number } | null = null;
+    for (const [alias, drug] of fuzzy) {
+      if (Math.abs(alias.length - w.length) > limit) continue;
+      const distance = editDistance(w, alias);
+      if (distance <= limit && (!best || distance < best.distance)) best = { drug, distance };
+    }
+    if (best) return best.drug;
+  }
+  return null;
+}
+
+function textEntries(text: string): string[] {
+  return text
+    .split(/[\r\n;]+|,(?!\d)/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+}
+
+/** Uses the column named like a medication when there is a header row, otherwise the first column. */
+function csvEntries(text: string): string[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, "")).filter((row) => row.some((c) => c.trim()));
+  if (rows.length === 0) return [];
+  const header = rows[0].map((c) => c.trim().toLowerCase());
+  const column = CSV_NAME_COLUMNS.map((name) => header.indexOf(name)).find((i) => i >= 0);
+  const data = column === undefined ? rows : rows.slice(1);
+  return data.map((row) => (row[column ?? 0] ?? "").trim()).filter(Boolean);
+}
+
+export interface FhirCodeableConcept {
+  text?: string;
+  coding?: { system?: string; code?: string; display?: string }[];
+}
+
+interface FhirMedicationResource {
+  resourceType?: string;
+  id?: string;
+  status?: string;
+  code?: FhirCodeableConcept;
+  medicationCodeableConcept?: FhirCodeableConcept;
+  medicationReference?: { reference?: string; display?: string };
+  contained?: FhirMedicationResource[];
+}
+
+function conceptName(concept?: FhirCodeableConcept): string | null {
+  if (!concept) return null;
+  if (concept.text?.trim()) return concept.text.trim();
+  const display = concept.coding?.find((c) => c.display?.trim())?.display?.trim();
+  if (display) return display;
+  const rxnorm = concept.coding?.find((c) => c.system === RXNORM && c.code && RXNORM_INGREDIENTS[c.code]);
+  return rxnorm ? RXNORM_INGREDIENTS[rxnorm.code!] : null;
+}
+
+/** The supported drug a coded medication refers to: by RxNorm ingredient code, else by its text or display names. */
+export function normalizeConcept(concept: FhirCodeableConcept | undefined, supported: string[]): string | null {
+  if (!concept) return null;
+  const rxnorm = concept.coding?.find((c) => c.system === RXNORM && c.code && RXNORM_INGREDIENTS[c.code]);
+  const names = [rxnorm && RXNORM_INGREDIENTS[rxnorm.code!], concept.text, ...(concept.coding ?? []).map((c) => c.display)];
+  for (const name of names) {
+    const drug = name?.trim() ? normalizeMedication(name, supported) : null;
+    if (drug) return drug;
+  }
+  return null;
+}
+
+/** Names from the MedicationRequest and MedicationStatement resources of a bundle or a single resource. */
+function fhirEntries(json: unknown): string[] {
+  const root = json as { resourceType?: string; entry?: { fullUrl?: string; resource?: FhirMedicationResource }[] };
+  if (!root || typeof root !== "object") throw new Error("Not a FHIR resource");
+  const resources: { fullUrl?: string; resource: FhirMedicationResource }[] =
+    root.resourceType === "Bundle"
+      ? (root.entry ?? []).filter((e) => e?.resource).map((e) => ({ fullUrl: e.fullUrl, resource: e.resource! }))
+      : [{ resource: root as FhirMedicationResource }];
+
+  const medications = new Map<string, FhirMedicationResource>();
+  for (const { fullUrl, resource } of resources) {
+    if (resource.resourceType !== "Medication") continue;
+    if (fullUrl) medications.set(fullUrl, resource);
+    if (resource.id) medications.set(`Medication/${resource.id}`, resource);
+  }
+
+  const statements = resources
+    .map((r) => r.resource)
+    .filter((r) => r.resourceType === "MedicationRequest" || r.resourceType === "MedicationStatement");
+  if (statements.length === 0) throw new Error("No MedicationRequest or MedicationStatement resources found");
+
+  return statements
+    .filter((r) => r.status !== "entered-in-error")
+    .map((r) => {
+      const ref = r.medicationReference;
+      const referenced = ref?.reference?.startsWith("#")
+        ? r.contained?.find((c) => c.id === ref.reference!.slice(1))
+        : ref?.reference
+          ? medications.get(ref.reference)
+          : undefined;
+      return conceptName(r.medicationCodeableConcept) ?? conceptName(referenced?.code) ?? ref?.display?.trim() ?? "";
+    })
+    .filter(Boolean);
+}
+
+export function detectFormat(text: string, fileName?: string): MedicationFormat {
+  const trimmed = text.trimStart();
+  if (/\.json$/i.test(fileName ?? "") || trimmed.startsWith("{")) return "fhir";
+  if (/\.csv$/i.test(fileName ?? "")) return "csv";
+  const first = trimmed.split(/\r?\n/, 1)[0].toLowerCase();
+  return first.includes(",") && CSV_NAME_COLUMNS.some((c) => first.split(",").some((h) => h.trim() === c))
+    ? "csv"
+    : "text";
+}
+
+/**
+ * Reads a pasted or uploaded medication list (free text, CSV or FHIR JSON) and normalizes each
+ * medication to a supported drug. Throws when a FHIR list cannot be read.
+ */
+export function importMedications(text: string, supported: string[], fileName?: string): MedicationImport {
+  const format = detectFormat(text, fileName);
+  let entries: string[];
+  if (format === "fhir") {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error("Medication list is not valid JSON");
+    }
+    entries = fhirEntries(json);
+  } else {
+    entries = format === "csv" ? csvEntries(text) : textEntries(text);
+  }
+
+  const matches = entries.map((source) => ({ source, drug: normalizeMedication(source, supported) }));
+  return {
+    format,
+    matches,
+    drugs: Array.from(new Set(matches.flatMap((m) => (m.drug ? [m.drug] : [])))),
+    unrecognized: Array.from(new Set(matches.filter((m) => !m.drug).map((m) => m.source))),
+  };
+}
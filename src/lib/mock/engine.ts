@@ -0,0 +1,153 @@
+import type {
+  AnalysisResponse,
+  DrugAnalysisResult,
+  LLMExplanation,
+  UnsupportedDrugResult,
+} from "../api";
+import { findGene, geneRegions } from "../pharmacogenes";
+import type { Outcome } from "./fixtures";
+import { DRUG_FIXTURES } from "./fixtures";
+
+interface Genotype {
+  /** Non-reference allele count per rsID for the first sample */
+  altCounts: Map<string, number>;
+  /** Genes with a duplication/copy-number call */
+  duplicated: Set<string>;
+  /** Records seen per gene */
+  recordsPerGene: Map<string, number>;
+  sample: string | null;
+}
+
+function altCount(gt: string | undefined): number {
+  if (!gt) return 0;
+  return gt
+    .split(/[/|]/)
+    .filter((a) => a !== "." && a !== "0").length;
+}
+
+export function readGenotype(vcf: string): Genotype {
+  const g: Genotype = {
+    altCounts: new Map(),
+    duplicated: new Set(),
+    recordsPerGene: new Map(),
+    sample: null,
+  };
+  const regions = geneRegions(null);
+  for (const line of vcf.split(/\r?\n/)) {
+    if (!line || line.startsWith("##")) continue;
+    const f = line.split("\t");
+    if (line.startsWith("#")) {
+      g.sample = f[9] ?? null;
+      continue;
+    }
+    const gene = findGene(f[0], Number(f[1]), regions);
+    if (gene) g.recordsPerGene.set(gene, (g.recordsPerGene.get(gene) ?? 0) + 1);
+    const gtIndex = (f[8] ?? "").split(":").indexOf("GT");
+    const count = gtIndex === -1 ? 0 : altCount(f[9]?.split(":")[gtIndex]);
+    for (const id of f[2].split(";")) {
+      if (id.startsWith("rs")) g.altCounts.set(id, Math.max(g.altCounts.get(id) ?? 0, count));
+    }
+    if (gene && count > 0 && /<(DUP|CN[3-9])/.test(f[4])) g.duplicated.add(gene);
+  }
+  return g;
+}
+
+function outcomeFor(drug: string, g: Genotype): Outcome {
+  const fixture = DRUG_FIXTURES[drug];
+  if (g.duplicated.has(fixture.gene) && fixture.outcomes.ultrarapid) return "ultrarapid";
+  const alleles = Object.keys(fixture.variants).reduce((n, rs) => n + (g.altCounts.get(rs) ?? 0), 0);
+  if (alleles >= 2) return "poor";
+  if (alleles === 1) return "intermediate";
+  return "normal";
+}
+
+function drugResult(drug: string, g: Genotype): DrugAnalysisResult {
+  const fixture = DRUG_FIXTURES[drug];
+  const outcome = outcomeFor(drug, g);
+  const o = fixture.outcomes[outcome] ?? fixture.outcomes.normal;
+  const detected = Object.entries(fixture.variants)
+    .filter(([rs]) => (g.altCounts.get(rs) ?? 0) > 0)
+    .map(([rs, allele]) => `${rs} (${allele}) ${g.altCounts.get(rs) === 2 ? "hom" : "het"}`);
+  const records = g.recordsPerGene.get(fixture.gene) ?? 0;
+  const vkorc1 = g.altCounts.get("rs9923231") ?? 0;
+  return {
+    drug,
+    pharmacogenomic_profile: {
+      gene: fixture.gene,
+      diplotype: o.diplotype,
+      phenotype: o.phenotype,
+      detected_variants: detected,
+      activity_score: o.activity_score,
+      copy_number: outcome === "ultrarapid" ? 3 : 2,
+    },
+    risk_assessment: o.risk,
+    clinical_recommendation: o.recommendation,
+    quality_metrics: {
+      annotation_completeness: records >= 3 ? "full" : records > 0 ? "partial" : "low",
+      variants_analyzed: records,
+      confidence_breakdown: {
+        genotype_quality: records > 0 ? 0.95 : 0.6,
+        annotation_coverage: records >= 3 ? 0.92 : 0.7,
+        guideline_evidence: 0.9,
+      },
+      interaction_warning:
+        drug === "WARFARIN" && vkorc1 > 0
+          ? `VKORC1 -1639G>A (rs9923231) ${vkorc1 === 2 ? "homozygous" : "heterozygous"}: increased warfarin sensitivity.`
+          : null,
+    },
+    llm_explanation: o.explanation,
+  };
+}
+
+function unsupported(drug: string): UnsupportedDrugResult {
+  return {
+    drug,
+    risk_assessment: {
+      risk_label: "Unknown",
+      confidence_score: 0,
+      severity: "none",
+      rationale: "No pharmacogenomic guideline is configured for this drug.",
+    },
+    clinical_recommendation: {
+      action: `${drug} is not supported for pharmacogenomic analysis.`,
+    },
+  };
+}
+
+export function analyze(
+  vcf: string,
+  drugs: string[],
+  ids: { analysisId: string; auditId: string; vcfHash: string }
+): AnalysisResponse {
+  const g = readGenotype(vcf);
+  return {
+    patient_id: g.sample ?? `PATIENT_${ids.vcfHash.slice(0, 8).toUpperCase()}`,
+    analysis_id: ids.analysisId,
+    timestamp: new Date().toISOString(),
+    results: drugs.map((d) => (DRUG_FIXTURES[d] ? drugResult(d, g) : unsupported(d))),
+    vcf_hash: ids.vcfHash,
+    audit_id: ids.auditId,
+  };
+}
+
+const REPHRASINGS = [
+  "In plain terms: ",
+  "Put simply, ",
+  "Clinically, ",
+];
+
+/** A reworded copy of the fixture explanation, so regeneration visibly changes the text. */
+export function regenerateExplanation(result: DrugAnalysisResult, attempt: number): LLMExplanation {
+  const base = result.llm_explanation ?? {
+    summary: result.risk_assessment.rationale ?? result.clinical_recommendation.action,
+    mechanism: `${result.pharmacogenomic_profile.gene} ${result.pharmacogenomic_profile.phenotype}.`,
+    citation: "CPIC Guideline",
+  };
+  const prefix = REPHRASINGS[attempt % REPHRASINGS.length];
+  const summary = base.summary.replace(/^(In plain terms: |Put simply, |Clinically, )/, "");
+  return {
+    summary: prefix + summary.charAt(0).toLowerCase() + summary.slice(1),
+    mechanism: base.mechanism,
+    citation: base.citation,
+  };
+}
@@ -0,0 +1,218 @@
+import type {
+  ClinicalRecommendation,
+  LLMExplanation,
+  RiskAssessment,
+} from "../api";
+
+export type Outcome = "normal" | "intermediate" | "poor" | "ultrarapid";
+
+export interface OutcomeFixture {
+  diplotype: string;
+  phenotype: string;
+  activity_score: number | null;
+  risk: RiskAssessment;
+  recommendation: ClinicalRecommendation;
+  explanation: LLMExplanation;
+}
+
+export interface DrugFixture {
+  gene: string;
+  /** rsIDs whose alternate allele counts as one non-functional allele */
+  variants: Record<string, string>;
+  outcomes: Partial<Record<Outcome, OutcomeFixture>> & { normal: OutcomeFixture };
+}
+
+const CPIC = "CPIC Guideline";
+
+export const DRUG_FIXTURES: Record<string, DrugFixture> = {
+  CODEINE: {
+    gene: "CYP2D6",
+    variants: { rs3892097: "*4", rs1065852: "*10", rs5030655: "*6" },
+    outcomes: {
+      normal: {
+        diplotype: "*1/*1",
+        phenotype: "Normal Metabolizer",
+        activity_score: 2,
+        risk: { risk_label: "Safe", confidence_score: 0.94, severity: "none", rationale: "Two fully functional CYP2D6 alleles; expected morphine formation." },
+        recommendation: { action: "Use label-recommended age- or weight-specific dosing.", dose_adjustment: null, monitoring: "Standard pain and sedation monitoring.", alternative_drugs: null },
+        explanation: { summary: "CYP2D6 activity is normal, so codeine is converted to morphine as expected.", mechanism: "Codeine is a prodrug O-demethylated by CYP2D6 to morphine, its active metabolite.", citation: `${CPIC} for CYP2D6, OPRM1, COMT and Opioid Therapy (2021)` },
+      },
+      intermediate: {
+        diplotype: "*1/*4",
+        phenotype: "Intermediate Metabolizer",
+        activity_score: 1,
+        risk: { risk_label: "Adjust Dosage", confidence_score: 0.86, severity: "moderate", rationale: "One non-functional CYP2D6 allele reduces morphine formation." },
+        recommendation: { action: "Use label-recommended dosing; if no response, consider a non-CYP2D6 opioid.", dose_adjustment: "Start at standard dose and titrate to effect.", monitoring: "Monitor analgesic response closely.", alternative_drugs: ["Morphine", "Hydromorphone", "Non-opioid analgesics"] },
+        explanation: { summary: "Reduced CYP2D6 activity may lower codeine's pain relief.", mechanism: "The *4 splicing defect abolishes enzyme activity from one allele, halving conversion to morphine.", citation: `${CPIC} for CYP2D6, OPRM1, COMT and Opioid Therapy (2021)` },
+      },
+      poor: {
+        diplotype: "*4/*4",
+        phenotype: "Poor Metabolizer",
+        activity_score: 0,
+        risk: { risk_label: "Ineffective", confidence_score: 0.92, severity: "high", rationale: "No functional CYP2D6; codeine is not activated." },
+        recommendation: { action: "Avoid codeine due to lack of efficacy.", dose_adjustment: null, monitoring: null, alternative_drugs: ["Morphine", "Non-opioid analgesics"] },
+        explanation: { summary: "Codeine will not relieve pain because it cannot be converted to morphine.", mechanism: "Homozygous *4 alleles produce no CYP2D6 enzyme, blocking O-demethylation.", citation: `${CPIC} for CYP2D6, OPRM1, COMT and Opioid Therapy (2021)` },
+      },
+      ultrarapid: {
+        diplotype: "*1/*1xN",
+        phenotype: "Ultrarapid Metabolizer",
+        activity_score: 3,
+        risk: { risk_label: "Toxic", confidence_score: 0.9, severity: "critical", rationale: "CYP2D6 gene duplication causes rapid morphine accumulation." },
+        recommendation: { action: "Avoid codeine due to potential for serious toxicity.", dose_adjustment: null, monitoring: "Respiratory depression risk if already administered.", alternative_drugs: ["Morphine", "Non-opioid analgesics"] },
+        explanation: { summary: "Extra CYP2D6 copies convert codeine to morphine too quickly, risking overdose.", mechanism: "Duplicated functional CYP2D6 alleles increase O-demethylation capacity.", citation: `${CPIC} for CYP2D6, OPRM1, COMT and Opioid Therapy (2021)` },
+      },
+    },
+  },
+  WARFARIN: {
+    gene: "CYP2C9",
+    variants: { rs1799853: "*2", rs1057910: "*3" },
+    outcomes: {
+      normal: {
+        diplotype: "*1/*1",
+        phenotype: "Normal Metabolizer",
+        activity_score: 2,
+        risk: { risk_label: "Safe", confidence_score: 0.88, severity: "low", rationale: "Normal CYP2C9 function; dose by clinical algorithm." },
+        recommendation: { action: "Initiate with a validated dosing algorithm.", dose_adjustment: "Standard starting dose (≈5 mg/day).", monitoring: "INR per standard protocol.", alternative_drugs: null },
+        explanation: { summary: "Warfarin clearance is expected to be normal.", mechanism: "CYP2C9 hydroxylates the more potent S-warfarin enantiomer.", citation: `${CPIC} for Pharmacogenetics-Guided Warfarin Dosing (2017)` },
+      },
+      intermediate: {
+        diplotype: "*1/*3",
+        phenotype: "Intermediate Metabolizer",
+        activity_score: 1,
+        risk: { risk_label: "Adjust Dosage", confidence_score: 0.87, severity: "moderate", rationale: "Reduced S-warfarin clearance raises bleeding risk at standard doses." },
+        recommendation: { action: "Reduce starting dose using a pharmacogenetic algorithm.", dose_adjustment: "Reduce initial dose by 20–40%.", monitoring: "More frequent INR checks during initiation.", alternative_drugs: ["Apixaban", "Rivaroxaban"] },
+        explanation: { summary: "Slower warfarin breakdown means a lower dose is usually needed.", mechanism: "CYP2C9*3 (Ile359Leu) reduces catalytic efficiency for S-warfarin.", citation: `${CPIC} for Pharmacogenetics-Guided Warfarin Dosing (2017)` },
+      },
+      poor: {
+        diplotype: "*3/*3",
+        phenotype: "Poor Metabolizer",
+        activity_score: 0,
+        risk: { risk_label: "Toxic", confidence_score: 0.9, severity: "high", rationale: "Markedly reduced clearance; high bleeding risk at standard doses." },
+        recommendation: { action: "Substantially reduce dose or consider an alternative anticoagulant.", dose_adjustment: "Reduce initial dose by 50–80%.", monitoring: "Daily INR during initiation.", alternative_drugs: ["Apixaban", "Rivaroxaban", "Dabigatran"] },
+        explanation: { summary: "Warfarin accumulates and may cause serious bleeding at usual doses.", mechanism: "Two reduced-function CYP2C9 alleles severely limit S-warfarin metabolism.", citation: `${CPIC} for Pharmacogenetics-Guided Warfarin Dosing (2017)` },
+      },
+    },
+  },
+  CLOPIDOGREL: {
+    gene: "CYP2C19",
+    variants: { rs4244285: "*2", rs4986893: "*3" },
+    outcomes: {
+      normal: {
+        diplotype: "*1/*1",
+        phenotype: "Normal Metabolizer",
+        activity_score: null,
+        risk: { risk_label: "Safe", confidence_score: 0.93, severity: "none", rationale: "Normal clopidogrel activation expected." },
+        recommendation: { action: "Use standard dose (75 mg/day).", dose_adjustment: null, monitoring: null, alternative_drugs: null },
+        explanation: { summary: "Clopidogrel should be activated normally.", mechanism: "CYP2C19 converts clopidogrel to its active thiol metabolite.", citation: `${CPIC} for CYP2C19 and Clopidogrel Therapy (2022)` },
+      },
+      intermediate: {
+        diplotype: "*1/*2",
+        phenotype: "Intermediate Metabolizer",
+        activity_score: null,
+        risk: { risk_label: "Ineffective", confidence_score: 0.84, severity: "moderate", rationale: "Reduced active metabolite formation and platelet inhibition." },
+        recommendation: { action: "Avoid standard-dose clopidogrel if possible; use an alternative P2Y12 inhibitor.", dose_adjustment: null, monitoring: "Consider platelet function testing.", alternative_drugs: ["Prasugrel", "Ticagrelor"] },
+        explanation: { summary: "Clopidogrel may not protect against clots as well as expected.", mechanism: "CYP2C19*2 causes a splicing defect that removes one functional allele.", citation: `${CPIC} for CYP2C19 and Clopidogrel Therapy (2022)` },
+      },
+      poor: {
+        diplotype: "*2/*2",
+        phenotype: "Poor Metabolizer",
+        activity_score: null,
+        risk: { risk_label: "Ineffective", confidence_score: 0.93, severity: "high", rationale: "Minimal active metabolite; high risk of stent thrombosis." },
+        recommendation: { action: "Avoid clopidogrel; use prasugrel or ticagrelor.", dose_adjustment: null, monitoring: null, alternative_drugs: ["Prasugrel", "Ticagrelor"] },
+        explanation: { summary: "Clopidogrel is unlikely to work and should be replaced.", mechanism: "No functional CYP2C19 alleles are present to activate the prodrug.", citation: `${CPIC} for CYP2C19 and Clopidogrel Therapy (2022)` },
+      },
+    },
+  },
+  SIMVASTATIN: {
+    gene: "SLCO1B1",
+    variants: { rs4149056: "*5" },
+    outcomes: {
+      normal: {
+        diplotype: "*1/*1",
+        phenotype: "Normal Function",
+        activity_score: null,
+        risk: { risk_label: "Safe", confidence_score: 0.91, severity: "none", rationale: "Normal hepatic uptake of simvastatin acid." },
+        recommendation: { action: "Prescribe desired starting dose.", dose_adjustment: null, monitoring: null, alternative_drugs: null },
+        explanation: { summary: "Normal risk of statin-associated muscle symptoms.", mechanism: "OATP1B1 (SLCO1B1) transports simvastatin acid into hepatocytes.", citation: `${CPIC} for SLCO1B1, ABCG2 and CYP2C9 and Statin-Associated Musculoskeletal Symptoms (2022)` },
+      },
+      intermediate: {
+        diplotype: "*1/*5",
+        phenotype: "Decreased Function",
+        activity_score: null,
+        risk: { risk_label: "Adjust Dosage", confidence_score: 0.85, severity: "moderate", rationale: "Raised systemic simvastatin exposure increases myopathy risk." },
+        recommendation: { action: "Limit simvastatin dose or choose an alternative statin.", dose_adjustment: "Do not exceed 20 mg/day.", monitoring: "Monitor for muscle symptoms and CK.", alternative_drugs: ["Rosuvastatin", "Pravastatin"] },
+        explanation: { summary: "Higher blood levels of simvastatin increase the chance of muscle pain.", mechanism: "SLCO1B1 c.521T>C (Val174Ala) reduces hepatic uptake.", citation: `${CPIC} for SLCO1B1, ABCG2 and CYP2C9 and Statin-Associated Musculoskeletal Symptoms (2022)` },
+      },
+      poor: {
+        diplotype: "*5/*5",
+        phenotype: "Poor Function",
+        activity_score: null,
+        risk: { risk_label: "Toxic", confidence_score: 0.9, severity: "high", rationale: "High myopathy risk with simvastatin." },
+        recommendation: { action: "Avoid simvastatin; prescribe an alternative statin.", dose_adjustment: null, monitoring: "Monitor CK if statin therapy continues.", alternative_drugs: ["Rosuvastatin", "Pravastatin"] },
+        explanation: { summary: "Simvastatin carries a high risk of muscle damage for this patient.", mechanism: "Two decreased-function SLCO1B1 alleles markedly raise plasma simvastatin acid.", citation: `${CPIC} for SLCO1B1, ABCG2 and CYP2C9 and Statin-Associated Musculoskeletal Symptoms (2022)` },
+      },
+    },
+  },
+  AZATHIOPRINE: {
+    gene: "TPMT",
+    variants: { rs1142345: "*3C", rs1800460: "*3B", rs1800462: "*2" },
+    outcomes: {
+      normal: {
+        diplotype: "*1/*1",
+        phenotype: "Normal Metabolizer",
+        activity_score: null,
+        risk: { risk_label: "Safe", confidence_score: 0.92, severity: "none", rationale: "Normal thiopurine inactivation." },
+        recommendation: { action: "Start with normal starting dose.", dose_adjustment: null, monitoring: "Standard CBC monitoring.", alternative_drugs: null },
+        explanation: { summary: "Azathioprine can be started at the usual dose.", mechanism: "TPMT methylates 6-mercaptopurine, limiting cytotoxic thioguanine nucleotides.", citation: `${CPIC} for Thiopurine Dosing Based on TPMT and NUDT15 (2018)` },
+      },
+      intermediate: {
+        diplotype: "*1/*3A",
+        phenotype: "Intermediate Metabolizer",
+        activity_score: null,
+        risk: { risk_label: "Adjust Dosage", confidence_score: 0.88, severity: "high", rationale: "Elevated thioguanine nucleotides; myelosuppression risk." },
+        recommendation: { action: "Start at reduced dose and adjust by myelosuppression.", dose_adjustment: "Start at 30–80% of the normal dose.", monitoring: "CBC weekly for the first month.", alternative_drugs: null },
+        explanation: { summary: "A lower starting dose reduces the risk of bone-marrow suppression.", mechanism: "TPMT*3A carries two missense variants that destabilise the enzyme.", citation: `${CPIC} for Thiopurine Dosing Based on TPMT and NUDT15 (2018)` },
+      },
+      poor: {
+        diplotype: "*3A/*3A",
+        phenotype: "Poor Metabolizer",
+        activity_score: null,
+        risk: { risk_label: "Toxic", confidence_score: 0.95, severity: "critical", rationale: "Life-threatening myelosuppression at standard doses." },
+        recommendation: { action: "Use a drastically reduced dose or a non-thiopurine agent.", dose_adjustment: "10% of normal dose, three times weekly.", monitoring: "CBC at least weekly.", alternative_drugs: ["Mycophenolate mofetil"] },
+        explanation: { summary: "Standard azathioprine doses could be fatal for this patient.", mechanism: "Absent TPMT activity shunts thiopurines toward toxic thioguanine nucleotides.", citation: `${CPIC} for Thiopurine Dosing Based on TPMT and NUDT15 (2018)` },
+      },
+    },
+  },
+  FLUOROURACIL: {
+    gene: "DPYD",
+    variants: { rs3918290: "*2A", rs55886062: "*13", rs67376798: "c.2846A>T" },
+    outcomes: {
+      normal: {
+        diplotype: "*1/*1",
+        phenotype: "Normal Metabolizer",
+        activity_score: 2,
+        risk: { risk_label: "Safe", confidence_score: 0.9, severity: "none", rationale: "Normal DPD activity." },
+        recommendation: { action: "Use label-recommended dosing.", dose_adjustment: null, monitoring: "Standard toxicity monitoring.", alternative_drugs: null },
+        explanation: { summary: "Fluorouracil is expected to be cleared normally.", mechanism: "DPD (DPYD) catabolises over 80% of administered fluorouracil.", citation: `${CPIC} for DPYD and Fluoropyrimidine Dosing (2017, 2024 update)` },
+      },
+      intermediate: {
+        diplotype: "*1/*2A",
+        phenotype: "Intermediate Metabolizer",
+        activity_score: 1,
+        risk: { risk_label: "Adjust Dosage", confidence_score: 0.89, severity: "high", rationale: "Reduced DPD activity; severe toxicity risk at full dose." },
+        recommendation: { action: "Reduce starting dose by 50% and titrate on toxicity.", dose_adjustment: "50% of standard starting dose.", monitoring: "Close toxicity monitoring in first cycles.", alternative_drugs: null },
+        explanation: { summary: "Half the usual dose is recommended to avoid severe side effects.", mechanism: "DPYD*2A (IVS14+1G>A) causes exon 14 skipping and a non-functional enzyme.", citation: `${CPIC} for DPYD and Fluoropyrimidine Dosing (2017, 2024 update)` },
+      },
+      poor: {
+        diplotype: "*2A/*2A",
+        phenotype: "Poor Metabolizer",
+        activity_score: 0,
+        risk: { risk_label: "Toxic", confidence_score: 0.96, severity: "critical", rationale: "Complete DPD deficiency; fatal toxicity reported." },
+        recommendation: { action: "Avoid fluorouracil and other fluoropyrimidines.", dose_adjustment: null, monitoring: null, alternative_drugs: ["Non-fluoropyrimidine regimen"] },
+        explanation: { summary: "Fluorouracil should not be given; it could be fatal.", mechanism: "No functional DPD enzyme is available to clear fluorouracil.", citation: `${CPIC} for DPYD and Fluoropyrimidine Dosing (2017, 2024 update)` },
+      },
+    },
+  },
+};
+
+export const SUPPORTED_DRUGS = Object.keys(DRUG_FIXTURES);
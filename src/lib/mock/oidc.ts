@@ -0,0 +1,183 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import { MOCK_ENABLED, detail } from "./server";
+
+// Minimal OpenID Connect provider for local development: authorization code + PKCE (S256),
+// any client id, and a form that lets you sign in as whichever clinician you type in.
+// Set AUTH_ISSUER=http://localhost:3000/api/mock/oidc to use it.
+
+const CODE_TTL_MS = 60_000;
+const TOKEN_TTL_SECONDS = 3600;
+
+interface Claims {
+  sub: string;
+  name: string;
+  email: string;
+}
+
+interface PendingCode {
+  claims: Claims;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  expiresAt: number;
+}
+
+interface OidcState {
+  codes: Map<string, PendingCode>;
+  tokens: Map<string, Claims>;
+}
+
+const globalForOidc = globalThis as unknown as { __pharmaguardOidc?: OidcState };
+
+function oidcState(): OidcState {
+  globalForOidc.__pharmaguardOidc ??= { codes: new Map(), tokens: new Map() };
+  return globalForOidc.__pharmaguardOidc;
+}
+
+const base64Url = (buf: Buffer) => buf.toString("base64url");
+
+export function issuerFor(req: Request): string {
+  return `${new URL(req.url).origin}/api/mock/oidc`;
+}
+
+export function discoveryDocument(req: Request) {
+  const issuer = issuerFor(req);
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code"],
+    code_challenge_methods_supported: ["S256"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["HS256"],
+    scopes_supported: ["openid", "profile", "email"],
+    token_endpoint_auth_methods_supported: ["client_secret_post", "none"],
+  };
+}
+
+/** 404s like the other mock routes when the mock backend is off. */
+export function oidcRoute<Ctx>(
+  handler: (req: Request, ctx: Ctx) => Promise<Response> | Response
+): (req: Request, ctx: Ctx) => Promise<Response> {
+  return async (req, ctx) => (MOCK_ENABLED ? handler(req, ctx) : detail("Not Found", 404));
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const AUTHORIZE_PARAMS = ["client_id", "redirect_uri", "state", "nonce", "code_challenge", "code_challenge_method"];
+
+/** Sign-in form; the query parameters are carried through as hidden fields. */
+export function authorizePage(params: URLSearchParams): Response {
+  const hidden = AUTHORIZE_PARAMS.map(
+    (name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? "")}">`
+  ).join("");
+  const html = `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><title>Local identity provider</title>
+<style>body{font-family:system-ui,sans-serif;background:#f8fafc;display:flex;justify-content:center;padding-top:10vh}
+form{background:#fff;border:1px solid #e2e8f0;border-radius:12px;padding:24px;width:320px}
+label{display:block;font-size:14px;color:#475569;margin-top:12px}input[type=text],input[type=email]{width:100%;box-sizing:border-box;padding:8px;margin-top:4px;border:1px solid #cbd5e1;border-radius:8px}
+button{margin-top:20px;width:100%;padding:10px;background:#0284c7;color:#fff;border:0;border-radius:8px;font-size:14px}</style></head>
+<body><form method="post">
+<h1 style="font-size:18px;margin:0">Local identity provider</h1>
+<p style="font-size:13px;color:#64748b">Development stand-in. Any name signs in.</p>
+${hidden}
+<label>Name<input type="text" name="name" value="Dr. Alex Rivera" required></label>
+<label>Email<input type="email" name="email" value="alex.rivera@example.org"></label>
+<button type="submit">Sign in</button>
+</form></body></html>`;
+  return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+/** Issues an authorization code for the submitted clinician and redirects back to the client. */
+export function authorize(form: FormData): Response {
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === "string" ? value.trim() : "";
+  };
+  const redirectUri = field("redirect_uri");
+  if (!field("client_id") || !redirectUri) return detail("client_id and redirect_uri are required", 400);
+  let target: URL;
+  try {
+    target = new URL(redirectUri);
+  } catch {
+    return detail("redirect_uri must be an absolute URL", 400);
+  }
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    return detail("redirect_uri must be an http(s) URL", 400);
+  }
+  if (!field("code_challenge") || field("code_challenge_method") !== "S256") {
+    return detail("PKCE with S256 is required", 400);
+  }
+  const name = field("name");
+  if (!name) return detail("name is required", 400);
+
+  const email = field("email") || `${name.toLowerCase().replace(/[^a-z0-9]+/g, ".")}@example.org`;
+  const code = base64Url(randomBytes(24));
+  oidcState().codes.set(code, {
+    claims: { sub: createHash("sha256").update(email).digest("hex").slice(0, 16), name, email },
+    clientId: field("client_id"),
+    redirectUri,
+    codeChallenge: field("code_challenge"),
+    nonce: field("nonce") || undefined,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  target.searchParams.set("code", code);
+  if (field("state")) target.searchParams.set("state", field("state"));
+  return Response.redirect(target, 303);
+}
+
+function idToken(issuer: string, audience: string, claims: Claims, nonce?: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const payload = base64Url(
+    Buffer.from(JSON.stringify({ ...claims, iss: issuer, aud: audience, iat: now, exp: now + TOKEN_TTL_SECONDS, nonce }))
+  );
+  const key = process.env.AUTH_CLIENT_SECRET || "pharmaguard-local";
+  const signature = base64Url(createHmac("sha256", key).update(`${header}.${payload}`).digest());
+  return `${header}.${payload}.${signature}`;
+}
+
+function tokenError(error: string, description: string): Response {
+  return Response.json({ error, error_description: description }, { status: 400 });
+}
+
+/** Redeems a code (single use, PKCE-checked) for access and ID tokens. */
+export function token(req: Request, form: FormData): Response {
+  const field = (name: string) => String(form.get(name) ?? "");
+  if (field("grant_type") !== "authorization_code") {
+    return tokenError("unsupported_grant_type", "Only authorization_code is supported");
+  }
+  const { codes, tokens } = oidcState();
+  const pending = codes.get(field("code"));
+  codes.delete(field("code"));
+  if (!pending || pending.expiresAt < Date.now()) return tokenError("invalid_grant", "Unknown or expired code");
+  if (pending.clientId !== field("client_id") || pending.redirectUri !== field("redirect_uri")) {
+    return tokenError("invalid_grant", "client_id or redirect_uri does not match the authorization request");
+  }
+  const challenge = base64Url(createHash("sha256").update(field("code_verifier")).digest());
+  if (challenge !== pending.codeChallenge) return tokenError("invalid_grant", "PKCE verification failed");
+
+  const accessToken = base64Url(randomBytes(32));
+  tokens.set(accessToken, pending.claims);
+  return Response.json(
+    {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: TOKEN_TTL_SECONDS,
+      id_token: idToken(issuerFor(req), pending.clientId, pending.claims, pending.nonce),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export function userinfo(req: Request): Response {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const claims = bearer ? oidcState().tokens.get(bearer) : undefined;
+  if (!claims) return detail("Invalid access token", 401);
+  return Response.json(claims);
+}
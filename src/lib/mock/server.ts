@@ -0,0 +1,205 @@
+import { createHash, randomUUID } from "crypto";
+import type { AnalysisJob, AnalysisResponse, JobStage } from "../api";
+import { analyze } from "./engine";
+
+export const MOCK_ENABLED = process.env.NEXT_PUBLIC_MOCK_API === "true";
+
+export type MockError =
+  | "cold-start"
+  | "parse"
+  | "size"
+  | "not-found"
+  | "server"
+  | "stream"
+  | "no-jobs"
+  | "no-job-events";
+
+// Mirrors the real backend's upload limit
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+export interface AuditEntry {
+  timestamp: string;
+  audit_id: string;
+  analysis_id: string;
+  patient_id: string;
+  action: string;
+  drugs: string;
+  vcf_hash: string;
+}
+
+export interface MockJob {
+  id: string;
+  createdAt: number;
+  vcf: string;
+  drugs: string[];
+  /** Set when the upload is to fail at the parse stage */
+  parseError?: string;
+  analysisId?: string;
+}
+
+interface MockState {
+  startedAt: number;
+  analyses: Map<string, AnalysisResponse>;
+  audit: AuditEntry[];
+  regenerations: Map<string, number>;
+  jobs: Map<string, MockJob>;
+}
+
+const DEMO_VCF = [
+  "##fileformat=VCFv4.2",
+  "##reference=GRCh38",
+  "#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tDEMO_PATIENT",
+  "chr22\t42128945\trs3892097\tC\tT\t50\tPASS\t.\tGT\t0/1",
+  "chr10\t94781859\trs4244285\tG\tA\t50\tPASS\t.\tGT\t1/1",
+  "chr10\t94981296\trs1057910\tA\tC\t50\tPASS\t.\tGT\t0/1",
+  "chr16\t31096368\trs9923231\tC\tT\t50\tPASS\t.\tGT\t0/1",
+  "chr12\t21178615\trs4149056\tT\tC\t50\tPASS\t.\tGT\t0/0",
+  "chr6\t18130687\trs1142345\tT\tC\t50\tPASS\t.\tGT\t0/1",
+  "chr1\t97450058\trs3918290\tC\tT\t50\tPASS\t.\tGT\t0/0",
+].join("\n");
+
+// Route handlers are bundled separately in dev, so shared state lives on globalThis
+const globalForMock = globalThis as unknown as { __pharmaguardMock?: MockState };
+
+export function mockState(): MockState {
+  if (!globalForMock.__pharmaguardMock) {
+    const state: MockState = {
+      startedAt: Date.now(),
+      analyses: new Map(),
+      audit: [],
+      regenerations: new Map(),
+      jobs: new Map(),
+    };
+    globalForMock.__pharmaguardMock = state;
+    const demo = analyze(DEMO_VCF, ["CODEINE", "WARFARIN", "CLOPIDOGREL", "SIMVASTATIN", "AZATHIOPRINE", "FLUOROURACIL"], {
+      analysisId: "demo",
+      auditId: "demo-audit",
+      vcfHash: sha256(DEMO_VCF),
+    });
+    storeAnalysis(demo, "analyze");
+  }
+  return globalForMock.__pharmaguardMock;
+}
+
+export function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export function storeAnalysis(analysis: AnalysisResponse, action: string) {
+  mockState().analyses.set(analysis.analysis_id, analysis);
+  recordAudit(analysis, action);
+}
+
+export function recordAudit(analysis: AnalysisResponse, action: string) {
+  mockState().audit.push({
+    timestamp: new Date().toISOString(),
+    audit_id: analysis.audit_id ?? "",
+    analysis_id: analysis.analysis_id,
+    patient_id: analysis.patient_id,
+    action,
+    drugs: analysis.results.map((r) => r.drug).join(";"),
+    vcf_hash: analysis.vcf_hash ?? "",
+  });
+}
+
+export function runAnalysis(vcf: string, drugs: string[]): AnalysisResponse {
+  const analysis = analyze(vcf, drugs, {
+    analysisId: randomUUID(),
+    auditId: randomUUID(),
+    vcfHash: sha256(vcf),
+  });
+  storeAnalysis(analysis, "analyze");
+  return analysis;
+}
+
+const JOB_STAGES: JobStage[] = ["parse", "genotype_calling", "scoring", "explanation"];
+
+export function createJob(vcf: string, drugs: string[], parseError?: string): MockJob {
+  const job: MockJob = { id: randomUUID(), createdAt: Date.now(), vcf, drugs, parseError };
+  mockState().jobs.set(job.id, job);
+  return job;
+}
+
+/**
+ * The job as the backend reports it. Stages advance with time, MOCK_JOB_STAGE_MS (default 1500)
+ * each, and the analysis is stored when the last one ends.
+ */
+export function jobStatus(job: MockJob): AnalysisJob {
+  const stageMs = Number(process.env.MOCK_JOB_STAGE_MS ?? 1500);
+  const elapsed = Date.now() - job.createdAt;
+  const index = Math.floor(elapsed / stageMs);
+  if (job.parseError && index >= 1) {
+    return { job_id: job.id, status: "failed", stage: "parse", detail: job.parseError };
+  }
+  if (index >= JOB_STAGES.length) {
+    if (!job.analysisId) job.analysisId = runAnalysis(job.vcf, job.drugs).analysis_id;
+    return { job_id: job.id, status: "completed", stage: "explanation", progress: 1, analysis_id: job.analysisId };
+  }
+  return {
+    job_id: job.id,
+    status: elapsed < stageMs / 4 ? "queued" : "running",
+    stage: JOB_STAGES[index],
+    progress: (elapsed % stageMs) / stageMs,
+  };
+}
+
+export function detail(message: string, status: number): Response {
+  return Response.json({ detail: message }, { status });
+}
+
+function injectedErrors(req: Request): Set<MockError> {
+  const raw = [process.env.MOCK_ERROR, req.headers.get("x-mock-error")].filter(Boolean).join(",");
+  return new Set(raw.split(",").map((e) => e.trim()).filter(Boolean) as MockError[]);
+}
+
+export function mockError(req: Request, error: MockError): boolean {
+  return injectedErrors(req).has(error);
+}
+
+function checkUploadSize(req: Request, file: File): Response | null {
+  if (mockError(req, "size") || file.size > MAX_UPLOAD_BYTES) {
+    return detail("File exceeds 5MB limit. Please provide a smaller VCF file.", 413);
+  }
+  return null;
+}
+
+/** The VCF text and drugs of an /analyze or /jobs upload, or the error response for a bad one. */
+export async function readUpload(req: Request): Promise<{ vcf: string; drugs: string[] } | Response> {
+  const form = await req.formData();
+  const file = form.get("file");
+  const drugs = String(form.get("drugs") ?? "")
+    .split(",")
+    .map((d) => d.trim().toUpperCase())
+    .filter(Boolean);
+  if (!(file instanceof File)) return detail("No VCF file uploaded", 400);
+  if (drugs.length === 0) return detail("At least one drug is required", 400);
+  return checkUploadSize(req, file) ?? { vcf: await file.text(), drugs };
+}
+
+export function vcfParseError(req: Request, vcf: string): string | null {
+  return mockError(req, "parse") || !vcf.startsWith("##fileformat=VCF")
+    ? "Failed to parse VCF file: missing ##fileformat header"
+    : null;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Wraps a mock route: 404s when the mock is disabled, then applies MOCK_LATENCY_MS and,
+ * with MOCK_ERROR=cold-start, answers 503 until MOCK_COLD_START_MS after first use.
+ */
+export function mockRoute<Ctx>(
+  handler: (req: Request, ctx: Ctx) => Promise<Response> | Response
+): (req: Request, ctx: Ctx) => Promise<Response> {
+  return async (req, ctx) => {
+    if (!MOCK_ENABLED) return detail("Not Found", 404);
+    const state = mockState();
+    await sleep(Number(process.env.MOCK_LATENCY_MS ?? 300));
+    const coldStartMs = Number(process.env.MOCK_COLD_START_MS ?? 20000);
+    if (mockError(req, "cold-start") && Date.now() - state.startedAt < coldStartMs) {
+      return new Response("Service Unavailable", { status: 503, statusText: "Service Unavailable" });
+    }
+    if (mockError(req, "server")) return detail("Internal server error", 500);
+    return handler(req, ctx);
+  };
+}
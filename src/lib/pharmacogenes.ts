@@ -0,0 +1,81 @@
+export type GenomeBuild = "GRCh37" | "GRCh38";
+
+export interface GeneRegion {
+  gene: string;
+  chrom: string;
+  start: number;
+  end: number;
+}
+
+// Gene bodies plus flanking sequence so promoter variants (e.g. VKORC1 -1639G>A) are kept
+const FLANK = 5000;
+
+const REGIONS: Record<GenomeBuild, GeneRegion[]> = {
+  GRCh38: [
+    { gene: "CYP2D6", chrom: "22", start: 42126499, end: 42130881 },
+    { gene: "CYP2C19", chrom: "10", start: 94762681, end: 94855547 },
+    { gene: "CYP2C9", chrom: "10", start: 94938658, end: 94990091 },
+    { gene: "CYP4F2", chrom: "19", start: 15878023, end: 15898077 },
+    { gene: "VKORC1", chrom: "16", start: 31090842, end: 31096368 },
+    { gene: "SLCO1B1", chrom: "12", start: 21131188, end: 21239796 },
+    { gene: "TPMT", chrom: "6", start: 18128311, end: 18155305 },
+    { gene: "NUDT15", chrom: "13", start: 48037782, end: 48047707 },
+    { gene: "DPYD", chrom: "1", start: 97077743, end: 97921049 },
+  ],
+  GRCh37: [
+    { gene: "CYP2D6", chrom: "22", start: 42522501, end: 42526883 },
+    { gene: "CYP2C19", chrom: "10", start: 96522438, end: 96612671 },
+    { gene: "CYP2C9", chrom: "10", start: 96698415, end: 96749148 },
+    { gene: "CYP4F2", chrom: "19", start: 15988834, end: 16008884 },
+    { gene: "VKORC1", chrom: "16", start: 31102163, end: 31107689 },
+    { gene: "SLCO1B1", chrom: "12", start: 21284128, end: 21392730 },
+    { gene: "TPMT", chrom: "6", start: 18128542, end: 18155374 },
+    { gene: "NUDT15", chrom: "13", start: 48611918, end: 48621843 },
+    { gene: "DPYD", chrom: "1", start: 97543299, end: 98386615 },
+  ],
+};
+
+export const PHARMACOGENES = REGIONS.GRCh38.map((r) => r.gene);
+
+export function normalizeChrom(chrom: string): string {
+  return chrom.replace(/^chr/i, "").toUpperCase();
+}
+
+/** Regions for a build, or both builds when the build could not be determined. */
+export function geneRegions(build: GenomeBuild | null): GeneRegion[] {
+  return build ? REGIONS[build] : [...REGIONS.GRCh38, ...REGIONS.GRCh37];
+}
+
+export function findGene(
+  chrom: string,
+  pos: number,
+  regions: GeneRegion[]
+): string | null {
+  const c = normalizeChrom(chrom);
+  const hit = regions.find(
+    (r) => r.chrom === c && pos >= r.start - FLANK && pos <= r.end + FLANK
+  );
+  return hit ? hit.gene : null;
+}
+
+/** Variants that define a star allele (or named allele) on their own, per CPIC allele tables. */
+export const DEFINING_VARIANTS: Record<string, { gene: string; allele: string }> = {
+  rs3892097: { gene: "CYP2D6", allele: "*4" },
+  rs5030655: { gene: "CYP2D6", allele: "*6" },
+  rs1065852: { gene: "CYP2D6", allele: "*10" },
+  rs4244285: { gene: "CYP2C19", allele: "*2" },
+  rs4986893: { gene: "CYP2C19", allele: "*3" },
+  rs12248560: { gene: "CYP2C19", allele: "*17" },
+  rs1799853: { gene: "CYP2C9", allele: "*2" },
+  rs1057910: { gene: "CYP2C9", allele: "*3" },
+  rs2108622: { gene: "CYP4F2", allele: "*3" },
+  rs9923231: { gene: "VKORC1", allele: "-1639G>A" },
+  rs4149056: { gene: "SLCO1B1", allele: "*5" },
+  rs1800462: { gene: "TPMT", allele: "*2" },
+  rs1800460: { gene: "TPMT", allele: "*3B" },
+  rs1142345: { gene: "TPMT", allele: "*3C" },
+  rs116855232: { gene: "NUDT15", allele: "*3" },
+  rs3918290: { gene: "DPYD", allele: "*2A" },
+  rs55886062: { gene: "DPYD", allele: "*13" },
+  rs67376798: { gene: "DPYD", allele: "c.2846A>T" },
+};
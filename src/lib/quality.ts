@@ -0,0 +1,40 @@
+import type { AnalysisResponse, DrugAnalysisResult, UnsupportedDrugResult } from "./api";
+import { isDrugResult } from "./api";
+import type { Translate } from "./i18n";
+
+export type QualityFlag = "low_completeness" | "low_confidence";
+
+function threshold(raw: string | undefined): number {
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 && value <= 1 ? value : 0.7;
+}
+
+/** Results below this confidence (0–1) must be verified before acting on them. */
+export const CONFIDENCE_THRESHOLD = threshold(process.env.NEXT_PUBLIC_CONFIDENCE_THRESHOLD);
+
+/** Why a result should be verified before acting; empty for results that can be relied on. */
+export function qualityFlags(r: DrugAnalysisResult | UnsupportedDrugResult): QualityFlag[] {
+  // Unsupported drugs carry no call to verify
+  if (!isDrugResult(r)) return [];
+  const flags: QualityFlag[] = [];
+  if (r.quality_metrics.annotation_completeness === "low") flags.push("low_completeness");
+  if (r.risk_assessment.confidence_score < CONFIDENCE_THRESHOLD) flags.push("low_confidence");
+  return flags;
+}
+
+/** Flags of the results that need verification, keyed by drug; this is what exports carry. */
+export function verificationFlags(analysis: AnalysisResponse): Record<string, QualityFlag[]> {
+  const flagged: Record<string, QualityFlag[]> = {};
+  for (const r of analysis.results) {
+    const flags = qualityFlags(r);
+    if (flags.length > 0) flagged[r.drug] = flags;
+  }
+  return flagged;
+}
+
+/** Localized reason behind a flag, worded the same on the results page and in the PDF report. */
+export function flagMessage(flag: QualityFlag, confidence: number, t: Translate, percent: (value: number) => string) {
+  return flag === "low_completeness"
+    ? t("quality.lowCompleteness")
+    : t("quality.lowConfidence", { value: percent(confidence), threshold: percent(CONFIDENCE_THRESHOLD) });
+}
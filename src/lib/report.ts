@@ -0,0 +1,466 @@
+import { GState, jsPDF } from "jspdf";
+import type { AnalysisResponse, DrugAnalysisResult, UnsupportedDrugResult } from "./api";
+import { isDrugResult } from "./api";
+import type { ExplanationReview } from "./explanations";
+import type { Locale, MessageKey, Translate } from "./i18n";
+import { DEFAULT_LOCALE, formatDate, formatNumber, formatPercent, translator } from "./i18n";
+import { flagMessage, qualityFlags, verificationFlags } from "./quality";
+import { RISK_COLORS, SEVERITIES, SEVERITY_COLORS } from "./risk";
+import type { WarfarinDoseRecord } from "./warfarin";
+
+export interface ReportBranding {
+  institution: string;
+  /** Department, address or other line printed under the institution name */
+  subtitle?: string;
+  /** Accent color for the header band and section headings */
+  color: string;
+  /** Logo as a data URL (PNG or JPEG) */
+  logo?: string;
+}
+
+export interface ReportOptions {
+  branding?: ReportBranding;
+  locale?: Locale;
+  /** Signed-in clinician requesting the report */
+  clinician?: string;
+  /** The analysis carries pseudonyms; every page gets a watermark */
+  deidentified?: boolean;
+  /** Clinician reviews of the current explanations, keyed by drug */
+  reviews?: Record<string, ExplanationReview>;
+  /** Dose calculation saved with the analysis, printed with the warfarin result */
+  warfarinDose?: WarfarinDoseRecord;
+}
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  institution: process.env.NEXT_PUBLIC_REPORT_INSTITUTION || "PharmaGuard",
+  subtitle: process.env.NEXT_PUBLIC_REPORT_SUBTITLE || "Pharmacogenomic Decision Support",
+  color: process.env.NEXT_PUBLIC_REPORT_COLOR || "#0284c7",
+};
+
+// A4 portrait, millimetres
+const PAGE_MARGIN = 18;
+const HEADER_HEIGHT = 22;
+const FOOTER_HEIGHT = 14;
+const PT_TO_MM = 0.3528;
+
+/** Loads the configured logo (NEXT_PUBLIC_REPORT_LOGO_URL) into the default branding. */
+export async function loadBranding(): Promise<ReportBranding> {
+  const url = process.env.NEXT_PUBLIC_REPORT_LOGO_URL;
+  if (!url) return DEFAULT_BRANDING;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return DEFAULT_BRANDING;
+    const blob = await res.blob();
+    const logo = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { ...DEFAULT_BRANDING, logo };
+  } catch {
+    return DEFAULT_BRANDING;
+  }
+}
+
+interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  indent?: number;
+}
+
+/** Flowing layout over jsPDF: tracks the cursor and starts new pages as content runs out. */
+class Layout {
+  readonly doc = new jsPDF({ unit: "mm", format: "a4" });
+  readonly t: Translate;
+  readonly width = this.doc.internal.pageSize.getWidth();
+  readonly height = this.doc.internal.pageSize.getHeight();
+  readonly contentWidth = this.width - PAGE_MARGIN * 2;
+  y = PAGE_MARGIN + HEADER_HEIGHT;
+  /** Called after every page break, e.g. to repeat a table header */
+  onPageBreak: (() => void) | null = null;
+
+  constructor(readonly locale: Locale) {
+    this.t = translator(locale);
+  }
+
+  percent(value: number) {
+    return formatPercent(this.locale, value);
+  }
+
+  get bottom() {
+    return this.height - PAGE_MARGIN - FOOTER_HEIGHT;
+  }
+
+  lineHeight(size: number) {
+    return size * PT_TO_MM * this.doc.getLineHeightFactor();
+  }
+
+  /** Starts a new page unless `needed` millimetres still fit on this one. */
+  ensure(needed: number) {
+    if (this.y + needed <= this.bottom) return;
+    this.doc.addPage();
+    this.y = PAGE_MARGIN + HEADER_HEIGHT;
+    this.onPageBreak?.();
+  }
+
+  style({ size = 10, bold = false, color = "#1e293b" }: TextStyle) {
+    this.doc.setFontSize(size);
+    this.doc.setFont("helvetica", bold ? "bold" : "normal");
+    this.doc.setTextColor(color);
+  }
+
+  /** Writes wrapped text, breaking pages between lines. */
+  text(value: string, style: TextStyle = {}) {
+    const size = style.size ?? 10;
+    const indent = style.indent ?? 0;
+    this.style(style);
+    const lines: string[] = this.doc.splitTextToSize(value, this.contentWidth - indent);
+    const lh = this.lineHeight(size);
+    for (const line of lines) {
+      this.ensure(lh);
+      this.style(style);
+      this.doc.text(line, PAGE_MARGIN + indent, this.y, { baseline: "top" });
+      this.y += lh;
+    }
+  }
+
+  /** A label/value row; the value wraps in its own column. */
+  field(label: string, value: string | number | null | undefined, indent = 0) {
+    const labelWidth = 42;
+    const display = value === null || value === undefined || value === "" ? "—" : String(value);
+    this.style({});
+    const lines: string[] = this.doc.splitTextToSize(display, this.contentWidth - indent - labelWidth);
+    const lh = this.lineHeight(10);
+    lines.forEach((line, i) => {
+      this.ensure(lh);
+      if (i === 0) {
+        this.style({ color: "#64748b" });
+        this.doc.text(label, PAGE_MARGIN + indent, this.y, { baseline: "top" });
+      }
+      this.style({});
+      this.doc.text(line, PAGE_MARGIN + indent + labelWidth, this.y, { baseline: "top" });
+      this.y += lh;
+    });
+  }
+
+  heading(value: string, color: string) {
+    this.ensure(this.lineHeight(11) * 2 + 2);
+    this.y += 2;
+    this.text(value, { size: 11, bold: true, color });
+    this.y += 1;
+  }
+
+  gap(mm: number) {
+    this.y += mm;
+  }
+}
+
+function drawWatermark(layout: Layout) {
+  const { doc, width, height } = layout;
+  doc.saveGraphicsState();
+  doc.setGState(new GState({ opacity: 0.08 }));
+  layout.style({ size: 60, bold: true, color: "#0f172a" });
+  doc.text(layout.t("deid.watermark"), width / 2, height / 2, { align: "center", baseline: "middle", angle: 45 });
+  doc.restoreGraphicsState();
+}
+
+function drawHeaderAndFooter(
+  layout: Layout,
+  analysis: AnalysisResponse,
+  branding: ReportBranding,
+  deidentified: boolean
+) {
+  const { doc, width, height, t } = layout;
+  const total = doc.getNumberOfPages();
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    if (deidentified) drawWatermark(layout);
+    doc.setFillColor(branding.color);
+    doc.rect(0, 0, width, 3, "F");
+
+    let textX = PAGE_MARGIN;
+    if (branding.logo) {
+      try {
+        doc.addImage(branding.logo, PAGE_MARGIN, PAGE_MARGIN - 8, 12, 12);
+        textX += 15;
+      } catch {
+        // Unsupported image data; the header still has the institution name
+      }
+    }
+    layout.style({ size: 12, bold: true, color: branding.color });
+    doc.text(branding.institution, textX, PAGE_MARGIN - 6, { baseline: "top" });
+    if (branding.subtitle) {
+      layout.style({ size: 8, color: "#64748b" });
+      doc.text(branding.subtitle, textX, PAGE_MARGIN, { baseline: "top" });
+    }
+    layout.style({ size: 9, color: "#64748b" });
+    doc.text(t("report.title"), width - PAGE_MARGIN, PAGE_MARGIN - 6, {
+      baseline: "top",
+      align: "right",
+    });
+    doc.setDrawColor("#cbd5e1");
+    doc.line(PAGE_MARGIN, PAGE_MARGIN + 6, width - PAGE_MARGIN, PAGE_MARGIN + 6);
+
+    const footerY = height - PAGE_MARGIN;
+    doc.line(PAGE_MARGIN, footerY - 5, width - PAGE_MARGIN, footerY - 5);
+    layout.style({ size: 8, color: "#64748b" });
+    const footer = t("report.footer", { patient: analysis.patient_id, analysis: analysis.analysis_id });
+    doc.text(footer, PAGE_MARGIN, footerY, { baseline: "bottom" });
+    doc.text(t("report.page", { page, total }), width - PAGE_MARGIN, footerY, { baseline: "bottom", align: "right" });
+  }
+}
+
+function drawPatientBlock(layout: Layout, analysis: AnalysisResponse, clinician?: string, deidentified = false) {
+  const { t, locale } = layout;
+  layout.text(t("report.title"), { size: 18, bold: true });
+  if (deidentified) layout.text(t("deid.notice"), { size: 9, bold: true, color: "#b45309" });
+  layout.gap(3);
+  layout.field(t("report.patientId"), analysis.patient_id);
+  layout.field(t("report.analysisId"), analysis.analysis_id);
+  layout.field(t("report.analysisDate"), formatDate(locale, analysis.timestamp));
+  layout.field(t("report.generated"), formatDate(locale, new Date()));
+  if (clinician) layout.field(t("report.clinician"), clinician);
+  layout.field(t("report.vcfHash"), analysis.vcf_hash);
+  layout.field(t("report.auditId"), analysis.audit_id);
+  layout.gap(4);
+}
+
+function drawLegend(layout: Layout, branding: ReportBranding) {
+  const { doc, t } = layout;
+  layout.heading(t("report.severityLegend"), branding.color);
+  const severities = [...SEVERITIES, "unknown" as const];
+  const itemWidth = layout.contentWidth / severities.length;
+  layout.ensure(6);
+  severities.forEach((s, i) => {
+    const x = PAGE_MARGIN + i * itemWidth;
+    doc.setFillColor(SEVERITY_COLORS[s]);
+    doc.rect(x, layout.y + 0.5, 3.5, 3.5, "F");
+    layout.style({ size: 9 });
+    doc.text(t(`severity.${s}`), x + 5, layout.y, { baseline: "top" });
+  });
+  layout.gap(7);
+}
+
+const SUMMARY_COLUMNS: { title: MessageKey; width: number }[] = [
+  { title: "report.drug", width: 0.18 },
+  { title: "field.gene", width: 0.12 },
+  { title: "field.phenotype", width: 0.26 },
+  { title: "report.risk", width: 0.18 },
+  { title: "report.severity", width: 0.14 },
+  { title: "report.confidence", width: 0.12 },
+];
+
+function summaryRow(layout: Layout, r: DrugAnalysisResult | UnsupportedDrugResult): string[] {
+  const { t } = layout;
+  const profile = isDrugResult(r) ? r.pharmacogenomic_profile : null;
+  return [
+    r.drug,
+    profile?.gene ?? "—",
+    profile?.phenotype ?? t("report.notSupported"),
+    t(`risk.${r.risk_assessment.risk_label}`),
+    t(`severity.${r.risk_assessment.severity}`),
+    layout.percent(r.risk_assessment.confidence_score),
+  ];
+}
+
+function drawSummaryTable(layout: Layout, analysis: AnalysisResponse, branding: ReportBranding) {
+  const { doc } = layout;
+  const widths = SUMMARY_COLUMNS.map((c) => c.width * layout.contentWidth);
+  const lh = layout.lineHeight(9);
+
+  const drawRow = (cells: string[], header: boolean, severity?: DrugAnalysisResult["risk_assessment"]) => {
+    layout.style({ size: 9, bold: header });
+    const wrapped = cells.map((c, i) => doc.splitTextToSize(c, widths[i] - 3) as string[]);
+    const rowHeight = Math.max(...wrapped.map((w) => w.length)) * lh + 2;
+    layout.ensure(rowHeight);
+    if (header) {
+      doc.setFillColor("#f1f5f9");
+      doc.rect(PAGE_MARGIN, layout.y, layout.contentWidth, rowHeight, "F");
+    }
+    let x = PAGE_MARGIN;
+    wrapped.forEach((lines, i) => {
+      let color = header ? "#475569" : "#1e293b";
+      if (severity && i === 3) color = RISK_COLORS[severity.risk_label] ?? RISK_COLORS.Unknown;
+      if (severity && i === 4) color = SEVERITY_COLORS[severity.severity];
+      layout.style({ size: 9, bold: header || (!!severity && (i === 3 || i === 4)), color });
+      doc.text(lines, x + 1.5, layout.y + 1, { baseline: "top" });
+      x += widths[i];
+    });
+    layout.y += rowHeight;
+    doc.setDrawColor("#e2e8f0");
+    doc.line(PAGE_MARGIN, layout.y, PAGE_MARGIN + layout.contentWidth, layout.y);
+  };
+
+  layout.heading(layout.t("report.riskSummary"), branding.color);
+  const header = SUMMARY_COLUMNS.map((c) => layout.t(c.title));
+  drawRow(header, true);
+  layout.onPageBreak = () => drawRow(header, true);
+  for (const r of analysis.results) drawRow(summaryRow(layout, r), false, r.risk_assessment);
+  layout.onPageBreak = null;
+  const flagged = Object.keys(verificationFlags(analysis));
+  if (flagged.length > 0) {
+    layout.gap(2);
+    layout.text(`${layout.t("quality.verify")}: ${flagged.join(", ")}`, { size: 9, bold: true, color: VERIFY_COLOR });
+  }
+  layout.gap(6);
+}
+
+const VERIFY_COLOR = "#b45309";
+
+function drawVerifyWarning(layout: Layout, r: DrugAnalysisResult | UnsupportedDrugResult) {
+  const flags = qualityFlags(r);
+  if (flags.length === 0) return;
+  layout.text(layout.t("quality.verify"), { bold: true, color: VERIFY_COLOR });
+  for (const flag of flags) {
+    const reason = flagMessage(flag, r.risk_assessment.confidence_score, layout.t, (v) => layout.percent(v));
+    layout.text(`- ${reason}`, { color: VERIFY_COLOR, indent: 3 });
+  }
+  layout.gap(2);
+}
+
+function reviewText(layout: Layout, review: ExplanationReview): string {
+  const by = [review.reviewer, formatDate(layout.locale, review.reviewedAt)].filter(Boolean).join(", ");
+  return [layout.t(`verdict.${review.verdict}`), review.comment].filter(Boolean).join(": ") + ` (${by})`;
+}
+
+// Weekly only: the "≈" of the daily figure is outside the standard PDF font's character set
+function doseText(layout: Layout, weekly: number): string {
+  return layout.t("warfarin.weekly", { dose: formatNumber(layout.locale, Math.round(weekly * 10) / 10) });
+}
+
+function drawWarfarinDose(layout: Layout, record: WarfarinDoseRecord, branding: ReportBranding) {
+  const { t } = layout;
+  const i = record.inputs;
+  const genotype = (value: string) => (value === "unknown" ? t("warfarin.unknown") : value);
+  layout.heading(t("report.warfarinDose"), branding.color);
+  layout.field(t("warfarin.pharmacogenetic"), doseText(layout, record.estimate.pharmacogenetic));
+  layout.field(t("warfarin.clinical"), doseText(layout, record.estimate.clinical));
+  layout.field(
+    t("report.doseInputs"),
+    [
+      `${t("warfarin.age")}: ${i.ageYears}`,
+      `${t("warfarin.height")}: ${i.heightCm}`,
+      `${t("warfarin.weight")}: ${i.weightKg}`,
+      `${t("warfarin.race")}: ${t(`race.${i.race}`)}`,
+      `${t("warfarin.cyp2c9")}: ${genotype(i.cyp2c9)}`,
+      `${t("warfarin.vkorc1")}: ${genotype(i.vkorc1)}`,
+      i.enzymeInducer && t("warfarin.inducer"),
+      i.amiodarone && t("warfarin.amiodarone"),
+    ]
+      .filter(Boolean)
+      .join("; ")
+  );
+  const saved = formatDate(layout.locale, record.calculatedAt);
+  layout.text(
+    record.calculatedBy ? t("warfarin.savedBy", { name: record.calculatedBy, date: saved }) : t("warfarin.saved", { date: saved }),
+    { size: 8, color: "#64748b" }
+  );
+}
+
+function drawDrugDetail(
+  layout: Layout,
+  r: DrugAnalysisResult | UnsupportedDrugResult,
+  branding: ReportBranding,
+  review?: ExplanationReview,
+  warfarinDose?: WarfarinDoseRecord
+) {
+  const { doc, t } = layout;
+  const risk = r.risk_assessment;
+  const rec = r.clinical_recommendation;
+
+  // Keep the drug banner together with at least the first few rows
+  layout.ensure(30);
+  const color = RISK_COLORS[risk.risk_label] ?? RISK_COLORS.Unknown;
+  doc.setFillColor(color);
+  doc.rect(PAGE_MARGIN, layout.y, layout.contentWidth, 8, "F");
+  layout.style({ size: 12, bold: true, color: "#ffffff" });
+  doc.text(r.drug, PAGE_MARGIN + 2, layout.y + 1.5, { baseline: "top" });
+  doc.text(t(`risk.${risk.risk_label}`), PAGE_MARGIN + layout.contentWidth - 2, layout.y + 1.5, {
+    baseline: "top",
+    align: "right",
+  });
+  layout.gap(10);
+  drawVerifyWarning(layout, r);
+
+  layout.heading(t("report.riskAssessment"), branding.color);
+  layout.field(t("report.risk"), t(`risk.${risk.risk_label}`));
+  layout.field(t("report.severity"), t(`severity.${risk.severity}`));
+  layout.field(t("report.confidence"), layout.percent(risk.confidence_score));
+  layout.field(t("report.rationale"), risk.rationale);
+
+  if (isDrugResult(r)) {
+    const p = r.pharmacogenomic_profile;
+    layout.heading(t("report.profile"), branding.color);
+    layout.field(t("field.gene"), p.gene);
+    layout.field(t("field.diplotype"), p.diplotype);
+    layout.field(t("field.phenotype"), p.phenotype);
+    layout.field(t("field.activityScore"), p.activity_score);
+    layout.field(t("field.copyNumber"), p.copy_number);
+    layout.field(
+      t("field.detectedVariants"),
+      p.detected_variants.length ? p.detected_variants.join(", ") : t("genes.noneDetected")
+    );
+  }
+
+  layout.heading(t("report.recommendation"), branding.color);
+  layout.field(t("report.action"), rec.action);
+  layout.field(t("report.doseAdjustment"), rec.dose_adjustment);
+  layout.field(t("report.monitoring"), rec.monitoring);
+  layout.field(t("report.alternatives"), rec.alternative_drugs?.join(", "));
+  if (warfarinDose && r.drug.toUpperCase() === "WARFARIN") drawWarfarinDose(layout, warfarinDose, branding);
+
+  if (isDrugResult(r)) {
+    const q = r.quality_metrics;
+    layout.heading(t("report.quality"), branding.color);
+    layout.field(t("report.annotation"), t(`completeness.${q.annotation_completeness}`));
+    layout.field(t("report.variantsAnalyzed"), q.variants_analyzed);
+    for (const [k, v] of Object.entries(q.confidence_breakdown ?? {})) {
+      layout.field(k.replace(/_/g, " "), layout.percent(v));
+    }
+    layout.field(t("report.interactionWarning"), q.interaction_warning);
+
+    layout.heading(t("report.aiExplanation"), branding.color);
+    if (r.llm_explanation) {
+      layout.field(t("report.summary"), r.llm_explanation.summary);
+      layout.field(t("report.mechanism"), r.llm_explanation.mechanism);
+      layout.field(t("report.citation"), r.llm_explanation.citation);
+      if (review) layout.field(t("report.review"), reviewText(layout, review));
+    } else {
+      layout.text(t("report.noExplanation"), { color: "#64748b" });
+    }
+  } else {
+    layout.gap(1);
+    layout.text(t("report.unsupportedDrug"), { color: "#64748b" });
+  }
+  layout.gap(8);
+}
+
+/** Builds the multi-page clinical report for an analysis. */
+export function buildReport(
+  analysis: AnalysisResponse,
+  {
+    branding = DEFAULT_BRANDING,
+    locale = DEFAULT_LOCALE,
+    clinician,
+    deidentified = false,
+    reviews = {},
+    warfarinDose,
+  }: ReportOptions = {}
+): jsPDF {
+  const layout = new Layout(locale);
+  drawPatientBlock(layout, analysis, clinician, deidentified);
+  drawLegend(layout, branding);
+  drawSummaryTable(layout, analysis, branding);
+  layout.heading(layout.t("report.drugDetails"), branding.color);
+  for (const r of analysis.results) drawDrugDetail(layout, r, branding, reviews[r.drug], warfarinDose);
+  layout.text(layout.t("disclaimer"), { size: 8, color: "#64748b" });
+  drawHeaderAndFooter(layout, analysis, branding, deidentified);
+  return layout.doc;
+}
+
+export async function downloadReport(analysis: AnalysisResponse, options: Omit<ReportOptions, "branding"> = {}) {
+  const doc = buildReport(analysis, { ...options, branding: await loadBranding() });
+  doc.save(`PharmaGuard-Report-${analysis.analysis_id}.pdf`);
+}
@@ -0,0 +1,60 @@
+import type { DrugAnalysisResult, RiskAssessment, UnsupportedDrugResult } from "./api";
+
+export const RISK_COLORS: Record<string, string> = {
+  Safe: "#10b981",
+  "Adjust Dosage": "#f59e0b",
+  Toxic: "#ef4444",
+  Ineffective: "#ef4444",
+  Unknown: "#6b7280",
+};
+
+export const RISK_LABELS: RiskAssessment["risk_label"][] = [
+  "Safe",
+  "Adjust Dosage",
+  "Toxic",
+  "Ineffective",
+  "Unknown",
+];
+
+export const SEVERITIES: RiskAssessment["severity"][] = ["none", "low", "moderate", "high", "critical"];
+
+export const SEVERITY_COLORS: Record<RiskAssessment["severity"], string> = {
+  none: "#10b981",
+  low: "#0ea5e9",
+  moderate: "#f59e0b",
+  high: "#f97316",
+  critical: "#dc2626",
+  unknown: "#6b7280",
+};
+
+// Higher is worse; Unknown sits between Safe and actionable labels
+const RISK_RANK: Record<string, number> = {
+  Safe: 0,
+  Unknown: 1,
+  "Adjust Dosage": 2,
+  Ineffective: 3,
+  Toxic: 4,
+};
+
+export function severityRank(severity: string): number {
+  const i = SEVERITIES.indexOf(severity as RiskAssessment["severity"]);
+  return i === -1 ? 0 : i;
+}
+
+export function riskRank(label: string): number {
+  return RISK_RANK[label] ?? RISK_RANK.Unknown;
+}
+
+/** Result with the highest severity, ties broken by the more serious risk label. */
+export function worstResult<T extends DrugAnalysisResult | UnsupportedDrugResult>(
+  results: T[]
+): T | undefined {
+  return results.reduce<T | undefined>((worst, r) => {
+    if (!worst) return r;
+    const a = r.risk_assessment;
+    const b = worst.risk_assessment;
+    const diff = severityRank(a.severity) - severityRank(b.severity);
+    if (diff !== 0) return diff > 0 ? r : worst;
+    return riskRank(a.risk_label) > riskRank(b.risk_label) ? r : worst;
+  }, undefined);
+}
@@ -0,0 +1,301 @@
+import type {
+  AnalysisJob,
+  AnalysisResponse,
+  ClinicalRecommendation,
+  DrugAnalysisResult,
+  LLMExplanation,
+  PharmacogenomicProfile,
+  QualityMetrics,
+  RiskAssessment,
+  UnsupportedDrugResult,
+} from "./api";
+
+export interface SchemaIssue {
+  /** JSON path of the offending value, e.g. "$.results[2].risk_assessment.confidence_score" */
+  path: string;
+  message: string;
+  /** "error" dropped the value; "warning" means it was coerced and kept */
+  level: "error" | "warning";
+}
+
+export interface ParsedAnalysis {
+  analysis: AnalysisResponse;
+  issues: SchemaIssue[];
+  /** Sample column analyzed when the upload was one of several samples; set client-side */
+  sample?: string;
+}
+
+const RISK_LABELS = ["Safe", "Adjust Dosage", "Toxic", "Ineffective", "Unknown"] as const;
+const SEVERITIES = ["none", "low", "moderate", "high", "critical", "unknown"] as const;
+const COMPLETENESS = ["full", "partial", "low"] as const;
+const JOB_STATUSES = ["queued", "running", "completed", "failed"] as const;
+const JOB_STAGES = ["upload", "parse", "genotype_calling", "scoring", "explanation"] as const;
+
+type Obj = Record<string, unknown>;
+
+class Checker {
+  issues: SchemaIssue[] = [];
+  private failed = false;
+
+  error(path: string, message: string) {
+    this.issues.push({ path, message, level: "error" });
+    this.failed = true;
+  }
+
+  warn(path: string, message: string) {
+    this.issues.push({ path, message, level: "warning" });
+  }
+
+  /** Runs fn and reports whether it recorded any error. */
+  scope<T>(fn: () => T): { value: T; ok: boolean } {
+    const outer = this.failed;
+    this.failed = false;
+    const value = fn();
+    const ok = !this.failed;
+    this.failed = outer || this.failed;
+    return { value, ok };
+  }
+
+  object(value: unknown, path: string): Obj | null {
+    if (value && typeof value === "object" && !Array.isArray(value)) return value as Obj;
+    this.error(path, value === undefined ? "is missing" : "must be an object");
+    return null;
+  }
+
+  string(obj: Obj, key: string, path: string): string {
+    const v = obj[key];
+    if (typeof v === "string") return v;
+    this.error(`${path}.${key}`, v === undefined ? "is missing" : "must be a string");
+    return "";
+  }
+
+  optionalString(obj: Obj, key: string, path: string): string | null | undefined {
+    const v = obj[key];
+    if (v === undefined || v === null || typeof v === "string") return v;
+    this.error(`${path}.${key}`, "must be a string or null");
+    return null;
+  }
+
+  number(obj: Obj, key: string, path: string, optional = false): number | null | undefined {
+    const v = obj[key];
+    if (optional && (v === undefined || v === null)) return v;
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+    this.error(`${path}.${key}`, v === undefined ? "is missing" : "must be a finite number");
+    return null;
+  }
+
+  stringArray(obj: Obj, key: string, path: string, optional = false): string[] | null | undefined {
+    const v = obj[key];
+    if (optional && (v === undefined || v === null)) return v;
+    if (Array.isArray(v) && v.every((x) => typeof x === "string")) return v;
+    this.error(`${path}.${key}`, v === undefined ? "is missing" : "must be an array of strings");
+    return [];
+  }
+
+  enumValue<T extends string>(
+    obj: Obj,
+    key: string,
+    path: string,
+    allowed: readonly T[],
+    fallback: T
+  ): T {
+    const v = obj[key];
+    if (allowed.includes(v as T)) return v as T;
+    if (v === undefined) {
+      this.error(`${path}.${key}`, "is missing");
+    } else {
+      this.warn(`${path}.${key}`, `unknown value ${JSON.stringify(v)} treated as "${fallback}"`);
+    }
+    return fallback;
+  }
+}
+
+function riskAssessment(c: Checker, raw: unknown, path: string): RiskAssessment | null {
+  const o = c.object(raw, path);
+  if (!o) return null;
+  const score = c.number(o, "confidence_score", path) ?? 0;
+  if (score < 0 || score > 1) c.warn(`${path}.confidence_score`, "outside 0–1, clamped");
+  return {
+    risk_label: c.enumValue(o, "risk_label", path, RISK_LABELS, "Unknown"),
+    confidence_score: Math.min(1, Math.max(0, score)),
+    severity: c.enumValue(o, "severity", path, SEVERITIES, "unknown"),
+    rationale: c.optionalString(o, "rationale", path) ?? undefined,
+  };
+}
+
+function recommendation(c: Checker, raw: unknown, path: string): ClinicalRecommendation | null {
+  const o = c.object(raw, path);
+  if (!o) return null;
+  return {
+    action: c.string(o, "action", path),
+    dose_adjustment: c.optionalString(o, "dose_adjustment", path),
+    monitoring: c.optionalString(o, "monitoring", path),
+    alternative_drugs: c.stringArray(o, "alternative_drugs", path, true),
+  };
+}
+
+function profile(c: Checker, raw: unknown, path: string): PharmacogenomicProfile | null {
+  const o = c.object(raw, path);
+  if (!o) return null;
+  return {
+    gene: c.string(o, "gene", path),
+    diplotype: c.string(o, "diplotype", path),
+    phenotype: c.string(o, "phenotype", path),
+    detected_variants: c.stringArray(o, "detected_variants", path) ?? [],
+    activity_score: c.number(o, "activity_score", path, true),
+    copy_number: c.number(o, "copy_number", path, true),
+  };
+}
+
+function qualityMetrics(c: Checker, raw: unknown, path: string): QualityMetrics | null {
+  const o = c.object(raw, path);
+  if (!o) return null;
+  let breakdown: Record<string, number> | null | undefined = undefined;
+  const rawBreakdown = o.confidence_breakdown;
+  if (rawBreakdown !== undefined && rawBreakdown !== null) {
+    const b = c.object(rawBreakdown, `${path}.confidence_breakdown`);
+    breakdown = b ? {} : null;
+    for (const [k, v] of Object.entries(b ?? {})) {
+      if (typeof v === "number" && Number.isFinite(v)) breakdown![k] = v;
+      else c.warn(`${path}.confidence_breakdown.${k}`, "must be a number; ignored");
+    }
+  } else {
+    breakdown = rawBreakdown as null | undefined;
+  }
+  return {
+    annotation_completeness: c.enumValue(o, "annotation_completeness", path, COMPLETENESS, "low"),
+    variants_analyzed: c.number(o, "variants_analyzed", path) ?? 0,
+    confidence_breakdown: breakdown,
+    interaction_warning: c.optionalString(o, "interaction_warning", path),
+  };
+}
+
+function validateExplanation(c: Checker, raw: unknown, path: string): LLMExplanation | null {
+  const o = c.object(raw, path);
+  if (!o) return null;
+  return {
+    summary: c.string(o, "summary", path),
+    mechanism: c.string(o, "mechanism", path),
+    citation: c.string(o, "citation", path),
+  };
+}
+
+function drugResult(
+  c: Checker,
+  raw: unknown,
+  path: string
+): DrugAnalysisResult | UnsupportedDrugResult | null {
+  const { value, ok } = c.scope(() => {
+    const o = c.object(raw, path);
+    if (!o) return null;
+    const base = {
+      drug: c.string(o, "drug", path),
+      risk_assessment: riskAssessment(c, o.risk_assessment, `${path}.risk_assessment`)!,
+      clinical_recommendation: recommendation(
+        c,
+        o.clinical_recommendation,
+        `${path}.clinical_recommendation`
+      )!,
+    };
+    if (!("pharmacogenomic_profile" in o)) return base as UnsupportedDrugResult;
+
+    // A malformed explanation only loses the explanation, not the whole result
+    let llm_explanation: LLMExplanation | null | undefined = o.llm_explanation as null | undefined;
+    if (o.llm_explanation !== undefined && o.llm_explanation !== null) {
+      const sub = new Checker();
+      llm_explanation = validateExplanation(sub, o.llm_explanation, `${path}.llm_explanation`);
+      if (sub.issues.length > 0) {
+        c.warn(`${path}.llm_explanation`, "malformed explanation was dropped");
+        llm_explanation = null;
+      }
+    }
+    return {
+      ...base,
+      pharmacogenomic_profile: profile(c, o.pharmacogenomic_profile, `${path}.pharmacogenomic_profile`)!,
+      quality_metrics: qualityMetrics(c, o.quality_metrics, `${path}.quality_metrics`)!,
+      llm_explanation,
+    } as DrugAnalysisResult;
+  });
+  return ok ? value : null;
+}
+
+/**
+ * Validates a backend (or stored) analysis. analysis is null when the envelope itself is
+ * unusable; otherwise malformed drug results are dropped and reported in issues.
+ */
+export function parseAnalysisResponse(
+  raw: unknown
+): { analysis: AnalysisResponse | null; issues: SchemaIssue[] } {
+  const c = new Checker();
+  const { value, ok } = c.scope(() => {
+    const o = c.object(raw, "$");
+    if (!o) return null;
+    const envelope = {
+      patient_id: c.string(o, "patient_id", "$"),
+      analysis_id: c.string(o, "analysis_id", "$"),
+      timestamp: c.string(o, "timestamp", "$"),
+      vcf_hash: c.optionalString(o, "vcf_hash", "$"),
+      audit_id: c.optionalString(o, "audit_id", "$"),
+    };
+    if (!Array.isArray(o.results)) {
+      c.error("$.results", o.results === undefined ? "is missing" : "must be an array");
+      return null;
+    }
+    return { envelope, rawResults: o.results as unknown[] };
+  });
+  if (!ok || !value) return { analysis: null, issues: c.issues };
+
+  const results = value.rawResults
+    .map((r, i) => {
+      const inner = new Checker();
+      const result = drugResult(inner, r, `$.results[${i}]`);
+      c.issues.push(...inner.issues);
+      return result;
+    })
+    .filter((r): r is DrugAnalysisResult | UnsupportedDrugResult => r !== null);
+
+  return { analysis: { ...value.envelope, results }, issues: c.issues };
+}
+
+export function parseExplanation(raw: unknown): { value: LLMExplanation | null; issues: SchemaIssue[] } {
+  const c = new Checker();
+  const o = c.object(raw, "$");
+  const value = o ? validateExplanation(c, o.llm_explanation, "$.llm_explanation") : null;
+  return { value: c.issues.some((i) => i.level === "error") ? null : value, issues: c.issues };
+}
+
+export function parseDrugList(raw: unknown): { value: string[] | null; issues: SchemaIssue[] } {
+  const c = new Checker();
+  const o = c.object(raw, "$");
+  const value = o ? c.stringArray(o, "drugs", "$") ?? null : null;
+  return { value: c.issues.length > 0 ? null : value, issues: c.issues };
+}
+
+export function parseJob(raw: unknown): { value: AnalysisJob | null; issues: SchemaIssue[] } {
+  const c = new Checker();
+  const o = c.object(raw, "$");
+  if (!o) return { value: null, issues: c.issues };
+  const job: AnalysisJob = {
+    job_id: c.string(o, "job_id", "$"),
+    // A status this client does not know (e.g. "cancelled") may be terminal, so it ends the job
+    status: c.enumValue(o, "status", "$", JOB_STATUSES, "failed"),
+    stage: c.enumValue(o, "stage", "$", JOB_STAGES, "parse"),
+    progress: c.number(o, "progress", "$", true),
+    analysis_id: c.optionalString(o, "analysis_id", "$"),
+    detail: c.optionalString(o, "detail", "$"),
+  };
+  if (typeof o.status === "string" && job.status !== o.status) {
+    job.detail ||= `Analysis job ended with status "${o.status}"`;
+  }
+  if (job.status === "completed" && !job.analysis_id) c.error("$.analysis_id", "is required once the job has completed");
+  return { value: c.issues.some((i) => i.level === "error") ? null : job, issues: c.issues };
+}
+
+/** Paths (in the raw payload) of results that were dropped as malformed. */
+export function droppedResults(issues: SchemaIssue[]): string[] {
+  const paths = issues
+    .filter((i) => i.level === "error")
+    .map((i) => i.path.match(/^\$\.results\[\d+\]/)?.[0])
+    .filter((p): p is string => !!p);
+  return Array.from(new Set(paths));
+}
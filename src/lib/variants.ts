@@ -0,0 +1,129 @@
+import type { PharmacogenomicProfile } from "./api";
+import { DEFINING_VARIANTS, normalizeChrom } from "./pharmacogenes";
+
+export type Zygosity = "het" | "hom" | "hemi";
+
+/** One detected_variants string, split into whatever parts the backend's wording reveals. */
+export interface VariantEvidence {
+  raw: string;
+  /** False when nothing recognizable was found; the raw string is all there is */
+  parsed: boolean;
+  rsid?: string;
+  chrom?: string;
+  position?: number;
+  ref?: string;
+  alt?: string;
+  zygosity?: Zygosity;
+  starAllele?: string;
+  /** The star allele was looked up from the rsID rather than reported */
+  inferred?: boolean;
+}
+
+const RSID = /\brs\d+\b/i;
+const POSITION = /\b(?:chr)?([0-9]{1,2}|X|Y|MT?)[:_-](\d{3,})(?:[:_-]([ACGTN]+)[:_/>-]([ACGTN]+))?\b/i;
+// Standalone only: HGVS changes such as c.2846A>T are relative to the transcript, not the genome
+const CHANGE = /(?<![\w.-])([ACGTN]+)\s*>\s*([ACGTN]+)(?![A-Za-z])/;
+const STAR = /\*\d+[A-Z]?(?:x(?:\d+|N))?/;
+const ZYGOSITY_WORD = /\b(hom(?:o(?:zygous)?)?|het(?:ero(?:zygous)?)?|hemi(?:zygous)?)\b/i;
+const GENOTYPE = /(?<![\d*])([0-9.])[/|]([0-9.])(?![\d*])/;
+
+function zygosityOf(text: string): Zygosity | undefined {
+  const word = text.match(ZYGOSITY_WORD)?.[1].toLowerCase();
+  if (word) return word.startsWith("hom") ? "hom" : word.startsWith("het") ? "het" : "hemi";
+  const gt = text.match(GENOTYPE);
+  if (!gt || gt[1] === "." || gt[2] === ".") return undefined;
+  if (gt[1] === gt[2]) return gt[1] === "0" ? undefined : "hom";
+  return "het";
+}
+
+/**
+ * Pulls rsID, position, ref/alt, zygosity and star allele out of a variant string such as
+ * "rs3892097 (*4) het" or "chr22:42128945:C:T 0/1". Star alleles missing from the string are
+ * looked up for single-variant defining alleles of the given gene.
+ */
+export function parseVariant(raw: string, gene?: string): VariantEvidence {
+  const v: VariantEvidence = { raw, parsed: false };
+  let rest = raw;
+  const rsid = rest.match(RSID)?.[0];
+  if (rsid) {
+    v.rsid = rsid.toLowerCase();
+    rest = rest.replace(rsid, " ");
+  }
+  const pos = rest.match(POSITION);
+  if (pos) {
+    v.chrom = normalizeChrom(pos[1]);
+    v.position = Number(pos[2]);
+    if (pos[3] && pos[4]) {
+      v.ref = pos[3].toUpperCase();
+      v.alt = pos[4].toUpperCase();
+    }
+    rest = rest.replace(pos[0], " ");
+  }
+  const change = rest.match(CHANGE);
+  if (change && !v.ref) {
+    v.ref = change[1].toUpperCase();
+    v.alt = change[2].toUpperCase();
+  }
+  v.starAllele = rest.match(STAR)?.[0];
+  v.zygosity = zygosityOf(rest);
+
+  const known = v.rsid ? DEFINING_VARIANTS[v.rsid] : undefined;
+  if (!v.starAllele && known && (!gene || known.gene === gene)) {
+    v.starAllele = known.allele;
+    v.inferred = true;
+  }
+  v.parsed = Boolean(v.rsid || v.position || v.ref || (v.starAllele && !v.inferred));
+  return v;
+}
+
+export interface DiplotypeAllele {
+  name: string;
+  /** Copies of this allele: above 1 for duplications (null when given as xN) */
+  copies: number | null;
+}
+
+/** Splits "*1/*4" or "*1/*1xN" into its two haplotypes. */
+export function parseDiplotype(diplotype: string): DiplotypeAllele[] {
+  return diplotype
+    .split("/")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const dup = part.match(/^(.*?)x(\d+|N)$/i);
+      if (!dup) return { name: part, copies: 1 };
+      return { name: dup[1], copies: dup[2].toUpperCase() === "N" ? null : Number(dup[2]) };
+    });
+}
+
+export interface CopyNumberCall {
+  kind: "duplication" | "deletion";
+  /** Total gene copies, when known */
+  copies: number | null;
+  /** Where the call comes from: the reported copy_number, or the diplotype notation */
+  source: "copy_number" | "diplotype";
+}
+
+// Star alleles that are whole-gene deletions
+export const DELETION_ALLELES: Record<string, string> = { CYP2D6: "*5" };
+
+/**
+ * A duplication or deletion of the gene, from the reported copy number or, when that is
+ * missing, from xN / deletion alleles in the diplotype. Two copies is no call.
+ */
+export function copyNumberCall(profile: PharmacogenomicProfile): CopyNumberCall | null {
+  const cn = profile.copy_number;
+  if (cn !== null && cn !== undefined) {
+    if (cn > 2) return { kind: "duplication", copies: cn, source: "copy_number" };
+    if (cn < 2) return { kind: "deletion", copies: cn, source: "copy_number" };
+    return null;
+  }
+  const alleles = parseDiplotype(profile.diplotype);
+  const deleted = alleles.filter((a) => a.name === DELETION_ALLELES[profile.gene]).length;
+  if (deleted > 0) return { kind: "deletion", copies: 2 - deleted, source: "diplotype" };
+  if (alleles.some((a) => a.copies !== 1)) {
+    const unknown = alleles.some((a) => a.copies === null);
+    const copies = unknown ? null : alleles.reduce((n, a) => n + (a.copies ?? 0), 0);
+    return { kind: "duplication", copies, source: "diplotype" };
+  }
+  return null;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { inspectVcf } from "./vcf";
+
+const HEADER = "#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tSAMPLE";
+const RECORD = "chr1\t100\t.\tA\tG\t.\tPASS\t.\tGT\t0/1";
+const vcf = (...lines: string[]) => new Blob([lines.join("\n") + "\n"]);
+
+describe("inspectVcf", () => {
+  it("reads the file format from the first line", async () => {
+    const report = await inspectVcf(vcf("##fileformat=VCFv4.2", HEADER, RECORD));
+    expect(report.fileformat).toBe("VCFv4.2");
+    expect(report.errors).toEqual([]);
+  });
+
+  it("checks the first non-empty line when the file starts with blank lines", async () => {
+    const report = await inspectVcf(vcf("", "", "name,dose", "warfarin,5"));
+    expect(report.errors).toEqual(["First line must be ##fileformat=VCFv4.x; this does not look like a VCF file."]);
+    const valid = await inspectVcf(vcf("", "##fileformat=VCFv4.2", HEADER, RECORD));
+    expect(valid.fileformat).toBe("VCFv4.2");
+    expect(valid.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,268 @@
+import type { GenomeBuild } from "./pharmacogenes";
+import { PHARMACOGENES, findGene, geneRegions } from "./pharmacogenes";
+
+export const REQUIRED_COLUMNS = ["#CHROM", "POS", "ID", "REF", "ALT", "QUAL", "FILTER", "INFO"];
+
+// Records checked for column count / POS sanity; the rest of the file is only scanned for gene hits
+const VALIDATED_RECORDS = 1000;
+
+export interface VcfReport {
+  fileformat: string | null;
+  compressed: boolean;
+  samples: string[];
+  genomeBuild: GenomeBuild | null;
+  recordsScanned: number;
+  pharmacogeneRecords: number;
+  genesFound: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+export async function isGzipped(file: Blob): Promise<boolean> {
+  const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return magic[0] === 0x1f && magic[1] === 0x8b;
+}
+
+export interface ReadLinesOptions {
+  signal?: AbortSignal;
+  /** Called with the number of (possibly compressed) input bytes consumed so far. */
+  onProgress?: (bytesRead: number) => void;
+}
+
+/** Streams a plain or gzip/BGZF-compressed VCF line by line without loading it into memory. */
+export async function* readLines(
+  file: Blob,
+  { signal, onProgress }: ReadLinesOptions = {}
+): AsyncGenerator<string> {
+  let bytesRead = 0;
+  let stream: ReadableStream<BufferSource> = file.stream().pipeThrough(
+    new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        onProgress?.(bytesRead);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+  if (await isGzipped(file)) {
+    stream = stream.pipeThrough(new DecompressionStream("gzip"));
+  }
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      const { done, value } = await reader.read();
+      if (done) break;
+      const lines = (buffer + value).split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) yield line.endsWith("\r") ? line.slice(0, -1) : line;
+    }
+    if (buffer) yield buffer.replace(/\r$/, "");
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+const CONTIG_LENGTHS: Record<string, GenomeBuild> = {
+  "248956422": "GRCh38",
+  "249250621": "GRCh37",
+};
+
+export function detectGenomeBuild(metaLines: string[]): GenomeBuild | null {
+  for (const line of metaLines) {
+    if (line.startsWith("##reference") || line.startsWith("##assembly")) {
+      if (/GRCh38|hg38|hs38/i.test(line)) return "GRCh38";
+      if (/GRCh37|hg19|b37|hs37/i.test(line)) return "GRCh37";
+    }
+    if (line.startsWith("##contig")) {
+      if (/assembly=(GRCh38|hg38)/i.test(line)) return "GRCh38";
+      if (/assembly=(GRCh37|hg19|b37)/i.test(line)) return "GRCh37";
+      const m = line.match(/ID=(?:chr)?1,.*length=(\d+)/i);
+      if (m && CONTIG_LENGTHS[m[1]]) return CONTIG_LENGTHS[m[1]];
+    }
+  }
+  return null;
+}
+
+const GENE_ANNOTATION = new RegExp(`\\b(${PHARMACOGENES.join("|")})\\b`);
+
+/**
+ * Gene a data line belongs to, by position or by a gene symbol in its INFO annotations.
+ * Only the first eight columns are read.
+ */
+export function recordGene(fields: string[], build: GenomeBuild | null): string | null {
+  const byPosition = findGene(fields[0], Number(fields[1]), geneRegions(build));
+  if (byPosition) return byPosition;
+  const annotated = fields[7]?.match(GENE_ANNOTATION);
+  return annotated ? annotated[1] : null;
+}
+
+export interface InspectOptions extends ReadLinesOptions {
+  /** Stop scanning once a pharmacogene record is found. */
+  stopAtFirstGene?: boolean;
+  /** Receives every header line and every record that overlaps a pharmacogene. */
+  onKeep?: (line: string) => void;
+}
+
+export async function inspectVcf(
+  file: Blob,
+  { signal, onProgress, stopAtFirstGene = false, onKeep }: InspectOptions = {}
+): Promise<VcfReport> {
+  const report: VcfReport = {
+    fileformat: null,
+    compressed: false,
+    samples: [],
+    genomeBuild: null,
+    recordsScanned: 0,
+    pharmacogeneRecords: 0,
+    genesFound: [],
+    errors: [],
+    warnings: [],
+  };
+  report.compressed = await isGzipped(file);
+
+  const meta: string[] = [];
+  const genes = new Set<string>();
+  let columns: string[] | null = null;
+  let lineNo = 0;
+  let badRecords = 0;
+
+  try {
+    for await (const line of readLines(file, { signal, onProgress })) {
+      lineNo++;
+      if (!line) continue;
+      // The first non-empty line; it either sets fileformat or ends the scan
+      if (report.fileformat === null) {
+        const m = line.match(/^##fileformat=(VCFv[\d.]+)/);
+        if (!m) {
+          report.errors.push("First line must be ##fileformat=VCFv4.x; this does not look like a VCF file.");
+          break;
+        }
+        report.fileformat = m[1];
+        if (!/^VCFv4\./.test(m[1])) {
+          report.errors.push(`Unsupported VCF version ${m[1]}; expected VCFv4.x.`);
+        }
+      }
+      if (line.startsWith("##")) {
+        meta.push(line);
+        onKeep?.(line);
+        continue;
+      }
+      if (line.startsWith("#")) {
+        onKeep?.(line);
+        columns = line.split("\t");
+        const missing = REQUIRED_COLUMNS.filter((c, i) => columns![i] !== c);
+        if (missing.length > 0) {
+          report.errors.push(`Header line is missing or misorders required columns: ${missing.join(", ")}.`);
+        }
+        if (columns.length > 8) {
+          if (columns[8] !== "FORMAT") report.errors.push("Column 9 must be FORMAT when sample columns are present.");
+          report.samples = columns.slice(9);
+        }
+        report.genomeBuild = detectGenomeBuild(meta);
+        continue;
+      }
+      if (!columns) {
+        report.errors.push(`Line ${lineNo}: data record found before the #CHROM header line.`);
+        break;
+      }
+
+      report.recordsScanned++;
+      if (report.recordsScanned <= VALIDATED_RECORDS) {
+        const fields = line.split("\t");
+        if (fields.length !== columns.length || !/^\d+$/.test(fields[1] ?? "")) {
+          badRecords++;
+          continue;
+        }
+      }
+      const gene = recordGene(line.split("\t", 8), report.genomeBuild);
+      if (gene) {
+        report.pharmacogeneRecords++;
+        genes.add(gene);
+        onKeep?.(line);
+        if (stopAtFirstGene) break;
+      }
+    }
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") throw err;
+    report.errors.push(
+      report.compressed
+        ? "Could not decompress this file. Make sure it is a valid gzip or bgzip archive."
+        : "Could not read this file as text."
+    );
+  }
+
+  if (report.fileformat && !columns && report.errors.length === 0) {
+    report.errors.push("Missing #CHROM header line.");
+  }
+  if (columns && report.samples.length === 0) {
+    report.errors.push("No sample columns found; a genotyped sample is required.");
+  }
+  if (report.samples.length > 1) {
+    report.warnings.push(
+      `${report.samples.length} samples found (${report.samples.join(", ")}); choose which to analyze.`
+    );
+  }
+  if (badRecords > 0) {
+    report.errors.push(`${badRecords} record(s) have the wrong number of columns or an invalid POS.`);
+  }
+  if (columns && report.recordsScanned === 0) {
+    report.errors.push("File contains no variant records.");
+  }
+  if (columns && !report.genomeBuild) {
+    report.warnings.push("Could not determine the genome build from ##reference or ##contig lines.");
+  }
+  if (report.recordsScanned > 0 && genes.size === 0) {
+    report.warnings.push(
+      "No records overlap the supported pharmacogenes; results will assume reference (*1) alleles."
+    );
+  }
+  report.genesFound = Array.from(genes).sort();
+  return report;
+}
+
+export interface FilteredVcf {
+  /** Header plus only the records overlapping a pharmacogene, as an uncompressed VCF. */
+  file: File;
+  report: VcfReport;
+}
+
+/**
+ * Inspects and reduces a VCF in a single streaming pass so that only pharmacogene
+ * records are ever uploaded.
+ */
+export async function filterVcf(file: File, options: ReadLinesOptions = {}): Promise<FilteredVcf> {
+  const kept: string[] = [];
+  const report = await inspectVcf(file, { ...options, onKeep: (line) => kept.push(line + "\n") });
+  const name = file.name.replace(/\.(vcf)?(\.b?gz)?$/i, "") + ".pgx.vcf";
+  return {
+    file: new File(kept, name, { type: "text/vcf" }),
+    report,
+  };
+}
+
+/**
+ * Single-sample copy of a VCF keeping only the named sample's genotype column.
+ * Intended for the reduced output of filterVcf, which is small enough to rewrite in memory.
+ */
+export async function extractSample(file: File, sample: string): Promise<File> {
+  const lines: string[] = [];
+  let index = -1;
+  for await (const line of readLines(file)) {
+    if (!line) continue;
+    if (line.startsWith("##")) {
+      lines.push(line + "\n");
+      continue;
+    }
+    const fields = line.split("\t");
+    if (line.startsWith("#")) {
+      index = fields.indexOf(sample, 9);
+      if (index === -1) throw new Error(`Sample ${sample} is not in this VCF.`);
+    }
+    lines.push([...fields.slice(0, 9), fields[index] ?? "."].join("\t") + "\n");
+  }
+  const base = file.name.replace(/\.pgx\.vcf$/i, "");
+  const safeSample = sample.replace(/[^\w.-]+/g, "_");
+  return new File(lines, `${base}.${safeSample}.pgx.vcf`, { type: "text/vcf" });
+}
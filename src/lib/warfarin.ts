@@ -0,0 +1,146 @@
+import type { DrugAnalysisResult } from "./api";
+import type { Vkorc1Genotype } from "./cpic";
+import { vkorc1Genotype } from "./cpic";
+import { parseDiplotype } from "./variants";
+
+// International Warfarin Pharmacogenetics Consortium dosing algorithms (N Engl J Med 2009;360:753-64,
+// supplementary appendix). Both predict the square root of the weekly maintenance dose in mg.
+
+export type Race = "white" | "asian" | "black" | "other";
+export type Cyp2c9Genotype = "*1/*1" | "*1/*2" | "*1/*3" | "*2/*2" | "*2/*3" | "*3/*3" | "unknown";
+export type Vkorc1Input = Vkorc1Genotype | "unknown";
+
+export const RACES: Race[] = ["white", "asian", "black", "other"];
+export const CYP2C9_GENOTYPES: Cyp2c9Genotype[] = ["*1/*1", "*1/*2", "*1/*3", "*2/*2", "*2/*3", "*3/*3", "unknown"];
+export const VKORC1_INPUTS: Vkorc1Input[] = ["GG", "GA", "AA", "unknown"];
+
+export interface WarfarinInputs {
+  ageYears: number;
+  heightCm: number;
+  weightKg: number;
+  race: Race;
+  /** Carbamazepine, phenytoin, rifampin or rifampicin */
+  enzymeInducer: boolean;
+  amiodarone: boolean;
+  cyp2c9: Cyp2c9Genotype;
+  vkorc1: Vkorc1Input;
+}
+
+export interface DoseEstimate {
+  /** mg per week */
+  pharmacogenetic: number;
+  clinical: number;
+}
+
+/** A calculation saved with the analysis. */
+export interface WarfarinDoseRecord {
+  inputs: WarfarinInputs;
+  estimate: DoseEstimate;
+  calculatedAt: string;
+  /** Name of the signed-in clinician, when known */
+  calculatedBy?: string;
+}
+
+const PG_RACE: Record<Race, number> = { white: 0, asian: -0.1092, black: -0.276, other: -0.1032 };
+const CLINICAL_RACE: Record<Race, number> = { white: 0, asian: -0.6752, black: 0.406, other: 0.0443 };
+
+const PG_VKORC1: Record<Vkorc1Input, number> = { GG: 0, GA: -0.8677, AA: -1.6974, unknown: -0.4854 };
+
+const PG_CYP2C9: Record<Cyp2c9Genotype, number> = {
+  "*1/*1": 0,
+  "*1/*2": -0.5211,
+  "*1/*3": -0.9357,
+  "*2/*2": -1.0616,
+  "*2/*3": -1.9206,
+  "*3/*3": -2.3312,
+  unknown: -0.2188,
+};
+
+/** IWPC uses the decade of life: 1 for ages 10–19, 2 for 20–29, and so on. */
+export function ageInDecades(ageYears: number): number {
+  return Math.floor(ageYears / 10);
+}
+
+export function pharmacogeneticDose(i: WarfarinInputs): number {
+  const root =
+    5.6044 -
+    0.2614 * ageInDecades(i.ageYears) +
+    0.0087 * i.heightCm +
+    0.0128 * i.weightKg +
+    PG_VKORC1[i.vkorc1] +
+    PG_CYP2C9[i.cyp2c9] +
+    PG_RACE[i.race] +
+    1.1816 * Number(i.enzymeInducer) -
+    0.5503 * Number(i.amiodarone);
+  return Math.max(root, 0) ** 2;
+}
+
+export function clinicalDose(i: WarfarinInputs): number {
+  const root =
+    4.0376 -
+    0.2546 * ageInDecades(i.ageYears) +
+    0.0118 * i.heightCm +
+    0.0134 * i.weightKg +
+    CLINICAL_RACE[i.race] +
+    1.2799 * Number(i.enzymeInducer) -
+    0.5695 * Number(i.amiodarone);
+  return Math.max(root, 0) ** 2;
+}
+
+export function estimateDose(inputs: WarfarinInputs): DoseEstimate {
+  return { pharmacogenetic: pharmacogeneticDose(inputs), clinical: clinicalDose(inputs) };
+}
+
+export type InputProblem = "age" | "height" | "weight";
+
+// Ranges covered by the IWPC derivation cohort, roughly; outside them the estimate is extrapolated
+const LIMITS: Record<InputProblem, [number, number]> = {
+  age: [18, 100],
+  height: [120, 220],
+  weight: [30, 250],
+};
+
+export function inputProblems(i: Partial<WarfarinInputs>): InputProblem[] {
+  const values: Record<InputProblem, number | undefined> = { age: i.ageYears, height: i.heightCm, weight: i.weightKg };
+  return (Object.keys(LIMITS) as InputProblem[]).filter((k) => {
+    const v = values[k];
+    return v === undefined || !Number.isFinite(v) || v < LIMITS[k][0] || v > LIMITS[k][1];
+  });
+}
+
+/** CYP2C9 and VKORC1 genotypes as far as the warfarin result reports them. */
+export function genotypeInputs(result: DrugAnalysisResult): Pick<WarfarinInputs, "cyp2c9" | "vkorc1"> {
+  const profile = result.pharmacogenomic_profile;
+  let cyp2c9: Cyp2c9Genotype = "unknown";
+  if (profile.gene === "CYP2C9") {
+    const alleles = parseDiplotype(profile.diplotype)
+      .map((a) => a.name)
+      .sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+    const genotype = alleles.join("/") as Cyp2c9Genotype;
+    if (CYP2C9_GENOTYPES.includes(genotype)) cyp2c9 = genotype;
+  }
+  return { cyp2c9, vkorc1: vkorc1Genotype(result) ?? "unknown" };
+}
+
+/** Drops a stored record whose shape no longer matches, e.g. from an old archive. */
+export function parseWarfarinDose(value: unknown): WarfarinDoseRecord | undefined {
+  const r = value as Partial<WarfarinDoseRecord> | null;
+  if (!r || typeof r !== "object" || typeof r.calculatedAt !== "string") return undefined;
+  const i = r.inputs;
+  if (
+    !i ||
+    inputProblems(i).length > 0 ||
+    !RACES.includes(i.race) ||
+    !CYP2C9_GENOTYPES.includes(i.cyp2c9) ||
+    !VKORC1_INPUTS.includes(i.vkorc1)
+  ) {
+    return undefined;
+  }
+  const inputs: WarfarinInputs = { ...i, enzymeInducer: Boolean(i.enzymeInducer), amiodarone: Boolean(i.amiodarone) };
+  return {
+    inputs,
+    estimate: estimateDose(inputs),
+    calculatedAt: r.calculatedAt,
+    calculatedBy: typeof r.calculatedBy === "string" ? r.calculatedBy : undefined,
+  };
+}
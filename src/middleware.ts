@@ -0,0 +1,20 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { AUTH_ENABLED, SESSION_COOKIE, readSession } from "@/lib/auth/session";
+
+// Everything except sign-in itself, the local IdP stand-in, CDS Hooks (called by the EHR) and static assets
+export const config = {
+  matcher: ["/((?!login|api/auth|api/mock/oidc|api/cds-services|_next/static|_next/image|favicon.ico).*)"],
+};
+
+export async function middleware(req: NextRequest) {
+  if (!AUTH_ENABLED) return NextResponse.next();
+  if (await readSession(req.cookies.get(SESSION_COOKIE)?.value)) return NextResponse.next();
+
+  if (req.nextUrl.pathname.startsWith("/api/")) {
+    return NextResponse.json({ detail: "Not authenticated" }, { status: 401 });
+  }
+  const login = new URL("/login", req.url);
+  login.searchParams.set("next", req.nextUrl.pathname + req.nextUrl.search);
+  return NextResponse.redirect(login);
+}